@@ -0,0 +1,63 @@
+// SPDX-License-Identifier: Apache-2.0
+/*
+  Copyright 2023 ZeroEx Intl.
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+    http://www.apache.org/licenses/LICENSE-2.0
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+pragma solidity ^0.6.5;
+pragma experimental ABIEncoderV2;
+
+import "../vendor/IPropertyValidator.sol";
+
+/// @dev A property validator that accepts any token ID in a merkle allowlist.
+///      `propertyData` is `abi.encode(bytes32 root)`. Since the validator only
+///      sees the maker-signed `propertyData`, a token ID's merkle proof must be
+///      submitted through `proveTokenId()` before the order is filled with it.
+///      Leaves are `keccak256(abi.encode(tokenId))` and pairs are hashed in sorted order.
+contract TokenIdMerklePropertyValidator is IPropertyValidator {
+    /// @dev Emitted when a token ID is proven to be in a merkle tree.
+    /// @param root The root of the merkle tree.
+    /// @param tokenId The proven token ID.
+    event TokenIdProven(bytes32 root, uint256 tokenId);
+
+    /// @dev Whether a token ID has been proven to be in the merkle tree with a given root.
+    mapping(bytes32 => mapping(uint256 => bool)) public isTokenIdProven;
+
+    /// @dev Record that `tokenId` is in the merkle tree with `root`.
+    /// @param root The root of the merkle tree.
+    /// @param tokenId The token ID to prove.
+    /// @param proof The sibling hashes from the leaf of `tokenId` up to `root`.
+    function proveTokenId(bytes32 root, uint256 tokenId, bytes32[] calldata proof) external {
+        bytes32 node = keccak256(abi.encode(tokenId));
+        for (uint256 i = 0; i < proof.length; ++i) {
+            node = node < proof[i] ? keccak256(abi.encode(node, proof[i])) : keccak256(abi.encode(proof[i], node));
+        }
+        require(node == root, "TokenIdMerklePropertyValidator::proveTokenId/INVALID_PROOF");
+        isTokenIdProven[root][tokenId] = true;
+        emit TokenIdProven(root, tokenId);
+    }
+
+    /// @dev Reverts if `tokenId` has not been proven to be in the merkle tree
+    ///      whose root is encoded in `propertyData`.
+    /// @param tokenId The ERC721/ERC1155 tokenId of the asset to check.
+    /// @param propertyData The encoded merkle root.
+    function validateProperty(
+        address /* tokenAddress */,
+        uint256 tokenId,
+        bytes calldata propertyData
+    ) external view override {
+        bytes32 root = abi.decode(propertyData, (bytes32));
+        require(
+            isTokenIdProven[root][tokenId],
+            "TokenIdMerklePropertyValidator::validateProperty/TOKEN_ID_NOT_PROVEN"
+        );
+    }
+}
@@ -0,0 +1,37 @@
+// SPDX-License-Identifier: Apache-2.0
+/*
+  Copyright 2023 ZeroEx Intl.
+  Licensed under the Apache License, Version 2.0 (the "License");
+  you may not use this file except in compliance with the License.
+  You may obtain a copy of the License at
+    http://www.apache.org/licenses/LICENSE-2.0
+  Unless required by applicable law or agreed to in writing, software
+  distributed under the License is distributed on an "AS IS" BASIS,
+  WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+  See the License for the specific language governing permissions and
+  limitations under the License.
+*/
+
+pragma solidity ^0.6.5;
+pragma experimental ABIEncoderV2;
+
+import "../vendor/IPropertyValidator.sol";
+
+/// @dev A property validator that accepts any token ID in an inclusive range.
+///      `propertyData` is `abi.encode(uint256 lowerBound, uint256 upperBound)`.
+contract TokenIdRangePropertyValidator is IPropertyValidator {
+    /// @dev Reverts if `tokenId` is outside the range encoded in `propertyData`.
+    /// @param tokenId The ERC721/ERC1155 tokenId of the asset to check.
+    /// @param propertyData The encoded lower and upper bounds of the range.
+    function validateProperty(
+        address /* tokenAddress */,
+        uint256 tokenId,
+        bytes calldata propertyData
+    ) external view override {
+        (uint256 lowerBound, uint256 upperBound) = abi.decode(propertyData, (uint256, uint256));
+        require(
+            tokenId >= lowerBound && tokenId <= upperBound,
+            "TokenIdRangePropertyValidator::validateProperty/TOKEN_ID_OUT_OF_RANGE"
+        );
+    }
+}
@@ -1,16 +1,22 @@
-import { getContractAddressesForChainOrThrow } from '@0x/contract-addresses';
+import { getContractAddressesForChainOrThrow, isChainId } from '@0x/contract-addresses';
 import { constants } from '@0x/contracts-test-utils';
 import { RPCSubprovider, Web3ProviderEngine } from '@0x/subproviders';
 import { AbiEncoder, BigNumber, logUtils, providerUtils } from '@0x/utils';
 import { Web3Wrapper } from '@0x/web3-wrapper';
 import { MethodAbi, SupportedProvider } from 'ethereum-types';
-import * as fetch from 'isomorphic-fetch';
+import { promises as fs } from 'fs';
 import * as _ from 'lodash';
+import * as path from 'path';
 import * as prompts from 'prompts';
 
 import * as wrappers from '../src/wrappers';
 
-const SUBGRAPH_URL = 'https://api.thegraph.com/subgraphs/name/0xeng/zeroex-features-mainnet';
+// Where `ProxyFunctionUpdated` logs are cached, one file per chain and proxy.
+const CACHE_DIR = process.env.ROLLBACK_CACHE_DIR || path.resolve('.rollback_cache');
+// Blocks to query per `eth_getLogs` call. Many RPC providers cap the range.
+const LOG_BLOCK_RANGE = Number.parseInt(process.env.LOG_BLOCK_RANGE || '10000', 10);
+// Logs in the most recent blocks are not cached, in case they are reorged out.
+const CACHE_CONFIRMATIONS = Number.parseInt(process.env.CACHE_CONFIRMATIONS || '12', 10);
 
 const ownableFeature = new wrappers.OwnableFeatureContract(constants.NULL_ADDRESS, new Web3ProviderEngine());
 const simpleFunctionRegistryFeature = new wrappers.SimpleFunctionRegistryFeatureContract(
@@ -53,38 +59,121 @@ interface Deployment {
     updates: Array<{ selector: string; signature?: string; previousImpl: string; newImpl: string }>;
 }
 
-async function querySubgraphAsync(): Promise<ProxyFunctionEntity[]> {
-    const query = `
-        {
-            proxyFunctions {
-                id
-                currentImpl
-                fullHistory {
-                    impl
-                    timestamp
-                }
+interface ProxyFunctionUpdate {
+    blockNumber: number;
+    logIndex: number;
+    timestamp: string;
+    selector: string;
+    oldImpl: string;
+    newImpl: string;
+}
+
+interface ProxyFunctionUpdateCache {
+    chainId: number;
+    exchangeProxy: string;
+    // The last block whose logs are included in `updates`.
+    lastBlock: number;
+    updates: ProxyFunctionUpdate[];
+}
+
+async function loadCacheAsync(
+    cachePath: string,
+    zeroEx: wrappers.IZeroExContract,
+    chainId: number,
+): Promise<ProxyFunctionUpdateCache> {
+    try {
+        const cache: ProxyFunctionUpdateCache = JSON.parse(await fs.readFile(cachePath, 'utf8'));
+        if (cache.chainId === chainId && cache.exchangeProxy === zeroEx.address) {
+            return cache;
+        }
+    } catch (err) {
+        if (err.code !== 'ENOENT') {
+            throw err;
+        }
+    }
+    const fromBlock = Number.parseInt(process.env.FROM_BLOCK || '0', 10);
+    return { chainId, exchangeProxy: zeroEx.address, lastBlock: fromBlock - 1, updates: [] };
+}
+
+async function saveCacheAsync(cachePath: string, cache: ProxyFunctionUpdateCache): Promise<void> {
+    await fs.mkdir(path.dirname(cachePath), { recursive: true });
+    await fs.writeFile(`${cachePath}.tmp`, JSON.stringify(cache, null, 4));
+    await fs.rename(`${cachePath}.tmp`, cachePath);
+}
+
+async function queryProxyFunctionUpdatesAsync(
+    zeroEx: wrappers.IZeroExContract,
+    web3Wrapper: Web3Wrapper,
+    fromBlock: number,
+    toBlock: number,
+): Promise<ProxyFunctionUpdate[]> {
+    const updates: ProxyFunctionUpdate[] = [];
+    const timestamps: { [blockNumber: number]: string } = {};
+    for (let startBlock = fromBlock; startBlock <= toBlock; startBlock += LOG_BLOCK_RANGE) {
+        const endBlock = Math.min(startBlock + LOG_BLOCK_RANGE - 1, toBlock);
+        const logs = await zeroEx.getLogsAsync<wrappers.IZeroExProxyFunctionUpdatedEventArgs>(
+            wrappers.IZeroExEvents.ProxyFunctionUpdated,
+            { fromBlock: startBlock, toBlock: endBlock },
+            {},
+        );
+        for (const log of logs) {
+            const { blockNumber, logIndex } = log;
+            // Only pending logs lack a position, and the range ends at a confirmed block.
+            if (blockNumber === null || logIndex === null) {
+                throw new Error(`ProxyFunctionUpdated log in ${log.transactionHash} is pending`);
+            }
+            if (timestamps[blockNumber] === undefined) {
+                timestamps[blockNumber] = (await web3Wrapper.getBlockTimestampAsync(blockNumber)).toString();
             }
+            updates.push({
+                blockNumber,
+                logIndex,
+                timestamp: timestamps[blockNumber],
+                selector: log.args.selector,
+                oldImpl: log.args.oldImpl.toLowerCase(),
+                newImpl: log.args.newImpl.toLowerCase(),
+            });
         }
-    `;
-
-    const response = await fetch(SUBGRAPH_URL, {
-        method: 'POST',
-        headers: {
-            Accept: 'application/json',
-            'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-            query,
-        }),
-    });
-    const {
-        data: { proxyFunctions },
-    } = await response.json();
-    // Sort the history in chronological order
-    proxyFunctions.map((fn: ProxyFunctionEntity) =>
-        fn.fullHistory.sort((a, b) => Number.parseInt(a.timestamp, 10) - Number.parseInt(b.timestamp, 10)),
-    );
-    return proxyFunctions;
+        logUtils.log(`Fetched ProxyFunctionUpdated logs through block ${endBlock} of ${toBlock}`);
+    }
+    return updates;
+}
+
+/**
+ * Reconstruct the history of every function registered with the proxy from
+ * its `ProxyFunctionUpdated` logs. Logs are cached in `CACHE_DIR`, so later
+ * runs only fetch new blocks.
+ */
+async function queryProxyFunctionsAsync(zeroEx: wrappers.IZeroExContract): Promise<ProxyFunctionEntity[]> {
+    const web3Wrapper = new Web3Wrapper(await getProviderAsync());
+    const chainId = await web3Wrapper.getChainIdAsync();
+    const cachePath = path.resolve(CACHE_DIR, `${chainId}-${zeroEx.address}.json`);
+    const cache = await loadCacheAsync(cachePath, zeroEx, chainId);
+    const latestBlock = await web3Wrapper.getBlockNumberAsync();
+    const safeBlock = Math.max(latestBlock - CACHE_CONFIRMATIONS, cache.lastBlock);
+    if (safeBlock > cache.lastBlock) {
+        cache.updates.push(
+            ...(await queryProxyFunctionUpdatesAsync(zeroEx, web3Wrapper, cache.lastBlock + 1, safeBlock)),
+        );
+        cache.lastBlock = safeBlock;
+        await saveCacheAsync(cachePath, cache);
+    }
+    const updates = [
+        ...cache.updates,
+        ...(await queryProxyFunctionUpdatesAsync(zeroEx, web3Wrapper, safeBlock + 1, latestBlock)),
+    ].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+    const proxyFunctionsBySelector: { [selector: string]: ProxyFunctionEntity } = {};
+    for (const update of updates) {
+        const fn = (proxyFunctionsBySelector[update.selector] = proxyFunctionsBySelector[update.selector] || {
+            id: update.selector,
+            currentImpl: constants.NULL_ADDRESS,
+            fullHistory: [],
+        });
+        fn.currentImpl = update.newImpl;
+        fn.fullHistory.push({ impl: update.newImpl, timestamp: update.timestamp });
+    }
+    return Object.values(proxyFunctionsBySelector);
 }
 
 function reconstructDeployments(proxyFunctions: ProxyFunctionEntity[]): Deployment[] {
@@ -170,7 +259,11 @@ async function printRollbackCalldataAsync(
     }
 }
 
-async function deploymentHistoryAsync(deployments: Deployment[], proxyFunctions: ProxyFunctionEntity[]): Promise<void> {
+async function deploymentHistoryAsync(
+    zeroEx: wrappers.IZeroExContract,
+    deployments: Deployment[],
+    proxyFunctions: ProxyFunctionEntity[],
+): Promise<void> {
     const { index } = await prompts({
         type: 'select',
         name: 'index',
@@ -200,7 +293,6 @@ async function deploymentHistoryAsync(deployments: Deployment[], proxyFunctions:
             })),
         );
     } else {
-        const zeroEx = await getMainnetContractAsync();
         const rollbackTargets: { [selector: string]: string } = {};
         for (const update of deployments[index].updates) {
             rollbackTargets[update.selector] = update.previousImpl;
@@ -276,8 +368,10 @@ async function currentFunctionsAsync(proxyFunctions: ProxyFunctionEntity[]): Pro
     logUtils.log(currentFunctions);
 }
 
-async function generateRollbackAsync(proxyFunctions: ProxyFunctionEntity[]): Promise<void> {
-    const zeroEx = await getMainnetContractAsync();
+async function generateRollbackAsync(
+    zeroEx: wrappers.IZeroExContract,
+    proxyFunctions: ProxyFunctionEntity[],
+): Promise<void> {
     const { selected } = await prompts({
         type: 'autocompleteMultiselect',
         name: 'selected',
@@ -346,11 +440,10 @@ async function generateRollbackAsync(proxyFunctions: ProxyFunctionEntity[]): Pro
     }
 }
 
-async function generateEmergencyRollbackAsync(proxyFunctions: ProxyFunctionEntity[]): Promise<void> {
-    const zeroEx = new wrappers.IZeroExContract(
-        getContractAddressesForChainOrThrow(1).exchangeProxy,
-        new Web3ProviderEngine(),
-    );
+async function generateEmergencyRollbackAsync(
+    zeroEx: wrappers.IZeroExContract,
+    proxyFunctions: ProxyFunctionEntity[],
+): Promise<void> {
     const allSelectors = proxyFunctions
         .filter(fn => fn.currentImpl !== constants.NULL_ADDRESS && !DO_NOT_ROLLBACK.includes(fn.id))
         .map(fn => fn.id);
@@ -369,7 +462,7 @@ function createWeb3Provider(rpcUrl: string): SupportedProvider {
     return providerEngine;
 }
 
-async function getMainnetContractAsync(): Promise<wrappers.IZeroExContract> {
+async function getProviderAsync(): Promise<SupportedProvider> {
     if (provider === undefined) {
         const { rpcUrl } = await prompts({
             type: 'text',
@@ -378,13 +471,36 @@ async function getMainnetContractAsync(): Promise<wrappers.IZeroExContract> {
         });
         provider = createWeb3Provider(rpcUrl);
     }
-    const chainId = await new Web3Wrapper(provider).getChainIdAsync();
-    const { exchangeProxy } = getContractAddressesForChainOrThrow(chainId);
-    return new wrappers.IZeroExContract(exchangeProxy, provider);
+    return provider;
+}
+
+// Uses the proxy in `EXCHANGE_PROXY`, or else the chain's proxy from
+// `@0x/contract-addresses`.
+async function getZeroExContractAsync(): Promise<wrappers.IZeroExContract> {
+    const supportedProvider = await getProviderAsync();
+    const chainId = await new Web3Wrapper(supportedProvider).getChainIdAsync();
+    let exchangeProxy = process.env.EXCHANGE_PROXY;
+    if (exchangeProxy === undefined) {
+        if (isChainId(chainId)) {
+            exchangeProxy = getContractAddressesForChainOrThrow(chainId).exchangeProxy;
+        } else {
+            ({ exchangeProxy } = await prompts({
+                type: 'text',
+                name: 'exchangeProxy',
+                message: `Chain ${chainId} has no known Exchange Proxy. Enter its address:`,
+            }));
+        }
+    }
+    if (exchangeProxy === undefined || !Web3Wrapper.isAddress(exchangeProxy)) {
+        logUtils.log(`Invalid Exchange Proxy address: ${exchangeProxy}`);
+        process.exit(1);
+    }
+    return new wrappers.IZeroExContract(exchangeProxy, supportedProvider);
 }
 
 (async () => {
-    const proxyFunctions = await querySubgraphAsync();
+    const zeroEx = await getZeroExContractAsync();
+    const proxyFunctions = await queryProxyFunctionsAsync(zeroEx);
     const deployments = reconstructDeployments(proxyFunctions);
 
     for (;;) {
@@ -404,7 +520,7 @@ async function getMainnetContractAsync(): Promise<wrappers.IZeroExContract> {
 
         switch (action) {
             case CommandLineActions.History:
-                await deploymentHistoryAsync(deployments, proxyFunctions);
+                await deploymentHistoryAsync(zeroEx, deployments, proxyFunctions);
                 break;
             case CommandLineActions.Function:
                 await functionHistoryAsync(proxyFunctions);
@@ -413,10 +529,10 @@ async function getMainnetContractAsync(): Promise<wrappers.IZeroExContract> {
                 await currentFunctionsAsync(proxyFunctions);
                 break;
             case CommandLineActions.Rollback:
-                await generateRollbackAsync(proxyFunctions);
+                await generateRollbackAsync(zeroEx, proxyFunctions);
                 break;
             case CommandLineActions.Emergency:
-                await generateEmergencyRollbackAsync(proxyFunctions);
+                await generateEmergencyRollbackAsync(zeroEx, proxyFunctions);
                 break;
             case CommandLineActions.Exit:
             default:
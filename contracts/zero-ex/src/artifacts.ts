@@ -13,12 +13,15 @@ import * as BatchFillNativeOrdersFeature from '../generated-artifacts/BatchFillN
 import * as BSCBridgeAdapter from '../generated-artifacts/BSCBridgeAdapter.json';
 import * as CeloBridgeAdapter from '../generated-artifacts/CeloBridgeAdapter.json';
 import * as CurveLiquidityProvider from '../generated-artifacts/CurveLiquidityProvider.json';
+import * as ERC1155OrdersFeature from '../generated-artifacts/ERC1155OrdersFeature.json';
+import * as ERC721OrdersFeature from '../generated-artifacts/ERC721OrdersFeature.json';
 import * as EthereumBridgeAdapter from '../generated-artifacts/EthereumBridgeAdapter.json';
 import * as FantomBridgeAdapter from '../generated-artifacts/FantomBridgeAdapter.json';
 import * as FeeCollector from '../generated-artifacts/FeeCollector.json';
 import * as FeeCollectorController from '../generated-artifacts/FeeCollectorController.json';
 import * as FillQuoteTransformer from '../generated-artifacts/FillQuoteTransformer.json';
 import * as FullMigration from '../generated-artifacts/FullMigration.json';
+import * as FundRecoveryFeature from '../generated-artifacts/FundRecoveryFeature.json';
 import * as IBatchFillNativeOrdersFeature from '../generated-artifacts/IBatchFillNativeOrdersFeature.json';
 import * as IERC20Transformer from '../generated-artifacts/IERC20Transformer.json';
 import * as IFlashWallet from '../generated-artifacts/IFlashWallet.json';
@@ -32,6 +35,7 @@ import * as ISimpleFunctionRegistryFeature from '../generated-artifacts/ISimpleF
 import * as ITransformERC20Feature from '../generated-artifacts/ITransformERC20Feature.json';
 import * as IZeroEx from '../generated-artifacts/IZeroEx.json';
 import * as LiquidityProviderFeature from '../generated-artifacts/LiquidityProviderFeature.json';
+import * as LiquidityProviderSandbox from '../generated-artifacts/LiquidityProviderSandbox.json';
 import * as LogMetadataTransformer from '../generated-artifacts/LogMetadataTransformer.json';
 import * as MetaTransactionsFeature from '../generated-artifacts/MetaTransactionsFeature.json';
 import * as MetaTransactionsFeatureV2 from '../generated-artifacts/MetaTransactionsFeatureV2.json';
@@ -40,11 +44,16 @@ import * as NativeOrdersFeature from '../generated-artifacts/NativeOrdersFeature
 import * as OptimismBridgeAdapter from '../generated-artifacts/OptimismBridgeAdapter.json';
 import * as OtcOrdersFeature from '../generated-artifacts/OtcOrdersFeature.json';
 import * as OwnableFeature from '../generated-artifacts/OwnableFeature.json';
+import * as PancakeSwapFeature from '../generated-artifacts/PancakeSwapFeature.json';
 import * as PayTakerTransformer from '../generated-artifacts/PayTakerTransformer.json';
 import * as PolygonBridgeAdapter from '../generated-artifacts/PolygonBridgeAdapter.json';
 import * as PositiveSlippageFeeTransformer from '../generated-artifacts/PositiveSlippageFeeTransformer.json';
 import * as SimpleFunctionRegistryFeature from '../generated-artifacts/SimpleFunctionRegistryFeature.json';
+import * as TokenIdMerklePropertyValidator from '../generated-artifacts/TokenIdMerklePropertyValidator.json';
+import * as TokenIdRangePropertyValidator from '../generated-artifacts/TokenIdRangePropertyValidator.json';
 import * as TransformERC20Feature from '../generated-artifacts/TransformERC20Feature.json';
+import * as TransformerDeployer from '../generated-artifacts/TransformerDeployer.json';
+import * as UniswapV3Feature from '../generated-artifacts/UniswapV3Feature.json';
 import * as WethTransformer from '../generated-artifacts/WethTransformer.json';
 import * as ZeroEx from '../generated-artifacts/ZeroEx.json';
 export const artifacts = {
@@ -90,4 +99,13 @@ export const artifacts = {
     OptimismBridgeAdapter: OptimismBridgeAdapter as ContractArtifact,
     PolygonBridgeAdapter: PolygonBridgeAdapter as ContractArtifact,
     MetaTransactionsFeatureV2: MetaTransactionsFeatureV2 as ContractArtifact,
+    TransformerDeployer: TransformerDeployer as ContractArtifact,
+    ERC721OrdersFeature: ERC721OrdersFeature as ContractArtifact,
+    ERC1155OrdersFeature: ERC1155OrdersFeature as ContractArtifact,
+    UniswapV3Feature: UniswapV3Feature as ContractArtifact,
+    PancakeSwapFeature: PancakeSwapFeature as ContractArtifact,
+    FundRecoveryFeature: FundRecoveryFeature as ContractArtifact,
+    LiquidityProviderSandbox: LiquidityProviderSandbox as ContractArtifact,
+    TokenIdRangePropertyValidator: TokenIdRangePropertyValidator as ContractArtifact,
+    TokenIdMerklePropertyValidator: TokenIdMerklePropertyValidator as ContractArtifact,
 };
@@ -0,0 +1,442 @@
+import { ContractAddresses, getContractAddressesForChainOrThrow, isChainId } from '@0x/contract-addresses';
+import { hexUtils, NULL_ADDRESS } from '@0x/utils';
+import { Web3Wrapper } from '@0x/web3-wrapper';
+import { ContractArtifact, LogWithDecodedArgs, SupportedProvider, TxData } from 'ethereum-types';
+import * as ethers from 'ethers';
+import { promises as fs } from 'fs';
+import * as yaml from 'js-yaml';
+
+import { artifacts } from './artifacts';
+import {
+    deployFeeCollectorControllerAsync,
+    deployFullFeatureAsync,
+    deployLiquidityProviderSandboxAsync,
+    deployOptionalFeatureAsync,
+    FEATURE_CATALOG,
+    FULL_FEATURE_NAMES,
+    FullFeatureArtifacts,
+    FullFeatures,
+    FullMigrationConfig,
+    getOptionalFeaturesInDependencyOrder,
+    migrateOptionalFeatureAsync,
+    OptionalFeatureArtifacts,
+    OptionalFeatures,
+} from './migration';
+import {
+    FullMigrationContract,
+    IOwnableFeatureContract,
+    IZeroExContract,
+    TransformerDeployerContract,
+    TransformerDeployerDeployedEventArgs as DeployedEventArgs,
+    TransformerDeployerEvents,
+    ZeroExContract,
+} from './wrappers';
+
+export type TransformerName = keyof ContractAddresses['transformers'];
+
+/**
+ * Describes a full deployment of the Exchange Proxy. Can be loaded from a
+ * JSON or YAML file with `loadDeploymentManifestAsync()`.
+ */
+export interface DeploymentManifest {
+    chainId: number;
+    owner: string;
+    // Features that are already deployed. Optional features listed here are
+    // registered along with those in `config.optionalFeatures`.
+    features?: Partial<FullFeatures & OptionalFeatures>;
+    // Names of the artifacts to deploy features with, if not the defaults.
+    featureArtifacts?: { [feature in keyof (FullFeatureArtifacts & OptionalFeatureArtifacts)]?: string };
+    // `zeroExAddress` is always the proxy being deployed. A `TransformerDeployer`
+    // authorizing the sender is deployed if `transformerDeployer` is not set.
+    config?: Partial<Omit<FullMigrationConfig, 'zeroExAddress'>>;
+    // `true` to deploy a transformer through the transformer deployer, or the
+    // address of one that is already deployed.
+    transformers?: { [transformer in TransformerName]?: boolean | string };
+    // Address of the bridge adapter used by the `FillQuoteTransformer`, or the
+    // name of a bridge adapter artifact to deploy.
+    bridgeAdapter?: string;
+}
+
+/**
+ * Progress of a manifest deployment.
+ */
+export interface DeploymentState {
+    chainId: number;
+    // `getDeploymentManifestHash()` of the manifest being deployed.
+    manifestHash: string;
+    // The address deployed, or the transaction hash, of each finished step.
+    steps: { [step: string]: string };
+}
+
+/**
+ * Persists the progress of a manifest deployment.
+ */
+export interface DeploymentStateStore {
+    loadAsync(): Promise<DeploymentState | undefined>;
+    saveAsync(state: DeploymentState): Promise<void>;
+}
+
+/**
+ * A `DeploymentStateStore` that does not outlive the process.
+ */
+export class InMemoryDeploymentStateStore implements DeploymentStateStore {
+    protected _state?: DeploymentState;
+
+    public async loadAsync(): Promise<DeploymentState | undefined> {
+        return this._state && { ...this._state, steps: { ...this._state.steps } };
+    }
+
+    public async saveAsync(state: DeploymentState): Promise<void> {
+        this._state = { ...state, steps: { ...state.steps } };
+    }
+}
+
+/**
+ * A `DeploymentStateStore` backed by a JSON file, which is rewritten after
+ * every step.
+ */
+export class FileDeploymentStateStore implements DeploymentStateStore {
+    constructor(public readonly path: string) {}
+
+    public async loadAsync(): Promise<DeploymentState | undefined> {
+        try {
+            return JSON.parse(await fs.readFile(this.path, 'utf8'));
+        } catch (err) {
+            if (err.code !== 'ENOENT') {
+                throw err;
+            }
+            return undefined;
+        }
+    }
+
+    public async saveAsync(state: DeploymentState): Promise<void> {
+        // Write to a temporary file first so a crash never leaves a truncated state file.
+        const tmpPath = `${this.path}.tmp`;
+        await fs.writeFile(tmpPath, JSON.stringify(state, null, 4));
+        await fs.rename(tmpPath, this.path);
+    }
+}
+
+/**
+ * The result of `deployFromManifestAsync()`.
+ */
+export interface ManifestDeployment {
+    zeroEx: IZeroExContract;
+    state: DeploymentState;
+    addresses: ContractAddresses;
+}
+
+const TRANSFORMER_NAMES: TransformerName[] = [
+    'wethTransformer',
+    'payTakerTransformer',
+    'affiliateFeeTransformer',
+    'fillQuoteTransformer',
+    'positiveSlippageFeeTransformer',
+];
+
+const TRANSFORMER_ARTIFACT_NAMES: { [transformer in TransformerName]: keyof typeof artifacts } = {
+    wethTransformer: 'WethTransformer',
+    payTakerTransformer: 'PayTakerTransformer',
+    affiliateFeeTransformer: 'AffiliateFeeTransformer',
+    fillQuoteTransformer: 'FillQuoteTransformer',
+    positiveSlippageFeeTransformer: 'PositiveSlippageFeeTransformer',
+};
+
+/**
+ * Read a deployment manifest from a JSON or YAML file.
+ */
+export async function loadDeploymentManifestAsync(path: string): Promise<DeploymentManifest> {
+    const contents = await fs.readFile(path, 'utf8');
+    const manifest = (/\.ya?ml$/i.test(path) ? yaml.load(contents) : JSON.parse(contents)) as
+        | DeploymentManifest
+        | undefined;
+    if (!manifest || typeof manifest.chainId !== 'number' || !Web3Wrapper.isAddress(manifest.owner)) {
+        throw new Error(`${path} is not a deployment manifest: a chainId and an owner address are required`);
+    }
+    return manifest;
+}
+
+/**
+ * Hash a manifest, ignoring the order of its keys. Deployment state records
+ * the hash so it cannot be resumed with a different manifest.
+ */
+export function getDeploymentManifestHash(manifest: DeploymentManifest): string {
+    const json = JSON.stringify(manifest, (_key: string, value: unknown) => {
+        if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+            return value;
+        }
+        const sorted: { [key: string]: unknown } = {};
+        for (const key of Object.keys(value as object).sort()) {
+            sorted[key] = (value as { [key: string]: unknown })[key];
+        }
+        return sorted;
+    });
+    return hexUtils.hash(hexUtils.toHex(Buffer.from(json)));
+}
+
+/**
+ * Deploy and migrate an Exchange Proxy as described by `manifest`, then deploy
+ * its transformers. Each step is saved to `store` once it finishes, so a
+ * deployment that fails can be resumed by calling this again with the same
+ * store, and finished steps are not repeated.
+ */
+export async function deployFromManifestAsync(
+    manifest: DeploymentManifest,
+    provider: SupportedProvider,
+    txDefaults: Partial<TxData>,
+    store: DeploymentStateStore = new InMemoryDeploymentStateStore(),
+    manifestArtifacts: { [name: string]: ContractArtifact } = artifacts,
+): Promise<ManifestDeployment> {
+    const sender = txDefaults.from;
+    if (!sender) {
+        throw new Error('A sender is required to deploy a manifest');
+    }
+    const chainId = await new Web3Wrapper(provider).getChainIdAsync();
+    if (chainId !== manifest.chainId) {
+        throw new Error(`Manifest is for chain ${manifest.chainId} but the provider is on chain ${chainId}`);
+    }
+    const manifestHash = getDeploymentManifestHash(manifest);
+    const state = (await store.loadAsync()) || { chainId, manifestHash, steps: {} };
+    if (state.chainId !== chainId) {
+        throw new Error(`Deployment state is for chain ${state.chainId} but the manifest is for chain ${chainId}`);
+    }
+    if (state.manifestHash !== manifestHash) {
+        throw new Error(`Deployment state is for manifest ${state.manifestHash} but the manifest is ${manifestHash}`);
+    }
+    const runStepAsync = async (step: string, runAsync: () => Promise<string>): Promise<string> => {
+        if (state.steps[step] === undefined) {
+            state.steps[step] = await runAsync();
+            await store.saveAsync(state);
+        }
+        return state.steps[step];
+    };
+    const getArtifact = (name: string): ContractArtifact => {
+        if (!manifestArtifacts[name]) {
+            throw new Error(`Unknown artifact: ${name}`);
+        }
+        return manifestArtifacts[name];
+    };
+    const deployFromSenderAsync = async (artifact: ContractArtifact, constructorArgs: string[]): Promise<string> => {
+        const web3Wrapper = new Web3Wrapper(provider);
+        const txHash = await web3Wrapper.sendTransactionAsync({
+            ...txDefaults,
+            data: encodeDeployment(artifact, constructorArgs),
+        });
+        const receipt = await web3Wrapper.awaitTransactionSuccessAsync(txHash);
+        if (!receipt.contractAddress) {
+            throw new Error(`Deploying ${artifact.contractName} did not create a contract`);
+        }
+        return receipt.contractAddress;
+    };
+    const featureArtifacts: Partial<FullFeatureArtifacts & OptionalFeatureArtifacts> = {};
+    for (const [feature, name] of Object.entries(manifest.featureArtifacts || {})) {
+        featureArtifacts[feature as keyof (FullFeatureArtifacts & OptionalFeatureArtifacts)] = getArtifact(
+            name as string,
+        );
+    }
+    const manifestFeatures: Partial<FullFeatures & OptionalFeatures> = manifest.features || {};
+    const optionalFeatures = getOptionalFeaturesInDependencyOrder([
+        ...((manifest.config || {}).optionalFeatures || []),
+        ...(Object.keys(manifestFeatures) as Array<keyof (FullFeatures & OptionalFeatures)>).filter(
+            (feature): feature is keyof OptionalFeatures => feature in FEATURE_CATALOG,
+        ),
+    ]);
+
+    const migratorAddress = await runStepAsync(
+        'migrator',
+        async () =>
+            (
+                await FullMigrationContract.deployFrom0xArtifactAsync(
+                    artifacts.FullMigration,
+                    provider,
+                    txDefaults,
+                    artifacts,
+                    sender,
+                )
+            ).address,
+    );
+    const migrator = new FullMigrationContract(migratorAddress, provider, txDefaults);
+    const zeroExAddress = await runStepAsync('zeroEx', async () => {
+        const bootstrapper = await migrator.getBootstrapper().callAsync();
+        return (
+            await ZeroExContract.deployFrom0xArtifactAsync(
+                artifacts.ZeroEx,
+                provider,
+                txDefaults,
+                artifacts,
+                bootstrapper,
+            )
+        ).address;
+    });
+    const config = { ...manifest.config, zeroExAddress };
+    config.feeCollectorController =
+        config.feeCollectorController ||
+        (await runStepAsync('feeCollectorController', async () =>
+            deployFeeCollectorControllerAsync(provider, txDefaults, config, featureArtifacts),
+        ));
+    const features: Partial<FullFeatures> = {};
+    for (const feature of FULL_FEATURE_NAMES) {
+        features[feature] =
+            manifestFeatures[feature] ||
+            (await runStepAsync(`features.${feature}`, async () =>
+                deployFullFeatureAsync(feature, provider, txDefaults, config, featureArtifacts),
+            ));
+    }
+    const transformerDeployerAddress =
+        config.transformerDeployer ||
+        (await runStepAsync(
+            'transformerDeployer',
+            async () =>
+                (
+                    await TransformerDeployerContract.deployFrom0xArtifactAsync(
+                        artifacts.TransformerDeployer,
+                        provider,
+                        txDefaults,
+                        artifacts,
+                        [sender],
+                    )
+                ).address,
+        ));
+    // Optional features are registered by the sender before it hands over ownership.
+    const migrationOwner = optionalFeatures.length > 0 ? sender : manifest.owner;
+    await runStepAsync('migrateZeroEx', async () => {
+        const receipt = await migrator
+            .migrateZeroEx(migrationOwner, zeroExAddress, features as FullFeatures, {
+                transformerDeployer: transformerDeployerAddress,
+            })
+            .awaitTransactionSuccessAsync();
+        return receipt.transactionHash;
+    });
+    if (optionalFeatures.some(feature => FEATURE_CATALOG[feature].requiresSandbox)) {
+        config.liquidityProviderSandbox =
+            config.liquidityProviderSandbox ||
+            (await runStepAsync('liquidityProviderSandbox', async () =>
+                deployLiquidityProviderSandboxAsync(provider, txDefaults, zeroExAddress),
+            ));
+    }
+    for (const feature of optionalFeatures) {
+        const featureAddress =
+            manifestFeatures[feature] ||
+            (await runStepAsync(`features.${feature}`, async () =>
+                deployOptionalFeatureAsync(feature, provider, txDefaults, config, featureArtifacts),
+            ));
+        await runStepAsync(`migrate.${feature}`, async () =>
+            migrateOptionalFeatureAsync(feature, featureAddress, zeroExAddress, provider, txDefaults),
+        );
+    }
+    if (migrationOwner.toLowerCase() !== manifest.owner.toLowerCase()) {
+        await runStepAsync('transferOwnership', async () => {
+            const receipt = await new IOwnableFeatureContract(zeroExAddress, provider, txDefaults)
+                .transferOwnership(manifest.owner)
+                .awaitTransactionSuccessAsync();
+            return receipt.transactionHash;
+        });
+    }
+    const zeroEx = new IZeroExContract(zeroExAddress, provider, txDefaults);
+    await runStepAsync('flashWallet', async () => zeroEx.getTransformWallet().callAsync());
+
+    const transformerDeployer = new TransformerDeployerContract(transformerDeployerAddress, provider, txDefaults);
+    for (const transformer of TRANSFORMER_NAMES) {
+        const transformerConfig = (manifest.transformers || {})[transformer];
+        if (transformerConfig !== true) {
+            continue;
+        }
+        const constructorArgs: string[] = [];
+        if (transformer === 'wethTransformer') {
+            constructorArgs.push(config.wethAddress || NULL_ADDRESS);
+        } else if (transformer === 'fillQuoteTransformer') {
+            const bridgeAdapter = manifest.bridgeAdapter;
+            if (!bridgeAdapter) {
+                throw new Error('A bridge adapter is required to deploy the fillQuoteTransformer');
+            }
+            const bridgeAdapterAddress = Web3Wrapper.isAddress(bridgeAdapter)
+                ? bridgeAdapter
+                : await runStepAsync('bridgeAdapter', async () =>
+                      deployFromSenderAsync(getArtifact(bridgeAdapter), [config.wethAddress || NULL_ADDRESS]),
+                  );
+            constructorArgs.push(bridgeAdapterAddress, zeroExAddress);
+        }
+        await runStepAsync(`transformers.${transformer}`, async () => {
+            const artifact = artifacts[TRANSFORMER_ARTIFACT_NAMES[transformer]];
+            const receipt = await transformerDeployer
+                .deploy(encodeDeployment(artifact, constructorArgs))
+                .awaitTransactionSuccessAsync();
+            const deployed = receipt.logs.find(
+                log => (log as LogWithDecodedArgs<DeployedEventArgs>).event === TransformerDeployerEvents.Deployed,
+            ) as LogWithDecodedArgs<DeployedEventArgs> | undefined;
+            if (!deployed) {
+                throw new Error(`Deploying the ${transformer} did not emit a Deployed event`);
+            }
+            return deployed.args.deployedAddress;
+        });
+    }
+    return { zeroEx, state, addresses: getManifestContractAddresses(manifest, state) };
+}
+
+/**
+ * The `addresses.json` entry for a manifest deployment, in the shape used by
+ * `@0x/contract-addresses`. Contracts the manifest does not deploy keep their
+ * addresses on chains `@0x/contract-addresses` knows, and are `NULL_ADDRESS`
+ * otherwise.
+ */
+export function getManifestContractAddresses(manifest: DeploymentManifest, state: DeploymentState): ContractAddresses {
+    const base = isChainId(manifest.chainId) ? getContractAddressesForChainOrThrow(manifest.chainId) : undefined;
+    const config = manifest.config || {};
+    const transformers = { ...(base ? base.transformers : {}) } as ContractAddresses['transformers'];
+    for (const transformer of TRANSFORMER_NAMES) {
+        const transformerConfig = (manifest.transformers || {})[transformer];
+        if (typeof transformerConfig === 'string') {
+            transformers[transformer] = transformerConfig;
+        } else {
+            transformers[transformer] =
+                state.steps[`transformers.${transformer}`] || transformers[transformer] || NULL_ADDRESS;
+        }
+    }
+    const get = (field: keyof ContractAddresses): string => (base ? (base[field] as string) : NULL_ADDRESS);
+    return {
+        zrxToken: get('zrxToken'),
+        etherToken: config.wethAddress || get('etherToken'),
+        zeroExGovernor: get('zeroExGovernor'),
+        zrxVault: get('zrxVault'),
+        staking: get('staking'),
+        stakingProxy: config.stakingAddress || get('stakingProxy'),
+        erc20BridgeProxy: get('erc20BridgeProxy'),
+        erc20BridgeSampler: get('erc20BridgeSampler'),
+        exchangeProxyGovernor: manifest.owner,
+        exchangeProxy: state.steps.zeroEx || get('exchangeProxy'),
+        exchangeProxyTransformerDeployer:
+            config.transformerDeployer || state.steps.transformerDeployer || get('exchangeProxyTransformerDeployer'),
+        exchangeProxyFlashWallet: state.steps.flashWallet || get('exchangeProxyFlashWallet'),
+        exchangeProxyLiquidityProviderSandbox:
+            config.liquidityProviderSandbox ||
+            state.steps.liquidityProviderSandbox ||
+            get('exchangeProxyLiquidityProviderSandbox'),
+        zrxTreasury: get('zrxTreasury'),
+        transformers,
+    };
+}
+
+/**
+ * Add or replace the entry for `chainId` in an `addresses.json` file.
+ */
+export async function writeAddressesJsonEntryAsync(
+    path: string,
+    chainId: number,
+    addresses: ContractAddresses,
+): Promise<void> {
+    let addressesByChain: { [chainId: string]: ContractAddresses } = {};
+    try {
+        addressesByChain = JSON.parse(await fs.readFile(path, 'utf8'));
+    } catch (err) {
+        if (err.code !== 'ENOENT') {
+            throw err;
+        }
+    }
+    addressesByChain[chainId] = addresses;
+    await fs.writeFile(path, `${JSON.stringify(addressesByChain, null, 4)}\n`);
+}
+
+function encodeDeployment(artifact: ContractArtifact, constructorArgs: string[]): string {
+    const iface = new ethers.utils.Interface(artifact.compilerOutput.abi);
+    return iface.deployFunction.encode(artifact.compilerOutput.evm.bytecode.object, constructorArgs);
+}
@@ -31,6 +31,8 @@ export {
 } from 'ethereum-types';
 export { artifacts } from './artifacts';
 export * from './migration';
+export * from './deployment_manifest';
+export * from './upgrade_planner';
 export * from './nonce_utils';
 export * from './bloom_filter_utils';
 export { GREEDY_TOKENS } from './constants';
@@ -55,6 +57,7 @@ export {
     PolygonBridgeAdapterContract,
     PositiveSlippageFeeTransformerContract,
     TransformERC20FeatureContract,
+    TransformerDeployerContract,
     WethTransformerContract,
     ZeroExContract,
 } from './wrappers';
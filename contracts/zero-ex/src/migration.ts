@@ -1,20 +1,31 @@
 import { SimpleContractArtifact } from '@0x/types';
-import { NULL_ADDRESS } from '@0x/utils';
+import { hexUtils, NULL_ADDRESS } from '@0x/utils';
 import { TxData, SupportedProvider } from 'ethereum-types';
 import * as _ from 'lodash';
 
 import { artifacts } from './artifacts';
 import {
+    BatchFillNativeOrdersFeatureContract,
+    ERC1155OrdersFeatureContract,
+    ERC721OrdersFeatureContract,
     FeeCollectorControllerContract,
     FullMigrationContract,
+    FundRecoveryFeatureContract,
     InitialMigrationContract,
+    IOwnableFeatureContract,
     IZeroExContract,
+    LiquidityProviderFeatureContract,
+    LiquidityProviderSandboxContract,
     MetaTransactionsFeatureContract,
+    MetaTransactionsFeatureV2Contract,
+    MultiplexFeatureContract,
     NativeOrdersFeatureContract,
     OtcOrdersFeatureContract,
     OwnableFeatureContract,
+    PancakeSwapFeatureContract,
     SimpleFunctionRegistryFeatureContract,
     TransformERC20FeatureContract,
+    UniswapV3FeatureContract,
     ZeroExContract,
 } from './wrappers';
 
@@ -133,13 +144,18 @@ export interface FullFeaturesDeployConfig {
     wethAddress: string;
     stakingAddress: string;
     protocolFeeMultiplier: number;
+    // Deployed by `deployFullFeaturesAsync()` if not set.
+    feeCollectorController?: string;
 }
 
 /**
  * Configuration options for a full migration of the Exchange Proxy.
  */
-export interface FullMigrationConfig extends FullFeaturesDeployConfig {
+export interface FullMigrationConfig extends FullFeaturesDeployConfig, Partial<OptionalFeaturesDeployConfig> {
     transformerDeployer?: string;
+    // Optional features to deploy and register, along with the optional
+    // features they depend on.
+    optionalFeatures?: Array<keyof OptionalFeatures>;
 }
 
 const DEFAULT_FULL_FEATURES_DEPLOY_CONFIG = {
@@ -151,6 +167,7 @@ const DEFAULT_FULL_FEATURES_DEPLOY_CONFIG = {
 };
 
 const DEFAULT_FULL_FEATURES_ARTIFACTS = {
+    ...DEFAULT_BOOTSTRAP_FEATURE_ARTIFACTS,
     transformERC20: artifacts.TransformERC20Feature,
     metaTransactions: artifacts.MetaTransactionsFeature,
     nativeOrders: artifacts.NativeOrdersFeature,
@@ -158,6 +175,109 @@ const DEFAULT_FULL_FEATURES_ARTIFACTS = {
     otcOrders: artifacts.OtcOrdersFeature,
 };
 
+/**
+ * Names of the features of a full Exchange Proxy, in deployment order.
+ */
+export const FULL_FEATURE_NAMES: Array<keyof FullFeatures> = [
+    'registry',
+    'ownable',
+    'transformERC20',
+    'metaTransactions',
+    'nativeOrders',
+    'otcOrders',
+];
+
+/**
+ * Deploy the `FeeCollectorController` used by the `NativeOrdersFeature`.
+ */
+export async function deployFeeCollectorControllerAsync(
+    provider: SupportedProvider,
+    txDefaults: Partial<TxData>,
+    config: Partial<FullFeaturesDeployConfig> = {},
+    featureArtifacts: Partial<FullFeatureArtifacts> = {},
+): Promise<string> {
+    const _config = { ...DEFAULT_FULL_FEATURES_DEPLOY_CONFIG, ...config };
+    return (
+        await FeeCollectorControllerContract.deployFrom0xArtifactAsync(
+            featureArtifacts.feeCollectorController || DEFAULT_FULL_FEATURES_ARTIFACTS.feeCollectorController,
+            provider,
+            txDefaults,
+            artifacts,
+            _config.wethAddress,
+            _config.stakingAddress,
+        )
+    ).address;
+}
+
+/**
+ * Deploy one of the features for a full Exchange Proxy.
+ */
+export async function deployFullFeatureAsync(
+    feature: keyof FullFeatures,
+    provider: SupportedProvider,
+    txDefaults: Partial<TxData>,
+    config: Partial<FullFeaturesDeployConfig> = {},
+    featureArtifacts: Partial<FullFeatureArtifacts> = {},
+): Promise<string> {
+    const _config = { ...DEFAULT_FULL_FEATURES_DEPLOY_CONFIG, ...config };
+    const artifact = featureArtifacts[feature] || DEFAULT_FULL_FEATURES_ARTIFACTS[feature];
+    switch (feature) {
+        case 'registry':
+            return (
+                await SimpleFunctionRegistryFeatureContract.deployFrom0xArtifactAsync(
+                    artifact,
+                    provider,
+                    txDefaults,
+                    artifacts,
+                )
+            ).address;
+        case 'ownable':
+            return (await OwnableFeatureContract.deployFrom0xArtifactAsync(artifact, provider, txDefaults, artifacts))
+                .address;
+        case 'transformERC20':
+            return (
+                await TransformERC20FeatureContract.deployFrom0xArtifactAsync(artifact, provider, txDefaults, artifacts)
+            ).address;
+        case 'metaTransactions':
+            return (
+                await MetaTransactionsFeatureContract.deployFrom0xArtifactAsync(
+                    artifact,
+                    provider,
+                    txDefaults,
+                    artifacts,
+                    _config.zeroExAddress,
+                )
+            ).address;
+        case 'nativeOrders':
+            return (
+                await NativeOrdersFeatureContract.deployFrom0xArtifactAsync(
+                    artifact,
+                    provider,
+                    txDefaults,
+                    artifacts,
+                    _config.zeroExAddress,
+                    _config.wethAddress,
+                    _config.stakingAddress,
+                    _config.feeCollectorController,
+                    _config.protocolFeeMultiplier,
+                )
+            ).address;
+        case 'otcOrders':
+            return (
+                await OtcOrdersFeatureContract.deployFrom0xArtifactAsync(
+                    artifact,
+                    provider,
+                    txDefaults,
+                    artifacts,
+                    _config.zeroExAddress,
+                    _config.wethAddress,
+                )
+            ).address;
+        default:
+            throw new Error(`Unknown feature: ${feature}`);
+    }
+}
+
 /**
  * Deploy all the features for a full Exchange Proxy.
  */
@@ -169,92 +289,378 @@ export async function deployFullFeaturesAsync(
     featureArtifacts: Partial<FullFeatureArtifacts> = {},
 ): Promise<FullFeatures> {
     const _config = { ...DEFAULT_FULL_FEATURES_DEPLOY_CONFIG, ...config };
-    const _featureArtifacts = {
-        ...DEFAULT_FULL_FEATURES_ARTIFACTS,
-        ...featureArtifacts,
-    };
     if (_config.feeCollectorController === NULL_ADDRESS) {
-        _config.feeCollectorController = (
-            await FeeCollectorControllerContract.deployFrom0xArtifactAsync(
-                _featureArtifacts.feeCollectorController,
-                provider,
-                txDefaults,
-                artifacts,
-                _config.wethAddress,
-                _config.stakingAddress,
-            )
-        ).address;
+        _config.feeCollectorController = await deployFeeCollectorControllerAsync(
+            provider,
+            txDefaults,
+            _config,
+            featureArtifacts,
+        );
     }
-    return {
-        ...(await deployBootstrapFeaturesAsync(provider, txDefaults)),
-        transformERC20:
-            features.transformERC20 ||
+    const _features: Partial<FullFeatures> = {};
+    for (const feature of FULL_FEATURE_NAMES) {
+        _features[feature] =
+            features[feature] ||
+            (await deployFullFeatureAsync(feature, provider, txDefaults, _config, featureArtifacts));
+    }
+    return _features as FullFeatures;
+}
+
+/**
+ * Addresses of features that can be added to a full Exchange Proxy.
+ */
+export interface OptionalFeatures {
+    batchFillNativeOrders: string;
+    multiplex: string;
+    erc721Orders: string;
+    erc1155Orders: string;
+    metaTransactionsV2: string;
+    liquidityProvider: string;
+    uniswapV3: string;
+    pancakeSwap: string;
+    fundRecovery: string;
+}
+
+/**
+ * Artifacts to use when deploying optional features.
+ */
+export interface OptionalFeatureArtifacts {
+    batchFillNativeOrders: SimpleContractArtifact;
+    multiplex: SimpleContractArtifact;
+    erc721Orders: SimpleContractArtifact;
+    erc1155Orders: SimpleContractArtifact;
+    metaTransactionsV2: SimpleContractArtifact;
+    liquidityProvider: SimpleContractArtifact;
+    uniswapV3: SimpleContractArtifact;
+    pancakeSwap: SimpleContractArtifact;
+    fundRecovery: SimpleContractArtifact;
+}
+
+/**
+ * Configuration for deploying optional features.
+ */
+export interface OptionalFeaturesDeployConfig extends FullFeaturesDeployConfig {
+    // Deployed if a feature needs it and it is not set.
+    liquidityProviderSandbox: string;
+    uniswapFactory: string;
+    uniswapPairInitCodeHash: string;
+    sushiswapFactory: string;
+    sushiswapPairInitCodeHash: string;
+    uniswapV3Factory: string;
+    uniswapV3PoolInitCodeHash: string;
+}
+
+/**
+ * How to deploy and register an optional feature.
+ */
+export interface FeatureCatalogEntry {
+    // Optional features this feature calls through the proxy, which are
+    // registered before it.
+    dependencies: Array<keyof OptionalFeatures>;
+    // Whether the feature is constructed with a `LiquidityProviderSandbox`.
+    requiresSandbox: boolean;
+    deployAsync(
+        artifact: SimpleContractArtifact,
+        provider: SupportedProvider,
+        txDefaults: Partial<TxData>,
+        config: OptionalFeaturesDeployConfig,
+    ): Promise<string>;
+    // Encodes the call to the feature's `migrate()` function.
+    encodeMigrateCall(featureAddress: string, provider: SupportedProvider): string;
+}
+
+const DEFAULT_OPTIONAL_FEATURES_DEPLOY_CONFIG = {
+    ...DEFAULT_FULL_FEATURES_DEPLOY_CONFIG,
+    liquidityProviderSandbox: NULL_ADDRESS,
+    uniswapFactory: NULL_ADDRESS,
+    uniswapPairInitCodeHash: hexUtils.leftPad(0),
+    sushiswapFactory: NULL_ADDRESS,
+    sushiswapPairInitCodeHash: hexUtils.leftPad(0),
+    uniswapV3Factory: NULL_ADDRESS,
+    uniswapV3PoolInitCodeHash: hexUtils.leftPad(0),
+};
+
+const DEFAULT_OPTIONAL_FEATURES_ARTIFACTS = {
+    batchFillNativeOrders: artifacts.BatchFillNativeOrdersFeature,
+    multiplex: artifacts.MultiplexFeature,
+    erc721Orders: artifacts.ERC721OrdersFeature,
+    erc1155Orders: artifacts.ERC1155OrdersFeature,
+    metaTransactionsV2: artifacts.MetaTransactionsFeatureV2,
+    liquidityProvider: artifacts.LiquidityProviderFeature,
+    uniswapV3: artifacts.UniswapV3Feature,
+    pancakeSwap: artifacts.PancakeSwapFeature,
+    fundRecovery: artifacts.FundRecoveryFeature,
+};
+
+/**
+ * Constructor dependencies and `migrate()` arguments of each optional feature.
+ */
+export const FEATURE_CATALOG: { [feature in keyof OptionalFeatures]: FeatureCatalogEntry } = {
+    batchFillNativeOrders: {
+        dependencies: [],
+        requiresSandbox: false,
+        deployAsync: async (artifact, provider, txDefaults, config) =>
             (
-                await TransformERC20FeatureContract.deployFrom0xArtifactAsync(
-                    _featureArtifacts.transformERC20,
+                await BatchFillNativeOrdersFeatureContract.deployFrom0xArtifactAsync(
+                    artifact,
                     provider,
                     txDefaults,
                     artifacts,
+                    config.zeroExAddress,
                 )
             ).address,
-        metaTransactions:
-            features.metaTransactions ||
+        encodeMigrateCall: (featureAddress, provider) =>
+            new BatchFillNativeOrdersFeatureContract(featureAddress, provider).migrate().getABIEncodedTransactionData(),
+    },
+    multiplex: {
+        dependencies: ['uniswapV3'],
+        requiresSandbox: true,
+        deployAsync: async (artifact, provider, txDefaults, config) =>
             (
-                await MetaTransactionsFeatureContract.deployFrom0xArtifactAsync(
-                    _featureArtifacts.metaTransactions,
+                await MultiplexFeatureContract.deployFrom0xArtifactAsync(
+                    artifact,
                     provider,
                     txDefaults,
                     artifacts,
-                    _config.zeroExAddress,
+                    config.zeroExAddress,
+                    config.wethAddress,
+                    config.liquidityProviderSandbox,
+                    config.uniswapFactory,
+                    config.sushiswapFactory,
+                    config.uniswapPairInitCodeHash,
+                    config.sushiswapPairInitCodeHash,
                 )
             ).address,
-        nativeOrders:
-            features.nativeOrders ||
+        encodeMigrateCall: (featureAddress, provider) =>
+            new MultiplexFeatureContract(featureAddress, provider).migrate().getABIEncodedTransactionData(),
+    },
+    erc721Orders: {
+        dependencies: [],
+        requiresSandbox: false,
+        deployAsync: async (artifact, provider, txDefaults, config) =>
             (
-                await NativeOrdersFeatureContract.deployFrom0xArtifactAsync(
-                    _featureArtifacts.nativeOrders,
+                await ERC721OrdersFeatureContract.deployFrom0xArtifactAsync(
+                    artifact,
                     provider,
                     txDefaults,
                     artifacts,
-                    _config.zeroExAddress,
-                    _config.wethAddress,
-                    _config.stakingAddress,
-                    _config.feeCollectorController,
-                    _config.protocolFeeMultiplier,
+                    config.zeroExAddress,
+                    config.wethAddress,
                 )
             ).address,
-        otcOrders:
-            features.otcOrders ||
+        encodeMigrateCall: (featureAddress, provider) =>
+            new ERC721OrdersFeatureContract(featureAddress, provider).migrate().getABIEncodedTransactionData(),
+    },
+    erc1155Orders: {
+        dependencies: [],
+        requiresSandbox: false,
+        deployAsync: async (artifact, provider, txDefaults, config) =>
             (
-                await OtcOrdersFeatureContract.deployFrom0xArtifactAsync(
-                    _featureArtifacts.otcOrders,
+                await ERC1155OrdersFeatureContract.deployFrom0xArtifactAsync(
+                    artifact,
                     provider,
                     txDefaults,
                     artifacts,
-                    _config.zeroExAddress,
-                    _config.wethAddress,
+                    config.zeroExAddress,
+                    config.wethAddress,
+                )
+            ).address,
+        encodeMigrateCall: (featureAddress, provider) =>
+            new ERC1155OrdersFeatureContract(featureAddress, provider).migrate().getABIEncodedTransactionData(),
+    },
+    metaTransactionsV2: {
+        dependencies: ['multiplex'],
+        requiresSandbox: false,
+        deployAsync: async (artifact, provider, txDefaults, config) =>
+            (
+                await MetaTransactionsFeatureV2Contract.deployFrom0xArtifactAsync(
+                    artifact,
+                    provider,
+                    txDefaults,
+                    artifacts,
+                    config.zeroExAddress,
+                    config.wethAddress,
+                )
+            ).address,
+        encodeMigrateCall: (featureAddress, provider) =>
+            new MetaTransactionsFeatureV2Contract(featureAddress, provider).migrate().getABIEncodedTransactionData(),
+    },
+    liquidityProvider: {
+        dependencies: [],
+        requiresSandbox: true,
+        deployAsync: async (artifact, provider, txDefaults, config) =>
+            (
+                await LiquidityProviderFeatureContract.deployFrom0xArtifactAsync(
+                    artifact,
+                    provider,
+                    txDefaults,
+                    artifacts,
+                    config.liquidityProviderSandbox,
+                )
+            ).address,
+        encodeMigrateCall: (featureAddress, provider) =>
+            new LiquidityProviderFeatureContract(featureAddress, provider).migrate().getABIEncodedTransactionData(),
+    },
+    uniswapV3: {
+        dependencies: [],
+        requiresSandbox: false,
+        deployAsync: async (artifact, provider, txDefaults, config) =>
+            (
+                await UniswapV3FeatureContract.deployFrom0xArtifactAsync(
+                    artifact,
+                    provider,
+                    txDefaults,
+                    artifacts,
+                    config.wethAddress,
+                    config.uniswapV3Factory,
+                    config.uniswapV3PoolInitCodeHash,
+                )
+            ).address,
+        encodeMigrateCall: (featureAddress, provider) =>
+            new UniswapV3FeatureContract(featureAddress, provider).migrate().getABIEncodedTransactionData(),
+    },
+    pancakeSwap: {
+        dependencies: [],
+        requiresSandbox: false,
+        deployAsync: async (artifact, provider, txDefaults, config) =>
+            (
+                await PancakeSwapFeatureContract.deployFrom0xArtifactAsync(
+                    artifact,
+                    provider,
+                    txDefaults,
+                    artifacts,
+                    config.wethAddress,
                 )
             ).address,
+        encodeMigrateCall: (featureAddress, provider) =>
+            new PancakeSwapFeatureContract(featureAddress, provider).migrate().getABIEncodedTransactionData(),
+    },
+    fundRecovery: {
+        dependencies: [],
+        requiresSandbox: false,
+        deployAsync: async (artifact, provider, txDefaults) =>
+            (await FundRecoveryFeatureContract.deployFrom0xArtifactAsync(artifact, provider, txDefaults, artifacts))
+                .address,
+        encodeMigrateCall: (featureAddress, provider) =>
+            new FundRecoveryFeatureContract(featureAddress, provider).migrate().getABIEncodedTransactionData(),
+    },
+};
+
+/**
+ * Order optional features so each comes after the features it depends on,
+ * adding any dependencies that are missing.
+ */
+export function getOptionalFeaturesInDependencyOrder(
+    features: Array<keyof OptionalFeatures>,
+): Array<keyof OptionalFeatures> {
+    const ordered: Array<keyof OptionalFeatures> = [];
+    const visit = (feature: keyof OptionalFeatures, path: Array<keyof OptionalFeatures>): void => {
+        if (path.includes(feature)) {
+            throw new Error(`Circular feature dependency: ${[...path, feature].join(' -> ')}`);
+        }
+        if (!FEATURE_CATALOG[feature]) {
+            throw new Error(`Unknown feature: ${feature}`);
+        }
+        if (ordered.includes(feature)) {
+            return;
+        }
+        for (const dependency of FEATURE_CATALOG[feature].dependencies) {
+            visit(dependency, [...path, feature]);
+        }
+        ordered.push(feature);
     };
+    for (const feature of features) {
+        visit(feature, []);
+    }
+    return ordered;
 }
 
 /**
- * Deploy a fully featured instance of the Exchange Proxy.
+ * Deploy the `LiquidityProviderSandbox` used by the `LiquidityProviderFeature`
+ * and the `MultiplexFeature`, owned by the Exchange Proxy.
+ */
+export async function deployLiquidityProviderSandboxAsync(
+    provider: SupportedProvider,
+    txDefaults: Partial<TxData>,
+    zeroExAddress: string,
+): Promise<string> {
+    return (
+        await LiquidityProviderSandboxContract.deployFrom0xArtifactAsync(
+            artifacts.LiquidityProviderSandbox,
+            provider,
+            txDefaults,
+            artifacts,
+            zeroExAddress,
+        )
+    ).address;
+}
+
+/**
+ * Deploy one of the optional features of the Exchange Proxy.
+ */
+export async function deployOptionalFeatureAsync(
+    feature: keyof OptionalFeatures,
+    provider: SupportedProvider,
+    txDefaults: Partial<TxData>,
+    config: Partial<OptionalFeaturesDeployConfig> = {},
+    featureArtifacts: Partial<OptionalFeatureArtifacts> = {},
+): Promise<string> {
+    const _config = { ...DEFAULT_OPTIONAL_FEATURES_DEPLOY_CONFIG, ...config };
+    if (FEATURE_CATALOG[feature].requiresSandbox && _config.liquidityProviderSandbox === NULL_ADDRESS) {
+        throw new Error(`The ${feature} feature requires a liquidity provider sandbox`);
+    }
+    return FEATURE_CATALOG[feature].deployAsync(
+        featureArtifacts[feature] || DEFAULT_OPTIONAL_FEATURES_ARTIFACTS[feature],
+        provider,
+        txDefaults,
+        _config,
+    );
+}
+
+/**
+ * Register a deployed optional feature with the Exchange Proxy, which must be
+ * owned by the sender. Ownership is handed to `newOwner`, which defaults to
+ * the sender.
+ */
+export async function migrateOptionalFeatureAsync(
+    feature: keyof OptionalFeatures,
+    featureAddress: string,
+    zeroExAddress: string,
+    provider: SupportedProvider,
+    txDefaults: Partial<TxData>,
+    newOwner: string = txDefaults.from as string,
+): Promise<string> {
+    const receipt = await new IOwnableFeatureContract(zeroExAddress, provider, txDefaults)
+        .migrate(featureAddress, FEATURE_CATALOG[feature].encodeMigrateCall(featureAddress, provider), newOwner)
+        .awaitTransactionSuccessAsync();
+    return receipt.transactionHash;
+}
+
+/**
+ * Deploy a fully featured instance of the Exchange Proxy, along with any
+ * optional features in `config.optionalFeatures` or `features`.
  */
 export async function fullMigrateAsync(
     owner: string,
     provider: SupportedProvider,
     txDefaults: Partial<TxData>,
-    features: Partial<FullFeatures> = {},
+    features: Partial<FullFeatures & OptionalFeatures> = {},
     config: Partial<FullMigrationConfig> = {},
-    featureArtifacts: Partial<FullFeatureArtifacts> = {},
+    featureArtifacts: Partial<FullFeatureArtifacts & OptionalFeatureArtifacts> = {},
 ): Promise<IZeroExContract> {
+    const sender = txDefaults.from as string;
+    const optionalFeatures = getOptionalFeaturesInDependencyOrder([
+        ...(config.optionalFeatures || []),
+        ...(Object.keys(features) as Array<keyof (FullFeatures & OptionalFeatures)>).filter(
+            (feature): feature is keyof OptionalFeatures => feature in FEATURE_CATALOG,
+        ),
+    ]);
     const migrator = await FullMigrationContract.deployFrom0xArtifactAsync(
         artifacts.FullMigration,
         provider,
         txDefaults,
         artifacts,
-        txDefaults.from as string,
+        sender,
     );
     const zeroEx = await ZeroExContract.deployFrom0xArtifactAsync(
         artifacts.ZeroEx,
@@ -266,9 +672,35 @@ export async function fullMigrateAsync(
     const _config = { ...config, zeroExAddress: zeroEx.address };
     const _features = await deployFullFeaturesAsync(provider, txDefaults, _config, features, featureArtifacts);
     const migrateOpts = {
-        transformerDeployer: txDefaults.from as string,
+        transformerDeployer: sender,
         ..._config,
     };
-    await migrator.migrateZeroEx(owner, zeroEx.address, _features, migrateOpts).awaitTransactionSuccessAsync();
+    // Optional features are registered by the sender before it hands over ownership.
+    await migrator
+        .migrateZeroEx(optionalFeatures.length > 0 ? sender : owner, zeroEx.address, _features, migrateOpts)
+        .awaitTransactionSuccessAsync();
+    if (optionalFeatures.length > 0) {
+        if (
+            optionalFeatures.some(feature => FEATURE_CATALOG[feature].requiresSandbox) &&
+            !_config.liquidityProviderSandbox
+        ) {
+            _config.liquidityProviderSandbox = await deployLiquidityProviderSandboxAsync(
+                provider,
+                txDefaults,
+                zeroEx.address,
+            );
+        }
+        for (const feature of optionalFeatures) {
+            const featureAddress =
+                features[feature] ||
+                (await deployOptionalFeatureAsync(feature, provider, txDefaults, _config, featureArtifacts));
+            await migrateOptionalFeatureAsync(feature, featureAddress, zeroEx.address, provider, txDefaults);
+        }
+        if (owner.toLowerCase() !== sender.toLowerCase()) {
+            await new IOwnableFeatureContract(zeroEx.address, provider, txDefaults)
+                .transferOwnership(owner)
+                .awaitTransactionSuccessAsync();
+        }
+    }
     return new IZeroExContract(zeroEx.address, provider, txDefaults);
 }
@@ -0,0 +1,396 @@
+import { SimpleContractArtifact } from '@0x/types';
+import { AbiEncoder, BigNumber, NULL_ADDRESS } from '@0x/utils';
+import { Web3Wrapper } from '@0x/web3-wrapper';
+import { ContractArtifact, MethodAbi, SupportedProvider } from 'ethereum-types';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+
+import { artifacts } from './artifacts';
+import { IZeroExContract } from './wrappers';
+
+/**
+ * A new version of a feature to register with the Exchange Proxy.
+ */
+export interface FeatureUpgrade {
+    // The deployed implementation of the new version.
+    implementation: string;
+    // The feature's interface artifact, e.g. `IMultiplexFeature`. Its
+    // functions are the selectors the new version registers.
+    artifact: SimpleContractArtifact | ContractArtifact;
+    // Register the new version by calling its `migrate()` function, which
+    // registers its own selectors, rather than by calling `extend()` for each
+    // selector. Defaults to true.
+    shouldMigrate?: boolean;
+    // Defaults to a call to `migrate()` with no arguments.
+    migrateCallData?: string;
+}
+
+export enum SelectorChangeKind {
+    Added = 'Added',
+    Replaced = 'Replaced',
+    Removed = 'Removed',
+}
+
+/**
+ * How an upgrade changes the implementation of a selector.
+ */
+export interface SelectorChange {
+    kind: SelectorChangeKind;
+    selector: string;
+    signature: string;
+    // Name of the feature being upgraded.
+    feature: string;
+    previousImpl: string;
+    newImpl: string;
+    // Number of implementations the selector can already be rolled back to.
+    rollbackLength: number;
+}
+
+/**
+ * A selector an upgrade should not register as planned.
+ */
+export interface SelectorCollision {
+    selector: string;
+    reason: string;
+}
+
+/**
+ * A change to a `Lib*Storage` library that could corrupt existing storage.
+ */
+export interface StorageLayoutIssue {
+    library: string;
+    reason: string;
+}
+
+/**
+ * Solidity sources of the storage libraries, by file name.
+ */
+export interface StorageSources {
+    [fileName: string]: string;
+}
+
+export interface UpgradePlanOpts {
+    // Storage libraries of the deployed and the new versions, to compare.
+    previousStorageSources: StorageSources;
+    nextStorageSources: StorageSources;
+    // Artifacts whose functions may be registered, which are checked for
+    // removed and colliding selectors. Defaults to the public artifacts.
+    knownArtifacts: Array<SimpleContractArtifact | ContractArtifact>;
+}
+
+/**
+ * A governor call of an upgrade.
+ */
+export interface UpgradeCall {
+    target: string;
+    data: string;
+    value: BigNumber;
+}
+
+export interface UpgradePlan {
+    // The current owner of the Exchange Proxy, which makes the calls.
+    owner: string;
+    changes: SelectorChange[];
+    collisions: SelectorCollision[];
+    storageIssues: StorageLayoutIssue[];
+    // Calls to make, in order.
+    calls: UpgradeCall[];
+    // The calls encoded as `(bytes[], address[], uint256[])` for the governor.
+    governorCallData: string;
+}
+
+// Functions in feature artifacts that the feature does not register.
+const UNREGISTERED_FUNCTIONS = ['migrate', 'FEATURE_NAME', 'FEATURE_VERSION'];
+
+// Selectors the Exchange Proxy must never register.
+const RESERVED_SIGNATURES = [
+    'executeCall(address,bytes)', // legacy allowance target
+    'transfer(address,uint256)', // ERC20Token transfer
+    'transferFrom(address,address,uint256)', // ERC20Token transferFrom
+];
+
+const governorEncoder = AbiEncoder.create('(bytes[], address[], uint256[])');
+const featureNameMethod = AbiEncoder.createMethod('FEATURE_NAME', [], [{ name: 'name', type: 'string' }]);
+const migrateMethod = AbiEncoder.createMethod('migrate', []);
+
+/**
+ * Get the signatures of the functions in an artifact, by selector.
+ */
+export function getFunctionSignatures(artifact: SimpleContractArtifact | ContractArtifact): {
+    [selector: string]: string;
+} {
+    const signatures: { [selector: string]: string } = {};
+    for (const abiDef of artifact.compilerOutput.abi) {
+        if (abiDef.type !== 'function' || UNREGISTERED_FUNCTIONS.includes((abiDef as MethodAbi).name)) {
+            continue;
+        }
+        const method = AbiEncoder.createMethod((abiDef as MethodAbi).name, (abiDef as MethodAbi).inputs);
+        signatures[method.getSelector()] = method.getSignature();
+    }
+    return signatures;
+}
+
+/**
+ * Work out how registering new feature versions would change the selectors of
+ * a deployed Exchange Proxy, flag selectors that collide with other features
+ * or signatures, compare storage layouts, and encode the calls the owner
+ * needs to make.
+ */
+export async function planUpgradeAsync(
+    zeroExAddress: string,
+    upgrades: FeatureUpgrade[],
+    provider: SupportedProvider,
+    opts: Partial<UpgradePlanOpts> = {},
+): Promise<UpgradePlan> {
+    const { previousStorageSources, nextStorageSources, knownArtifacts } = {
+        knownArtifacts: Object.values(artifacts),
+        ...opts,
+    };
+    const zeroEx = new IZeroExContract(zeroExAddress, provider);
+    const web3Wrapper = new Web3Wrapper(provider);
+    const owner = await zeroEx.owner().callAsync();
+
+    const implsBySelector: { [selector: string]: string } = {};
+    const getImplAsync = async (selector: string): Promise<string> => {
+        if (implsBySelector[selector] === undefined) {
+            implsBySelector[selector] = await zeroEx.getFunctionImplementation(selector).callAsync();
+        }
+        return implsBySelector[selector];
+    };
+    const featureNamesByImpl: { [impl: string]: string } = {};
+    const getFeatureNameAsync = async (impl: string): Promise<string> => {
+        if (featureNamesByImpl[impl] === undefined) {
+            try {
+                const returnData = await web3Wrapper.callAsync({ to: impl, data: featureNameMethod.encode([]) });
+                featureNamesByImpl[impl] = featureNameMethod.strictDecodeReturnValue<string>(returnData);
+            } catch (err) {
+                featureNamesByImpl[impl] = impl;
+            }
+        }
+        return featureNamesByImpl[impl];
+    };
+
+    // Every signature each selector is known by.
+    const knownSignatures: { [selector: string]: Set<string> } = {};
+    const addKnownSignature = (selector: string, signature: string): void => {
+        knownSignatures[selector] = (knownSignatures[selector] || new Set()).add(signature);
+    };
+    for (const signature of RESERVED_SIGNATURES) {
+        addKnownSignature(AbiEncoder.createMethod(signature.split('(')[0], signature).getSelector(), signature);
+    }
+    for (const artifact of knownArtifacts) {
+        for (const [selector, signature] of Object.entries(getFunctionSignatures(artifact))) {
+            addKnownSignature(selector, signature);
+        }
+    }
+
+    const changes: SelectorChange[] = [];
+    const collisions: SelectorCollision[] = [];
+    const calls: UpgradeCall[] = [];
+    const removals: UpgradeCall[] = [];
+    // Selector => feature that registers it in this upgrade.
+    const claimedSelectors: { [selector: string]: string } = {};
+    for (const upgrade of upgrades) {
+        const feature = await getFeatureNameAsync(upgrade.implementation);
+        const signatures = getFunctionSignatures(upgrade.artifact);
+        for (const [selector, signature] of Object.entries(signatures)) {
+            const otherSignatures = [...(knownSignatures[selector] || [])].filter(s => s !== signature);
+            if (otherSignatures.length > 0) {
+                collisions.push({
+                    selector,
+                    reason: `${signature} in ${feature} collides with ${otherSignatures.join(', ')}`,
+                });
+            }
+            if (claimedSelectors[selector] !== undefined) {
+                collisions.push({
+                    selector,
+                    reason: `${signature} is registered by both ${claimedSelectors[selector]} and ${feature}`,
+                });
+            }
+            claimedSelectors[selector] = feature;
+            addKnownSignature(selector, signature);
+
+            const previousImpl = await getImplAsync(selector);
+            if (previousImpl === upgrade.implementation) {
+                continue;
+            }
+            if (previousImpl !== NULL_ADDRESS) {
+                const previousFeature = await getFeatureNameAsync(previousImpl);
+                if (previousFeature !== feature) {
+                    collisions.push({
+                        selector,
+                        reason: `${signature} in ${feature} would replace the implementation in ${previousFeature}`,
+                    });
+                }
+            }
+            changes.push({
+                kind: previousImpl === NULL_ADDRESS ? SelectorChangeKind.Added : SelectorChangeKind.Replaced,
+                selector,
+                signature,
+                feature,
+                previousImpl,
+                newImpl: upgrade.implementation,
+                rollbackLength: (await zeroEx.getRollbackLength(selector).callAsync()).toNumber(),
+            });
+            if (upgrade.shouldMigrate === false) {
+                calls.push(encodeCall(zeroEx, zeroEx.extend(selector, upgrade.implementation)));
+            }
+        }
+        if (upgrade.shouldMigrate !== false) {
+            const migrateCallData = upgrade.migrateCallData || migrateMethod.encode([]);
+            calls.push(encodeCall(zeroEx, zeroEx.migrate(upgrade.implementation, migrateCallData, owner)));
+        }
+
+        // Selectors of the previous version that the new version drops.
+        for (const selector of Object.keys(knownSignatures)) {
+            if (signatures[selector] !== undefined) {
+                continue;
+            }
+            const previousImpl = await getImplAsync(selector);
+            if (
+                previousImpl === NULL_ADDRESS ||
+                previousImpl === upgrade.implementation ||
+                (await getFeatureNameAsync(previousImpl)) !== feature
+            ) {
+                continue;
+            }
+            changes.push({
+                kind: SelectorChangeKind.Removed,
+                selector,
+                signature: [...knownSignatures[selector]].join(', '),
+                feature,
+                previousImpl,
+                newImpl: NULL_ADDRESS,
+                rollbackLength: (await zeroEx.getRollbackLength(selector).callAsync()).toNumber(),
+            });
+            removals.push(encodeCall(zeroEx, zeroEx.rollback(selector, NULL_ADDRESS)));
+        }
+    }
+    calls.push(...removals);
+
+    return {
+        owner,
+        changes,
+        collisions,
+        storageIssues:
+            previousStorageSources && nextStorageSources
+                ? compareStorageLayouts(previousStorageSources, nextStorageSources)
+                : [],
+        calls,
+        governorCallData: governorEncoder.encode([
+            calls.map(call => call.data),
+            calls.map(call => call.target),
+            calls.map(call => call.value),
+        ]),
+    };
+}
+
+/**
+ * Read the storage libraries in a directory, e.g. `contracts/src/storage`.
+ */
+export async function readStorageSourcesAsync(dir: string): Promise<StorageSources> {
+    const sources: StorageSources = {};
+    for (const fileName of (await fs.readdir(dir)).filter(f => f.endsWith('.sol'))) {
+        sources[fileName] = await fs.readFile(path.resolve(dir, fileName), 'utf8');
+    }
+    return sources;
+}
+
+/**
+ * Compare two versions of the storage libraries. Each `Lib*Storage` library
+ * owns the slot of its `LibStorage.StorageId`, so the `StorageId` enum must
+ * only be appended to, each library must keep its ID and not share it, and
+ * each `Storage` struct must only have fields appended to it.
+ */
+export function compareStorageLayouts(previous: StorageSources, next: StorageSources): StorageLayoutIssue[] {
+    const issues: StorageLayoutIssue[] = [];
+    const previousIds = findStorageIds(previous);
+    const nextIds = findStorageIds(next);
+    previousIds.forEach((id, i) => {
+        if (nextIds[i] !== id) {
+            issues.push({
+                library: 'LibStorage',
+                reason: `StorageId is append-only, but ${id} at index ${i} became ${nextIds[i] || 'nothing'}`,
+            });
+        }
+    });
+
+    const librariesById: { [id: string]: string } = {};
+    for (const [fileName, source] of Object.entries(next)) {
+        const library = path.basename(fileName, '.sol');
+        const id = findStorageLibraryId(source);
+        if (id === undefined) {
+            continue;
+        }
+        if (!nextIds.includes(id)) {
+            issues.push({ library, reason: `StorageId.${id} is not in the StorageId enum` });
+        }
+        if (librariesById[id] !== undefined) {
+            issues.push({ library, reason: `StorageId.${id} is also used by ${librariesById[id]}` });
+        }
+        librariesById[id] = library;
+        if (previous[fileName] === undefined) {
+            continue;
+        }
+        const previousId = findStorageLibraryId(previous[fileName]);
+        if (previousId !== undefined && previousId !== id) {
+            issues.push({ library, reason: `Storage moved from StorageId.${previousId} to StorageId.${id}` });
+        }
+        const previousFields = findStorageFields(previous[fileName]);
+        const nextFields = findStorageFields(source);
+        previousFields.forEach((field, i) => {
+            const nextField = nextFields[i];
+            if (nextField === undefined) {
+                issues.push({ library, reason: `Field ${field.name} was removed` });
+            } else if (nextField.type !== field.type) {
+                issues.push({
+                    library,
+                    reason: `Field ${field.name} at index ${i} changed from ${field.type} to ${nextField.type} ${nextField.name}`,
+                });
+            } else if (nextField.name !== field.name) {
+                issues.push({ library, reason: `Field ${field.name} at index ${i} was renamed to ${nextField.name}` });
+            }
+        });
+    }
+    return issues;
+}
+
+function encodeCall(zeroEx: IZeroExContract, fn: { getABIEncodedTransactionData(): string }): UpgradeCall {
+    return { target: zeroEx.address, data: fn.getABIEncodedTransactionData(), value: new BigNumber(0) };
+}
+
+function stripComments(source: string): string {
+    return source.replace(/\/\*[\s\S]*?\*\//g, '').replace(/\/\/.*$/gm, '');
+}
+
+function findStorageIds(sources: StorageSources): string[] {
+    const source = sources['LibStorage.sol'];
+    const m = source ? /enum\s+StorageId\s*\{([^}]*)\}/.exec(stripComments(source)) : null;
+    if (!m) {
+        return [];
+    }
+    return m[1]
+        .split(',')
+        .map(id => id.trim())
+        .filter(id => id.length > 0);
+}
+
+function findStorageLibraryId(source: string): string | undefined {
+    const m = /LibStorage\.\s*getStorage(?:Slot|Offset)\(\s*LibStorage\.\s*StorageId\.\s*(\w+)\s*\)/m.exec(source);
+    return m ? m[1] : undefined;
+}
+
+function findStorageFields(source: string): Array<{ type: string; name: string }> {
+    const m = /struct\s+Storage\s*\{([^}]*)\}/.exec(stripComments(source));
+    if (!m) {
+        return [];
+    }
+    return m[1]
+        .split(';')
+        .map(field => field.trim().replace(/\s+/g, ' '))
+        .filter(field => field.length > 0)
+        .map(field => {
+            const i = field.lastIndexOf(' ');
+            return { type: field.slice(0, i), name: field.slice(i + 1) };
+        });
+}
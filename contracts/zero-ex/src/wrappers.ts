@@ -11,12 +11,15 @@ export * from '../generated-wrappers/base_goerli_bridge_adapter';
 export * from '../generated-wrappers/batch_fill_native_orders_feature';
 export * from '../generated-wrappers/celo_bridge_adapter';
 export * from '../generated-wrappers/curve_liquidity_provider';
+export * from '../generated-wrappers/erc1155_orders_feature';
+export * from '../generated-wrappers/erc721_orders_feature';
 export * from '../generated-wrappers/ethereum_bridge_adapter';
 export * from '../generated-wrappers/fantom_bridge_adapter';
 export * from '../generated-wrappers/fee_collector';
 export * from '../generated-wrappers/fee_collector_controller';
 export * from '../generated-wrappers/fill_quote_transformer';
 export * from '../generated-wrappers/full_migration';
+export * from '../generated-wrappers/fund_recovery_feature';
 export * from '../generated-wrappers/i_batch_fill_native_orders_feature';
 export * from '../generated-wrappers/i_erc20_transformer';
 export * from '../generated-wrappers/i_flash_wallet';
@@ -30,6 +33,7 @@ export * from '../generated-wrappers/i_transform_erc20_feature';
 export * from '../generated-wrappers/i_zero_ex';
 export * from '../generated-wrappers/initial_migration';
 export * from '../generated-wrappers/liquidity_provider_feature';
+export * from '../generated-wrappers/liquidity_provider_sandbox';
 export * from '../generated-wrappers/log_metadata_transformer';
 export * from '../generated-wrappers/meta_transactions_feature';
 export * from '../generated-wrappers/meta_transactions_feature_v2';
@@ -38,10 +42,15 @@ export * from '../generated-wrappers/native_orders_feature';
 export * from '../generated-wrappers/optimism_bridge_adapter';
 export * from '../generated-wrappers/otc_orders_feature';
 export * from '../generated-wrappers/ownable_feature';
+export * from '../generated-wrappers/pancake_swap_feature';
 export * from '../generated-wrappers/pay_taker_transformer';
 export * from '../generated-wrappers/polygon_bridge_adapter';
 export * from '../generated-wrappers/positive_slippage_fee_transformer';
 export * from '../generated-wrappers/simple_function_registry_feature';
+export * from '../generated-wrappers/token_id_merkle_property_validator';
+export * from '../generated-wrappers/token_id_range_property_validator';
 export * from '../generated-wrappers/transform_erc20_feature';
+export * from '../generated-wrappers/transformer_deployer';
+export * from '../generated-wrappers/uniswap_v3_feature';
 export * from '../generated-wrappers/weth_transformer';
 export * from '../generated-wrappers/zero_ex';
@@ -199,6 +199,8 @@ import * as TestUniswapV3Feature from '../test/generated-artifacts/TestUniswapV3
 import * as TestUniswapV3Pool from '../test/generated-artifacts/TestUniswapV3Pool.json';
 import * as TestWeth from '../test/generated-artifacts/TestWeth.json';
 import * as TestWethTransformerHost from '../test/generated-artifacts/TestWethTransformerHost.json';
+import * as TokenIdMerklePropertyValidator from '../test/generated-artifacts/TokenIdMerklePropertyValidator.json';
+import * as TokenIdRangePropertyValidator from '../test/generated-artifacts/TokenIdRangePropertyValidator.json';
 import * as Transformer from '../test/generated-artifacts/Transformer.json';
 import * as TransformERC20Feature from '../test/generated-artifacts/TransformERC20Feature.json';
 import * as TransformerDeployer from '../test/generated-artifacts/TransformerDeployer.json';
@@ -230,6 +232,8 @@ export const artifacts = {
     LibFeeCollector: LibFeeCollector as ContractArtifact,
     LiquidityProviderSandbox: LiquidityProviderSandbox as ContractArtifact,
     PermissionlessTransformerDeployer: PermissionlessTransformerDeployer as ContractArtifact,
+    TokenIdMerklePropertyValidator: TokenIdMerklePropertyValidator as ContractArtifact,
+    TokenIdRangePropertyValidator: TokenIdRangePropertyValidator as ContractArtifact,
     TransformerDeployer: TransformerDeployer as ContractArtifact,
     BatchFillNativeOrdersFeature: BatchFillNativeOrdersFeature as ContractArtifact,
     BootstrapFeature: BootstrapFeature as ContractArtifact,
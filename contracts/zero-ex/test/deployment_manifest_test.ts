@@ -0,0 +1,159 @@
+import { blockchainTests, expect, randomAddress } from '@0x/contracts-test-utils';
+import { NULL_ADDRESS } from '@0x/utils';
+
+import {
+    DeploymentManifest,
+    DeploymentState,
+    deployFromManifestAsync,
+    getManifestContractAddresses,
+    InMemoryDeploymentStateStore,
+} from '../src/deployment_manifest';
+import { IOwnableFeatureContract, TransformerDeployerContract, WethTransformerContract } from './wrappers';
+
+// Fails to save after a number of steps, as if the deployment had crashed.
+class FlakyDeploymentStateStore extends InMemoryDeploymentStateStore {
+    constructor(public savesUntilFailure: number) {
+        super();
+    }
+
+    public async saveAsync(state: DeploymentState): Promise<void> {
+        if (this.savesUntilFailure-- <= 0) {
+            throw new Error('crashed');
+        }
+        return super.saveAsync(state);
+    }
+}
+
+blockchainTests.resets('Deployment manifests', env => {
+    let owner: string;
+    let manifest: DeploymentManifest;
+    const wethAddress = randomAddress();
+    const bridgeAdapter = randomAddress();
+
+    before(async () => {
+        [owner] = await env.getAccountAddressesAsync();
+        manifest = {
+            chainId: await env.web3Wrapper.getChainIdAsync(),
+            owner,
+            config: { wethAddress },
+            transformers: { wethTransformer: true, payTakerTransformer: true, fillQuoteTransformer: true },
+            bridgeAdapter,
+        };
+    });
+
+    it('deploys and migrates the Exchange Proxy', async () => {
+        const { zeroEx, addresses } = await deployFromManifestAsync(manifest, env.provider, env.txDefaults);
+        const ownable = new IOwnableFeatureContract(zeroEx.address, env.provider, env.txDefaults);
+        expect(await ownable.owner().callAsync()).to.eq(owner);
+        expect(addresses.exchangeProxy).to.eq(zeroEx.address);
+        expect(addresses.exchangeProxyGovernor).to.eq(owner);
+        expect(addresses.exchangeProxyFlashWallet).to.eq(await zeroEx.getTransformWallet().callAsync());
+        expect(addresses.etherToken).to.eq(wethAddress);
+        expect(await zeroEx.getTransformerDeployer().callAsync()).to.eq(addresses.exchangeProxyTransformerDeployer);
+    });
+
+    it('deploys transformers through the transformer deployer', async () => {
+        const { addresses } = await deployFromManifestAsync(manifest, env.provider, env.txDefaults);
+        const transformer = new WethTransformerContract(addresses.transformers.wethTransformer, env.provider);
+        expect(await transformer.deployer().callAsync()).to.eq(addresses.exchangeProxyTransformerDeployer);
+        expect(await transformer.weth().callAsync()).to.eq(wethAddress);
+        expect(addresses.transformers.payTakerTransformer).to.not.eq(NULL_ADDRESS);
+        expect(addresses.transformers.fillQuoteTransformer).to.not.eq(NULL_ADDRESS);
+        const deployer = new TransformerDeployerContract(addresses.exchangeProxyTransformerDeployer, env.provider);
+        expect(await deployer.nonce().callAsync()).to.bignumber.eq(4);
+    });
+
+    it('uses features and transformers that are already deployed', async () => {
+        const registry = randomAddress();
+        const payTakerTransformer = randomAddress();
+        const { state, addresses } = await deployFromManifestAsync(
+            {
+                ...manifest,
+                features: { registry },
+                transformers: { ...manifest.transformers, payTakerTransformer },
+            },
+            env.provider,
+            env.txDefaults,
+        );
+        expect(state.steps['features.registry']).to.eq(undefined);
+        expect(state.steps['transformers.payTakerTransformer']).to.eq(undefined);
+        expect(addresses.transformers.payTakerTransformer).to.eq(payTakerTransformer);
+    });
+
+    it('resumes a failed deployment without repeating finished steps', async () => {
+        const store = new FlakyDeploymentStateStore(4);
+        const tx = deployFromManifestAsync(manifest, env.provider, env.txDefaults, store);
+        await expect(tx).to.be.rejectedWith('crashed');
+        const partialState = (await store.loadAsync()) as DeploymentState;
+        expect(Object.keys(partialState.steps)).to.deep.eq([
+            'migrator',
+            'zeroEx',
+            'feeCollectorController',
+            'features.registry',
+        ]);
+        store.savesUntilFailure = Infinity;
+        const { zeroEx, state } = await deployFromManifestAsync(manifest, env.provider, env.txDefaults, store);
+        expect(state.steps).to.include(partialState.steps);
+        expect(zeroEx.address).to.eq(partialState.steps.zeroEx);
+        const ownable = new IOwnableFeatureContract(zeroEx.address, env.provider, env.txDefaults);
+        expect(await ownable.owner().callAsync()).to.eq(owner);
+    });
+
+    it('does not redeploy a finished deployment', async () => {
+        const store = new InMemoryDeploymentStateStore();
+        const { state } = await deployFromManifestAsync(manifest, env.provider, env.txDefaults, store);
+        const blockNumber = await env.web3Wrapper.getBlockNumberAsync();
+        const { state: resumedState } = await deployFromManifestAsync(manifest, env.provider, env.txDefaults, store);
+        expect(resumedState).to.deep.eq(state);
+        expect(await env.web3Wrapper.getBlockNumberAsync()).to.eq(blockNumber);
+    });
+
+    it('refuses to resume a deployment of a different manifest', async () => {
+        const store = new FlakyDeploymentStateStore(4);
+        await expect(deployFromManifestAsync(manifest, env.provider, env.txDefaults, store)).to.be.rejectedWith(
+            'crashed',
+        );
+        store.savesUntilFailure = Infinity;
+        const tx = deployFromManifestAsync(
+            { ...manifest, config: { ...manifest.config, wethAddress: randomAddress() } },
+            env.provider,
+            env.txDefaults,
+            store,
+        );
+        return expect(tx).to.be.rejectedWith('Deployment state is for manifest');
+    });
+
+    it('refuses a manifest for another chain', async () => {
+        const tx = deployFromManifestAsync(
+            { ...manifest, chainId: manifest.chainId + 1 },
+            env.provider,
+            env.txDefaults,
+        );
+        return expect(tx).to.be.rejectedWith('Manifest is for chain');
+    });
+
+    it('emits addresses in the shape of `@0x/contract-addresses`', async () => {
+        const { state } = await deployFromManifestAsync(manifest, env.provider, env.txDefaults);
+        const addresses = getManifestContractAddresses({ ...manifest, chainId: 999999 }, state);
+        expect(Object.keys(addresses)).to.deep.eq([
+            'zrxToken',
+            'etherToken',
+            'zeroExGovernor',
+            'zrxVault',
+            'staking',
+            'stakingProxy',
+            'erc20BridgeProxy',
+            'erc20BridgeSampler',
+            'exchangeProxyGovernor',
+            'exchangeProxy',
+            'exchangeProxyTransformerDeployer',
+            'exchangeProxyFlashWallet',
+            'exchangeProxyLiquidityProviderSandbox',
+            'zrxTreasury',
+            'transformers',
+        ]);
+        expect(addresses.zrxToken).to.eq(NULL_ADDRESS);
+        expect(addresses.transformers.affiliateFeeTransformer).to.eq(NULL_ADDRESS);
+        expect(addresses.transformers.wethTransformer).to.eq(state.steps['transformers.wethTransformer']);
+    });
+});
@@ -6,7 +6,16 @@ import {
     getRandomPortion,
     verifyEventsFromLogs,
 } from '@0x/contracts-test-utils';
-import { LimitOrder, LimitOrderFields, OrderStatus, RevertErrors, RfqOrder, RfqOrderFields } from '@0x/protocol-utils';
+import {
+    computeLimitOrderFilledAmounts,
+    computeRfqOrderFilledAmounts,
+    LimitOrder,
+    LimitOrderFields,
+    OrderStatus,
+    RevertErrors,
+    RfqOrder,
+    RfqOrderFields,
+} from '@0x/protocol-utils';
 import { BigNumber } from '@0x/utils';
 import { TransactionReceiptWithDecodedLogs } from 'ethereum-types';
 import * as _ from 'lodash';
@@ -16,8 +25,6 @@ import { artifacts } from '../artifacts';
 import { abis } from '../utils/abis';
 import {
     assertOrderInfoEquals,
-    computeLimitOrderFilledAmounts,
-    computeRfqOrderFilledAmounts,
     createExpiry,
     getRandomLimitOrder,
     getRandomRfqOrder,
@@ -6,8 +6,17 @@ import {
     toBaseUnitAmount,
     verifyEventsFromLogs,
 } from '@0x/contracts-test-utils';
-import { OtcOrder, RfqOrder, SIGNATURE_ABI } from '@0x/protocol-utils';
-import { AbiEncoder, BigNumber, hexUtils } from '@0x/utils';
+import {
+    BatchSellSubcall,
+    createBatchSellSubcall,
+    createMultiHopSellSubcall,
+    encodeFractionalFillAmount,
+    MultiHopSellSubcall,
+    MultiplexSubcall,
+    OtcOrder,
+    RfqOrder,
+} from '@0x/protocol-utils';
+import { AbiEncoder, BigNumber } from '@0x/utils';
 import { LogWithDecodedArgs } from 'ethereum-types';
 
 import { IZeroExContract, IZeroExEvents } from '../../src/wrappers';
@@ -16,11 +25,8 @@ import { abis } from '../utils/abis';
 import { fullMigrateAsync } from '../utils/migration';
 import { getRandomOtcOrder, getRandomRfqOrder } from '../utils/orders';
 import {
-    IOwnableFeatureContract,
-    LiquidityProviderSandboxContract,
     MultiplexFeatureContract,
     MultiplexFeatureEvents,
-    OtcOrdersFeatureContract,
     TestLiquidityProviderContract,
     TestMintableERC20TokenContract,
     TestMintableERC20TokenEvents,
@@ -34,7 +40,6 @@ import {
     TestUniswapV3PoolContract,
     TestWethContract,
     TestWethEvents,
-    UniswapV3FeatureContract,
 } from '../wrappers';
 
 interface TransferEvent {
@@ -44,39 +49,12 @@ interface TransferEvent {
     value?: BigNumber;
 }
 
-enum MultiplexSubcall {
-    Invalid,
-    Rfq,
-    Otc,
-    UniswapV2,
-    UniswapV3,
-    LiquidityProvider,
-    TransformERC20,
-    BatchSell,
-    MultiHopSell,
-}
-
-interface MultiHopSellSubcall {
-    id: MultiplexSubcall;
-    data: string;
-}
-
-interface BatchSellSubcall extends MultiHopSellSubcall {
-    sellAmount: BigNumber;
-}
-
-const HIGH_BIT = new BigNumber(2).pow(255);
-function encodeFractionalFillAmount(frac: number): BigNumber {
-    return HIGH_BIT.plus(new BigNumber(frac).times('1e18').integerValue());
-}
-
 blockchainTests.resets('MultiplexFeature', env => {
     const POOL_FEE = 1234;
 
     let zeroEx: IZeroExContract;
     let multiplex: MultiplexFeatureContract;
     let flashWalletAddress: string;
-    let sandbox: LiquidityProviderSandboxContract;
     let liquidityProvider: TestLiquidityProviderContract;
     let sushiFactory: TestUniswapV2FactoryContract;
     let uniV2Factory: TestUniswapV2FactoryContract;
@@ -91,28 +69,7 @@ blockchainTests.resets('MultiplexFeature', env => {
     let transformerNonce: number;
 
     //////////////// Deployment utility functions ////////////////
-    async function migrateOtcOrdersFeatureAsync(): Promise<void> {
-        const featureImpl = await OtcOrdersFeatureContract.deployFrom0xArtifactAsync(
-            artifacts.OtcOrdersFeature,
-            env.provider,
-            env.txDefaults,
-            artifacts,
-            zeroEx.address,
-            weth.address,
-        );
-        await new IOwnableFeatureContract(zeroEx.address, env.provider, env.txDefaults)
-            .migrate(featureImpl.address, featureImpl.migrate().getABIEncodedTransactionData(), owner)
-            .awaitTransactionSuccessAsync();
-    }
-
-    async function migrateLiquidityProviderContractsAsync(): Promise<void> {
-        sandbox = await LiquidityProviderSandboxContract.deployFrom0xArtifactAsync(
-            artifacts.LiquidityProviderSandbox,
-            env.provider,
-            env.txDefaults,
-            artifacts,
-            zeroEx.address,
-        );
+    async function deployLiquidityProviderAsync(): Promise<void> {
         liquidityProvider = await TestLiquidityProviderContract.deployFrom0xArtifactAsync(
             artifacts.TestLiquidityProvider,
             env.provider,
@@ -121,7 +78,7 @@ blockchainTests.resets('MultiplexFeature', env => {
         );
     }
 
-    async function migrateUniswapV2ContractsAsync(): Promise<void> {
+    async function deployUniswapContractsAsync(): Promise<void> {
         sushiFactory = await TestUniswapV2FactoryContract.deployFrom0xArtifactAsync(
             artifacts.TestUniswapV2Factory,
             env.provider,
@@ -134,27 +91,12 @@ blockchainTests.resets('MultiplexFeature', env => {
             env.txDefaults,
             artifacts,
         );
-    }
-
-    async function migrateUniswapV3ContractsAsync(): Promise<void> {
         uniV3Factory = await TestUniswapV3FactoryContract.deployFrom0xArtifactAsync(
             artifacts.TestUniswapV3Factory,
             env.provider,
             env.txDefaults,
             artifacts,
         );
-        const featureImpl = await UniswapV3FeatureContract.deployFrom0xArtifactAsync(
-            artifacts.TestUniswapV3Feature,
-            env.provider,
-            env.txDefaults,
-            artifacts,
-            weth.address,
-            uniV3Factory.address,
-            await uniV3Factory.POOL_INIT_CODE_HASH().callAsync(),
-        );
-        await new IOwnableFeatureContract(zeroEx.address, env.provider, env.txDefaults)
-            .migrate(featureImpl.address, featureImpl.migrate().getABIEncodedTransactionData(), owner)
-            .awaitTransactionSuccessAsync();
     }
 
     //////////////// Miscellaneous utils ////////////////
@@ -238,23 +180,21 @@ blockchainTests.resets('MultiplexFeature', env => {
         rfqOrder: RfqOrder,
         sellAmount: BigNumber = rfqOrder.takerAmount,
     ): Promise<BatchSellSubcall> {
-        const rfqDataEncoder = AbiEncoder.create([
-            { name: 'order', type: 'tuple', components: RfqOrder.STRUCT_ABI },
-            { name: 'signature', type: 'tuple', components: SIGNATURE_ABI },
-        ]);
         const makerToken =
             rfqOrder.makerToken === weth.address
                 ? weth
                 : new TestMintableERC20TokenContract(rfqOrder.makerToken, env.provider, env.txDefaults);
         await mintToAsync(makerToken, rfqOrder.maker, rfqOrder.makerAmount);
-        return {
-            id: MultiplexSubcall.Rfq,
+        return createBatchSellSubcall(
+            {
+                id: MultiplexSubcall.RFQ,
+                data: {
+                    order: rfqOrder,
+                    signature: await rfqOrder.getSignatureWithProviderAsync(env.provider),
+                },
+            },
             sellAmount,
-            data: rfqDataEncoder.encode({
-                order: rfqOrder,
-                signature: await rfqOrder.getSignatureWithProviderAsync(env.provider),
-            }),
-        };
+        );
     }
 
     function getTestOtcOrder(fields: Partial<OtcOrder> = {}): OtcOrder {
@@ -275,34 +215,28 @@ blockchainTests.resets('MultiplexFeature', env => {
         otcOrder: OtcOrder,
         sellAmount: BigNumber = otcOrder.takerAmount,
     ): Promise<BatchSellSubcall> {
-        const otcDataEncoder = AbiEncoder.create([
-            { name: 'order', type: 'tuple', components: OtcOrder.STRUCT_ABI },
-            { name: 'signature', type: 'tuple', components: SIGNATURE_ABI },
-        ]);
         const makerToken =
             otcOrder.makerToken === weth.address
                 ? weth
                 : new TestMintableERC20TokenContract(otcOrder.makerToken, env.provider, env.txDefaults);
         await mintToAsync(makerToken, otcOrder.maker, otcOrder.makerAmount);
-        return {
-            id: MultiplexSubcall.Otc,
+        return createBatchSellSubcall(
+            {
+                id: MultiplexSubcall.OTC,
+                data: {
+                    order: otcOrder,
+                    signature: await otcOrder.getSignatureWithProviderAsync(env.provider),
+                },
+            },
             sellAmount,
-            data: otcDataEncoder.encode({
-                order: otcOrder,
-                signature: await otcOrder.getSignatureWithProviderAsync(env.provider),
-            }),
-        };
+        );
     }
 
     function getUniswapV2MultiHopSubcall(tokens: string[], isSushi = false): MultiHopSellSubcall {
-        const uniswapDataEncoder = AbiEncoder.create([
-            { name: 'tokens', type: 'address[]' },
-            { name: 'isSushi', type: 'bool' },
-        ]);
-        return {
+        return createMultiHopSellSubcall({
             id: MultiplexSubcall.UniswapV2,
-            data: uniswapDataEncoder.encode({ tokens, isSushi }),
-        };
+            data: { tokens, isSushi },
+        });
     }
     function getUniswapV2BatchSubcall(
         tokens: string[],
@@ -318,19 +252,13 @@ blockchainTests.resets('MultiplexFeature', env => {
     function getUniswapV3MultiHopSubcall(
         tokens_: Array<TestMintableERC20TokenContract | TestWethContract>,
     ): MultiHopSellSubcall {
-        const elems: string[] = [];
-        tokens_.forEach((t, i) => {
-            if (i) {
-                elems.push(hexUtils.leftPad(POOL_FEE, 3));
-            }
-            elems.push(hexUtils.leftPad(t.address, 20));
-        });
-        const data = hexUtils.concat(...elems);
-
-        return {
+        return createMultiHopSellSubcall({
             id: MultiplexSubcall.UniswapV3,
-            data,
-        };
+            data: {
+                tokens: tokens_.map(t => t.address),
+                fees: tokens_.slice(1).map(() => POOL_FEE),
+            },
+        });
     }
     function getUniswapV3BatchSubcall(
         tokens: Array<TestMintableERC20TokenContract | TestWethContract>,
@@ -343,17 +271,13 @@ blockchainTests.resets('MultiplexFeature', env => {
     }
 
     function getLiquidityProviderMultiHopSubcall(): MultiHopSellSubcall {
-        const plpDataEncoder = AbiEncoder.create([
-            { name: 'provider', type: 'address' },
-            { name: 'auxiliaryData', type: 'bytes' },
-        ]);
-        return {
+        return createMultiHopSellSubcall({
             id: MultiplexSubcall.LiquidityProvider,
-            data: plpDataEncoder.encode({
+            data: {
                 provider: liquidityProvider.address,
                 auxiliaryData: constants.NULL_BYTES,
-            }),
-        };
+            },
+        });
     }
     function getLiquidityProviderBatchSubcall(
         sellAmount: BigNumber = getRandomInteger(1, toBaseUnitAmount(1)),
@@ -370,16 +294,6 @@ blockchainTests.resets('MultiplexFeature', env => {
         sellAmount: BigNumber = getRandomInteger(1, toBaseUnitAmount(1)),
         mintAmount: BigNumber = getRandomInteger(1, toBaseUnitAmount(1)),
     ): BatchSellSubcall {
-        const transformERC20Encoder = AbiEncoder.create([
-            {
-                name: 'transformations',
-                type: 'tuple[]',
-                components: [
-                    { name: 'deploymentNonce', type: 'uint32' },
-                    { name: 'data', type: 'bytes' },
-                ],
-            },
-        ]);
         const transformDataEncoder = AbiEncoder.create([
             {
                 name: 'data',
@@ -393,44 +307,35 @@ blockchainTests.resets('MultiplexFeature', env => {
                 ],
             },
         ]);
-        return {
-            id: MultiplexSubcall.TransformERC20,
+        return createBatchSellSubcall(
+            {
+                id: MultiplexSubcall.TransformERC20,
+                data: {
+                    transformations: [
+                        {
+                            deploymentNonce: transformerNonce,
+                            data: transformDataEncoder.encode([
+                                {
+                                    inputToken,
+                                    outputToken,
+                                    burnAmount: constants.ZERO_AMOUNT,
+                                    mintAmount,
+                                    feeAmount: constants.ZERO_AMOUNT,
+                                },
+                            ]),
+                        },
+                    ],
+                },
+            },
             sellAmount,
-            data: transformERC20Encoder.encode({
-                transformations: [
-                    {
-                        deploymentNonce: transformerNonce,
-                        data: transformDataEncoder.encode([
-                            {
-                                inputToken,
-                                outputToken,
-                                burnAmount: constants.ZERO_AMOUNT,
-                                mintAmount,
-                                feeAmount: constants.ZERO_AMOUNT,
-                            },
-                        ]),
-                    },
-                ],
-            }),
-        };
+        );
     }
 
     function getNestedBatchSellSubcall(calls: BatchSellSubcall[]): MultiHopSellSubcall {
-        const batchSellDataEncoder = AbiEncoder.create([
-            {
-                name: 'calls',
-                type: 'tuple[]',
-                components: [
-                    { name: 'id', type: 'uint8' },
-                    { name: 'sellAmount', type: 'uint256' },
-                    { name: 'data', type: 'bytes' },
-                ],
-            },
-        ]);
-        return {
+        return createMultiHopSellSubcall({
             id: MultiplexSubcall.BatchSell,
-            data: batchSellDataEncoder.encode({ calls }),
-        };
+            data: { calls },
+        });
     }
 
     function getNestedMultiHopSellSubcall(
@@ -438,32 +343,17 @@ blockchainTests.resets('MultiplexFeature', env => {
         calls: MultiHopSellSubcall[],
         sellAmount: BigNumber = getRandomInteger(1, toBaseUnitAmount(1)),
     ): BatchSellSubcall {
-        const multiHopSellDataEncoder = AbiEncoder.create([
-            {
-                name: 'tokens',
-                type: 'address[]',
-            },
+        return createBatchSellSubcall(
             {
-                name: 'calls',
-                type: 'tuple[]',
-                components: [
-                    { name: 'id', type: 'uint8' },
-                    { name: 'data', type: 'bytes' },
-                ],
+                id: MultiplexSubcall.MultiHopSell,
+                data: { tokens, calls },
             },
-        ]);
-        return {
-            id: MultiplexSubcall.MultiHopSell,
             sellAmount,
-            data: multiHopSellDataEncoder.encode({ tokens, calls }),
-        };
+        );
     }
 
     before(async () => {
         [owner, maker, taker] = await env.getAccountAddressesAsync();
-        zeroEx = await fullMigrateAsync(owner, env.provider, env.txDefaults, {});
-        flashWalletAddress = await zeroEx.getTransformWallet().callAsync();
-
         [dai, shib, zrx] = await Promise.all(
             [...new Array(3)].map(async () =>
                 TestMintableERC20TokenContract.deployFrom0xArtifactAsync(
@@ -480,6 +370,25 @@ blockchainTests.resets('MultiplexFeature', env => {
             env.txDefaults,
             artifacts,
         );
+        await deployUniswapContractsAsync();
+        zeroEx = await fullMigrateAsync(
+            owner,
+            env.provider,
+            env.txDefaults,
+            {},
+            {
+                wethAddress: weth.address,
+                uniswapFactory: uniV2Factory.address,
+                uniswapPairInitCodeHash: await uniV2Factory.POOL_INIT_CODE_HASH().callAsync(),
+                sushiswapFactory: sushiFactory.address,
+                sushiswapPairInitCodeHash: await sushiFactory.POOL_INIT_CODE_HASH().callAsync(),
+                uniswapV3Factory: uniV3Factory.address,
+                uniswapV3PoolInitCodeHash: await uniV3Factory.POOL_INIT_CODE_HASH().callAsync(),
+                optionalFeatures: ['multiplex'],
+            },
+            { uniswapV3: artifacts.TestUniswapV3Feature },
+        );
+        flashWalletAddress = await zeroEx.getTransformWallet().callAsync();
 
         await Promise.all([
             ...[dai, shib, zrx, weth].map(t =>
@@ -489,10 +398,7 @@ blockchainTests.resets('MultiplexFeature', env => {
                 t.approve(zeroEx.address, constants.MAX_UINT256).awaitTransactionSuccessAsync({ from: maker }),
             ),
         ]);
-        await migrateOtcOrdersFeatureAsync();
-        await migrateLiquidityProviderContractsAsync();
-        await migrateUniswapV2ContractsAsync();
-        await migrateUniswapV3ContractsAsync();
+        await deployLiquidityProviderAsync();
         transformerNonce = await env.web3Wrapper.getAccountNonceAsync(owner);
         await TestMintTokenERC20TransformerContract.deployFrom0xArtifactAsync(
             artifacts.TestMintTokenERC20Transformer,
@@ -500,23 +406,6 @@ blockchainTests.resets('MultiplexFeature', env => {
             env.txDefaults,
             artifacts,
         );
-
-        const featureImpl = await MultiplexFeatureContract.deployFrom0xArtifactAsync(
-            artifacts.MultiplexFeature,
-            env.provider,
-            env.txDefaults,
-            artifacts,
-            zeroEx.address,
-            weth.address,
-            sandbox.address,
-            uniV2Factory.address,
-            sushiFactory.address,
-            await uniV2Factory.POOL_INIT_CODE_HASH().callAsync(),
-            await sushiFactory.POOL_INIT_CODE_HASH().callAsync(),
-        );
-        await new IOwnableFeatureContract(zeroEx.address, env.provider, env.txDefaults)
-            .migrate(featureImpl.address, featureImpl.migrate().getABIEncodedTransactionData(), owner)
-            .awaitTransactionSuccessAsync();
         multiplex = new MultiplexFeatureContract(zeroEx.address, env.provider, env.txDefaults, abis);
     });
 
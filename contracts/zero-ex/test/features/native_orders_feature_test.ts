@@ -8,6 +8,10 @@ import {
     verifyEventsFromLogs,
 } from '@0x/contracts-test-utils';
 import {
+    computeLimitOrderFilledAmounts,
+    computeRfqOrderFilledAmounts,
+    getActualFillableTakerTokenAmount,
+    getFillableMakerTokenAmount,
     LimitOrder,
     LimitOrderFields,
     OrderStatus,
@@ -24,11 +28,7 @@ import { artifacts } from '../artifacts';
 import { fullMigrateAsync } from '../utils/migration';
 import {
     assertOrderInfoEquals,
-    computeLimitOrderFilledAmounts,
-    computeRfqOrderFilledAmounts,
     createExpiry,
-    getActualFillableTakerTokenAmount,
-    getFillableMakerTokenAmount,
     getRandomLimitOrder,
     getRandomRfqOrder,
     NativeOrdersTestEnvironment,
@@ -1,17 +1,12 @@
 import { blockchainTests, constants, describe, expect, verifyEventsFromLogs } from '@0x/contracts-test-utils';
-import { OrderStatus, OtcOrder, RevertErrors, SignatureType } from '@0x/protocol-utils';
+import { computeOtcOrderFilledAmounts, OrderStatus, OtcOrder, RevertErrors, SignatureType } from '@0x/protocol-utils';
 import { BigNumber } from '@0x/utils';
 
 import { IOwnableFeatureContract, IZeroExContract, IZeroExEvents } from '../../src/wrappers';
 import { artifacts } from '../artifacts';
 import { abis } from '../utils/abis';
 import { fullMigrateAsync } from '../utils/migration';
-import {
-    computeOtcOrderFilledAmounts,
-    createExpiry,
-    getRandomOtcOrder,
-    NativeOrdersTestEnvironment,
-} from '../utils/orders';
+import { createExpiry, getRandomOtcOrder, NativeOrdersTestEnvironment } from '../utils/orders';
 import {
     OtcOrdersFeatureContract,
     TestMintableERC20TokenContract,
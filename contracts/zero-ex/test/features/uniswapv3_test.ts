@@ -6,7 +6,8 @@ import {
     getRandomPortion,
     randomAddress,
 } from '@0x/contracts-test-utils';
-import { BigNumber, hexUtils } from '@0x/utils';
+import { uniswapV3PathUtils } from '@0x/protocol-utils';
+import { BigNumber } from '@0x/utils';
 import { LogWithDecodedArgs } from 'ethereum-types';
 
 import { artifacts } from '../artifacts';
@@ -116,14 +117,10 @@ blockchainTests.resets('UniswapV3Feature', env => {
     }
 
     function encodePath(tokens_: Array<TestMintableERC20TokenContract | TestWethContract>): string {
-        const elems: string[] = [];
-        tokens_.forEach((t, i) => {
-            if (i) {
-                elems.push(hexUtils.leftPad(POOL_FEE, 3));
-            }
-            elems.push(hexUtils.leftPad(t.address, 20));
+        return uniswapV3PathUtils.encode({
+            tokens: tokens_.map(t => t.address),
+            fees: tokens_.slice(1).map(() => POOL_FEE),
         });
-        return hexUtils.concat(...elems);
     }
 
     describe('sellTokenForTokenToUniswapV3()', () => {
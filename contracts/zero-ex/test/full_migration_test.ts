@@ -6,8 +6,16 @@ import * as _ from 'lodash';
 
 import { artifacts } from './artifacts';
 import { abis } from './utils/abis';
-import { deployFullFeaturesAsync, FullFeatures } from './utils/migration';
 import {
+    deployFullFeaturesAsync,
+    FullFeatures,
+    fullMigrateAsync,
+    getOptionalFeaturesInDependencyOrder,
+} from './utils/migration';
+import {
+    IBatchFillNativeOrdersFeatureContract,
+    IFundRecoveryFeatureContract,
+    ILiquidityProviderFeatureContract,
     IMetaTransactionsFeatureContract,
     INativeOrdersFeatureContract,
     IOwnableFeatureContract,
@@ -216,3 +224,53 @@ blockchainTests.resets('Full migration', env => {
         });
     });
 });
+
+blockchainTests.resets('Full migration with optional features', env => {
+    it('orders optional features after their dependencies', () => {
+        expect(getOptionalFeaturesInDependencyOrder(['metaTransactionsV2', 'fundRecovery', 'uniswapV3'])).to.deep.eq([
+            'uniswapV3',
+            'multiplex',
+            'metaTransactionsV2',
+            'fundRecovery',
+        ]);
+    });
+
+    it('registers optional features and hands over ownership', async () => {
+        const owner = randomAddress();
+        const zeroEx = await fullMigrateAsync(
+            owner,
+            env.provider,
+            env.txDefaults,
+            {},
+            {
+                optionalFeatures: ['batchFillNativeOrders', 'fundRecovery'],
+            },
+        );
+        const batchFill = new IBatchFillNativeOrdersFeatureContract(zeroEx.address, env.provider);
+        const fundRecovery = new IFundRecoveryFeatureContract(zeroEx.address, env.provider);
+        for (const selector of [
+            batchFill.getSelector('batchFillLimitOrders'),
+            batchFill.getSelector('batchFillRfqOrders'),
+            fundRecovery.getSelector('transferTrappedTokensTo'),
+        ]) {
+            expect(await zeroEx.getFunctionImplementation(selector).callAsync()).to.not.eq(NULL_ADDRESS);
+        }
+        expect(await zeroEx.owner().callAsync()).to.eq(owner);
+    });
+
+    it('deploys a liquidity provider sandbox for features that need one', async () => {
+        const zeroEx = await fullMigrateAsync(
+            env.txDefaults.from as string,
+            env.provider,
+            env.txDefaults,
+            {},
+            {
+                optionalFeatures: ['liquidityProvider'],
+            },
+        );
+        const selector = new ILiquidityProviderFeatureContract(zeroEx.address, env.provider).getSelector(
+            'sellToLiquidityProvider',
+        );
+        expect(await zeroEx.getFunctionImplementation(selector).callAsync()).to.not.eq(NULL_ADDRESS);
+    });
+});
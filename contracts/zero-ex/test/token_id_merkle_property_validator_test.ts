@@ -0,0 +1,60 @@
+import { blockchainTests, expect, randomAddress, verifyEventsFromLogs } from '@0x/contracts-test-utils';
+import { createTokenIdMerkleProperty, getTokenIdMerkleProof, getTokenIdMerkleRoot } from '@0x/protocol-utils';
+import { BigNumber } from '@0x/utils';
+
+import { artifacts } from './artifacts';
+import { TokenIdMerklePropertyValidatorContract, TokenIdMerklePropertyValidatorEvents } from './wrappers';
+
+blockchainTests.resets('TokenIdMerklePropertyValidator', env => {
+    let validator: TokenIdMerklePropertyValidatorContract;
+    const tokenIds = [1, 5, 9, 42, 1337].map(id => new BigNumber(id));
+    const root = getTokenIdMerkleRoot(tokenIds);
+    let propertyData: string;
+
+    before(async () => {
+        validator = await TokenIdMerklePropertyValidatorContract.deployFrom0xArtifactAsync(
+            artifacts.TokenIdMerklePropertyValidator,
+            env.provider,
+            env.txDefaults,
+            artifacts,
+        );
+        ({ propertyData } = createTokenIdMerkleProperty(validator.address, tokenIds));
+    });
+
+    describe('proveTokenId()', () => {
+        it('accepts proofs generated by `getTokenIdMerkleProof()`', async () => {
+            for (const tokenId of tokenIds) {
+                const receipt = await validator
+                    .proveTokenId(root, tokenId, getTokenIdMerkleProof(tokenIds, tokenId))
+                    .awaitTransactionSuccessAsync();
+                verifyEventsFromLogs(
+                    receipt.logs,
+                    [{ root, tokenId }],
+                    TokenIdMerklePropertyValidatorEvents.TokenIdProven,
+                );
+                expect(await validator.isTokenIdProven(root, tokenId).callAsync()).to.eq(true);
+            }
+        });
+
+        it('rejects a proof for another token ID', async () => {
+            const tx = validator
+                .proveTokenId(root, new BigNumber(2), getTokenIdMerkleProof(tokenIds, tokenIds[0]))
+                .awaitTransactionSuccessAsync();
+            return expect(tx).to.revertWith('TokenIdMerklePropertyValidator::proveTokenId/INVALID_PROOF');
+        });
+    });
+
+    describe('validateProperty()', () => {
+        it('accepts a proven token ID', async () => {
+            await validator
+                .proveTokenId(root, tokenIds[3], getTokenIdMerkleProof(tokenIds, tokenIds[3]))
+                .awaitTransactionSuccessAsync();
+            await validator.validateProperty(randomAddress(), tokenIds[3], propertyData).callAsync();
+        });
+
+        it('rejects a token ID that has not been proven', async () => {
+            const tx = validator.validateProperty(randomAddress(), tokenIds[3], propertyData).callAsync();
+            return expect(tx).to.revertWith('TokenIdMerklePropertyValidator::validateProperty/TOKEN_ID_NOT_PROVEN');
+        });
+    });
+});
@@ -0,0 +1,39 @@
+import { blockchainTests, expect, randomAddress } from '@0x/contracts-test-utils';
+import { encodeTokenIdRangePropertyData } from '@0x/protocol-utils';
+import { BigNumber } from '@0x/utils';
+
+import { artifacts } from './artifacts';
+import { TokenIdRangePropertyValidatorContract } from './wrappers';
+
+blockchainTests.resets('TokenIdRangePropertyValidator', env => {
+    let validator: TokenIdRangePropertyValidatorContract;
+    const propertyData = encodeTokenIdRangePropertyData({
+        lowerBound: new BigNumber(100),
+        upperBound: new BigNumber(200),
+    });
+
+    before(async () => {
+        validator = await TokenIdRangePropertyValidatorContract.deployFrom0xArtifactAsync(
+            artifacts.TokenIdRangePropertyValidator,
+            env.provider,
+            env.txDefaults,
+            artifacts,
+        );
+    });
+
+    it('accepts token IDs in the range', async () => {
+        for (const tokenId of [100, 150, 200]) {
+            await validator.validateProperty(randomAddress(), new BigNumber(tokenId), propertyData).callAsync();
+        }
+    });
+
+    it('rejects a token ID below the range', async () => {
+        const tx = validator.validateProperty(randomAddress(), new BigNumber(99), propertyData).callAsync();
+        return expect(tx).to.revertWith('TokenIdRangePropertyValidator::validateProperty/TOKEN_ID_OUT_OF_RANGE');
+    });
+
+    it('rejects a token ID above the range', async () => {
+        const tx = validator.validateProperty(randomAddress(), new BigNumber(201), propertyData).callAsync();
+        return expect(tx).to.revertWith('TokenIdRangePropertyValidator::validateProperty/TOKEN_ID_OUT_OF_RANGE');
+    });
+});
@@ -0,0 +1,204 @@
+import { blockchainTests, expect, randomAddress } from '@0x/contracts-test-utils';
+import { NULL_ADDRESS } from '@0x/utils';
+import { MethodAbi } from 'ethereum-types';
+import * as _ from 'lodash';
+import * as path from 'path';
+
+import {
+    compareStorageLayouts,
+    getFunctionSignatures,
+    planUpgradeAsync,
+    readStorageSourcesAsync,
+    SelectorChangeKind,
+    StorageSources,
+} from '../src/upgrade_planner';
+import { artifacts } from './artifacts';
+import { fullMigrateAsync } from './utils/migration';
+import { IZeroExContract, OtcOrdersFeatureContract } from './wrappers';
+
+blockchainTests.resets('Upgrade planner', env => {
+    let owner: string;
+    let zeroEx: IZeroExContract;
+    let otcOrdersFeature: OtcOrdersFeatureContract;
+    const otcOrdersSignatures = getFunctionSignatures(artifacts.IOtcOrdersFeature);
+
+    before(async () => {
+        [owner] = await env.getAccountAddressesAsync();
+        zeroEx = await fullMigrateAsync(owner, env.provider, env.txDefaults, {}, { wethAddress: randomAddress() });
+        otcOrdersFeature = await OtcOrdersFeatureContract.deployFrom0xArtifactAsync(
+            artifacts.OtcOrdersFeature,
+            env.provider,
+            env.txDefaults,
+            artifacts,
+            zeroEx.address,
+            randomAddress(),
+        );
+    });
+
+    async function executeCallsAsync(calls: Array<{ target: string; data: string }>): Promise<void> {
+        for (const call of calls) {
+            await env.web3Wrapper.awaitTransactionSuccessAsync(
+                await env.web3Wrapper.sendTransactionAsync({ ...env.txDefaults, from: owner, ...call }),
+            );
+        }
+    }
+
+    describe('planUpgradeAsync()', () => {
+        it('replaces the selectors of a new feature version', async () => {
+            const plan = await planUpgradeAsync(
+                zeroEx.address,
+                [{ implementation: otcOrdersFeature.address, artifact: artifacts.IOtcOrdersFeature }],
+                env.provider,
+            );
+            expect(plan.owner).to.eq(owner);
+            expect(plan.collisions).to.deep.eq([]);
+            expect(plan.changes.map(c => c.selector).sort()).to.deep.eq(Object.keys(otcOrdersSignatures).sort());
+            for (const change of plan.changes) {
+                expect(change.kind).to.eq(SelectorChangeKind.Replaced);
+                expect(change.newImpl).to.eq(otcOrdersFeature.address);
+                expect(change.previousImpl).to.not.eq(NULL_ADDRESS);
+                expect(change.rollbackLength).to.eq(1);
+            }
+            expect(plan.calls).to.deep.eq([
+                {
+                    target: zeroEx.address,
+                    data: zeroEx
+                        .migrate(
+                            otcOrdersFeature.address,
+                            otcOrdersFeature.migrate().getABIEncodedTransactionData(),
+                            owner,
+                        )
+                        .getABIEncodedTransactionData(),
+                    value: plan.calls[0].value,
+                },
+            ]);
+            await executeCallsAsync(plan.calls);
+            for (const selector of Object.keys(otcOrdersSignatures)) {
+                expect(await zeroEx.getFunctionImplementation(selector).callAsync()).to.eq(otcOrdersFeature.address);
+            }
+        });
+
+        it('can register selectors with `extend()`', async () => {
+            const plan = await planUpgradeAsync(
+                zeroEx.address,
+                [
+                    {
+                        implementation: otcOrdersFeature.address,
+                        artifact: artifacts.IOtcOrdersFeature,
+                        shouldMigrate: false,
+                    },
+                ],
+                env.provider,
+            );
+            expect(plan.calls).to.be.length(plan.changes.length);
+            await executeCallsAsync(plan.calls);
+            for (const selector of Object.keys(otcOrdersSignatures)) {
+                expect(await zeroEx.getFunctionImplementation(selector).callAsync()).to.eq(otcOrdersFeature.address);
+            }
+        });
+
+        it('removes selectors the new version drops', async () => {
+            const [removedSelector] = Object.keys(otcOrdersSignatures);
+            const artifact = _.cloneDeep(artifacts.IOtcOrdersFeature);
+            artifact.compilerOutput.abi = artifact.compilerOutput.abi.filter(
+                abiDef =>
+                    abiDef.type !== 'function' ||
+                    !otcOrdersSignatures[removedSelector].startsWith(`${(abiDef as MethodAbi).name}(`),
+            );
+            const plan = await planUpgradeAsync(
+                zeroEx.address,
+                [{ implementation: otcOrdersFeature.address, artifact }],
+                env.provider,
+            );
+            const removals = plan.changes.filter(c => c.kind === SelectorChangeKind.Removed);
+            expect(removals.map(c => c.selector)).to.deep.eq([removedSelector]);
+            expect(removals[0].newImpl).to.eq(NULL_ADDRESS);
+            expect(_.last(plan.calls)!.data).to.eq(
+                zeroEx.rollback(removedSelector, NULL_ADDRESS).getABIEncodedTransactionData(),
+            );
+            await executeCallsAsync(plan.calls);
+            expect(await zeroEx.getFunctionImplementation(removedSelector).callAsync()).to.eq(NULL_ADDRESS);
+        });
+
+        it('flags selectors registered by another feature', async () => {
+            const plan = await planUpgradeAsync(
+                zeroEx.address,
+                [{ implementation: otcOrdersFeature.address, artifact: artifacts.IOwnableFeature }],
+                env.provider,
+            );
+            const selectors = plan.collisions.map(c => c.selector);
+            expect(selectors).to.include(zeroEx.getSelector('owner'));
+            expect(selectors).to.include(zeroEx.getSelector('transferOwnership'));
+        });
+
+        it('flags selectors registered twice by one upgrade', async () => {
+            const upgrade = { implementation: otcOrdersFeature.address, artifact: artifacts.IOtcOrdersFeature };
+            const plan = await planUpgradeAsync(zeroEx.address, [upgrade, upgrade], env.provider);
+            expect(plan.collisions.map(c => c.selector).sort()).to.deep.eq(Object.keys(otcOrdersSignatures).sort());
+        });
+    });
+
+    describe('compareStorageLayouts()', () => {
+        let sources: StorageSources;
+
+        before(async () => {
+            sources = await readStorageSourcesAsync(path.resolve(__dirname, '../../contracts/src/storage'));
+        });
+
+        function replaceSource(fileName: string, searchValue: string, replaceValue: string): StorageSources {
+            expect(sources[fileName]).to.include(searchValue);
+            return { ...sources, [fileName]: sources[fileName].replace(searchValue, replaceValue) };
+        }
+
+        it('accepts an unchanged layout', () => {
+            expect(compareStorageLayouts(sources, sources)).to.deep.eq([]);
+        });
+
+        it('accepts appended storage IDs and fields', () => {
+            let next = replaceSource('LibStorage.sol', 'MetaTransactionsV2', 'MetaTransactionsV2,\n        NewFeature');
+            next = {
+                ...next,
+                'LibOtcOrdersStorage.sol': next['LibOtcOrdersStorage.sol'].replace(
+                    'txOriginNonces;',
+                    'txOriginNonces;\n        uint256 newField;',
+                ),
+            };
+            expect(compareStorageLayouts(sources, next)).to.deep.eq([]);
+        });
+
+        it('flags reordered storage IDs', () => {
+            const next = replaceSource(
+                'LibStorage.sol',
+                'NativeOrders,\n        OtcOrders',
+                'OtcOrders,\n        NativeOrders',
+            );
+            expect(compareStorageLayouts(sources, next).map(i => i.library)).to.include('LibStorage');
+        });
+
+        it('flags libraries that share a storage ID', () => {
+            const next = replaceSource('LibOtcOrdersStorage.sol', 'StorageId.OtcOrders', 'StorageId.NativeOrders');
+            expect(compareStorageLayouts(sources, next).map(i => i.reason)).to.deep.eq([
+                'StorageId.NativeOrders is also used by LibOtcOrdersStorage',
+                'Storage moved from StorageId.OtcOrders to StorageId.NativeOrders',
+            ]);
+        });
+
+        it('flags removed, retyped and renamed fields', () => {
+            const field = 'mapping(address => mapping(uint64 => uint128)) txOriginNonces;';
+            expect(compareStorageLayouts(sources, replaceSource('LibOtcOrdersStorage.sol', field, ''))).to.deep.eq([
+                { library: 'LibOtcOrdersStorage', reason: 'Field txOriginNonces was removed' },
+            ]);
+            expect(
+                compareStorageLayouts(
+                    sources,
+                    replaceSource('LibOtcOrdersStorage.sol', field, 'uint256 txOriginNonces;'),
+                ).map(i => i.library),
+            ).to.deep.eq(['LibOtcOrdersStorage']);
+            expect(
+                compareStorageLayouts(sources, replaceSource('LibOtcOrdersStorage.sol', 'txOriginNonces;', 'nonces;')),
+            ).to.deep.eq([
+                { library: 'LibOtcOrdersStorage', reason: 'Field txOriginNonces at index 0 was renamed to nonces' },
+            ]);
+        });
+    });
+});
@@ -7,4 +7,6 @@ export {
     FullMigrationConfig,
     FullFeaturesDeployConfig,
     FullFeatures,
+    getOptionalFeaturesInDependencyOrder,
+    OptionalFeatures,
 } from '../../src/migration';
@@ -6,6 +6,9 @@ import {
     randomAddress,
 } from '@0x/contracts-test-utils';
 import {
+    computeLimitOrderFilledAmounts,
+    computeOtcOrderFilledAmounts,
+    computeRfqOrderFilledAmounts,
     LimitOrder,
     LimitOrderFields,
     OrderBase,
@@ -30,18 +33,6 @@ import { TestMintableERC20TokenContract } from '../wrappers';
 
 const { ZERO_AMOUNT: ZERO, NULL_ADDRESS } = constants;
 
-interface RfqOrderFilledAmounts {
-    makerTokenFilledAmount: BigNumber;
-    takerTokenFilledAmount: BigNumber;
-}
-type OtcOrderFilledAmounts = RfqOrderFilledAmounts;
-
-interface LimitOrderFilledAmounts {
-    makerTokenFilledAmount: BigNumber;
-    takerTokenFilledAmount: BigNumber;
-    takerTokenFeeFilledAmount: BigNumber;
-}
-
 export enum OtcOrderWethOptions {
     LeaveAsWeth,
     WrapEth,
@@ -354,105 +345,3 @@ export function assertOrderInfoEquals(actual: OrderInfo, expected: OrderInfo): v
 export function createExpiry(deltaSeconds = 60): BigNumber {
     return new BigNumber(Math.floor(Date.now() / 1000) + deltaSeconds);
 }
-
-/**
- * Computes the maker, taker, and taker token fee amounts filled for
- * the given limit order.
- */
-export function computeLimitOrderFilledAmounts(
-    order: LimitOrder,
-    takerTokenFillAmount: BigNumber = order.takerAmount,
-    takerTokenAlreadyFilledAmount: BigNumber = ZERO,
-): LimitOrderFilledAmounts {
-    const fillAmount = BigNumber.min(
-        order.takerAmount,
-        takerTokenFillAmount,
-        order.takerAmount.minus(takerTokenAlreadyFilledAmount),
-    );
-    const makerTokenFilledAmount = fillAmount
-        .times(order.makerAmount)
-        .div(order.takerAmount)
-        .integerValue(BigNumber.ROUND_DOWN);
-    const takerTokenFeeFilledAmount = fillAmount
-        .times(order.takerTokenFeeAmount)
-        .div(order.takerAmount)
-        .integerValue(BigNumber.ROUND_DOWN);
-    return {
-        makerTokenFilledAmount,
-        takerTokenFilledAmount: fillAmount,
-        takerTokenFeeFilledAmount,
-    };
-}
-
-/**
- * Computes the maker and taker amounts filled for the given RFQ order.
- */
-export function computeRfqOrderFilledAmounts(
-    order: RfqOrder,
-    takerTokenFillAmount: BigNumber = order.takerAmount,
-    takerTokenAlreadyFilledAmount: BigNumber = ZERO,
-): RfqOrderFilledAmounts {
-    const fillAmount = BigNumber.min(
-        order.takerAmount,
-        takerTokenFillAmount,
-        order.takerAmount.minus(takerTokenAlreadyFilledAmount),
-    );
-    const makerTokenFilledAmount = fillAmount
-        .times(order.makerAmount)
-        .div(order.takerAmount)
-        .integerValue(BigNumber.ROUND_DOWN);
-    return {
-        makerTokenFilledAmount,
-        takerTokenFilledAmount: fillAmount,
-    };
-}
-
-/**
- * Computes the maker and taker amounts filled for the given OTC order.
- */
-export function computeOtcOrderFilledAmounts(
-    order: OtcOrder,
-    takerTokenFillAmount: BigNumber = order.takerAmount,
-): OtcOrderFilledAmounts {
-    const fillAmount = BigNumber.min(order.takerAmount, takerTokenFillAmount, order.takerAmount);
-    const makerTokenFilledAmount = fillAmount
-        .times(order.makerAmount)
-        .div(order.takerAmount)
-        .integerValue(BigNumber.ROUND_DOWN);
-    return {
-        makerTokenFilledAmount,
-        takerTokenFilledAmount: fillAmount,
-    };
-}
-
-/**
- * Computes the remaining fillable amount in maker token for
- * the given order.
- */
-export function getFillableMakerTokenAmount(
-    order: LimitOrder | RfqOrder,
-    takerTokenFilledAmount: BigNumber = ZERO,
-): BigNumber {
-    return order.takerAmount
-        .minus(takerTokenFilledAmount)
-        .times(order.makerAmount)
-        .div(order.takerAmount)
-        .integerValue(BigNumber.ROUND_DOWN);
-}
-
-/**
- * Computes the remaining fillable amnount in taker token, based on
- * the amount already filled and the maker's balance/allowance.
- */
-export function getActualFillableTakerTokenAmount(
-    order: LimitOrder | RfqOrder,
-    makerBalance: BigNumber = order.makerAmount,
-    makerAllowance: BigNumber = order.makerAmount,
-    takerTokenFilledAmount: BigNumber = ZERO,
-): BigNumber {
-    const fillableMakerTokenAmount = getFillableMakerTokenAmount(order, takerTokenFilledAmount);
-    return BigNumber.min(fillableMakerTokenAmount, makerBalance, makerAllowance)
-        .times(order.takerAmount)
-        .div(order.makerAmount)
-        .integerValue(BigNumber.ROUND_UP);
-}
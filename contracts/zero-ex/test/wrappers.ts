@@ -199,6 +199,8 @@ export * from '../test/generated-wrappers/test_weth';
 export * from '../test/generated-wrappers/test_weth_transformer_host';
 export * from '../test/generated-wrappers/transform_erc20_feature';
 export * from '../test/generated-wrappers/transformer';
+export * from '../test/generated-wrappers/token_id_merkle_property_validator';
+export * from '../test/generated-wrappers/token_id_range_property_validator';
 export * from '../test/generated-wrappers/transformer_deployer';
 export * from '../test/generated-wrappers/uniswap_feature';
 export * from '../test/generated-wrappers/uniswap_v3_feature';
@@ -66,6 +66,8 @@ export class ContractWrappers {
      */
     public unsubscribeAll(): void {
         this.weth9.unsubscribeAll();
+        this.staking.unsubscribeAll();
+        this.exchangeProxy.unsubscribeAll();
     }
     /**
      * Get the provider instance currently used by contract-wrappers
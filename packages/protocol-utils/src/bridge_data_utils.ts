@@ -0,0 +1,441 @@
+import { DataItem } from 'ethereum-types';
+import { AbiEncoder, BigNumber, hexUtils } from '@0x/utils';
+
+import { BridgeProtocol, decodeBridgeSourceId, FillQuoteTransformerBridgeOrder } from './transformer_utils';
+
+/**
+ * `bridgeData` for the `ZeroExBridge` (`BridgeProtocol.Unknown`), which
+ * fills through a PLP liquidity provider.
+ */
+export interface ZeroExBridgeData {
+    provider: string;
+    lpData: string;
+}
+
+/**
+ * `bridgeData` for sources which only need a single contract address.
+ */
+export interface SingleAddressBridgeData {
+    address: string;
+}
+
+/**
+ * `bridgeData` for Curve-like pools (`Curve`, `CurveV2` and `Nerve`).
+ */
+export interface CurveBridgeData {
+    pool: string;
+    exchangeFunctionSelector: string;
+    fromCoinIdx: BigNumber;
+    toCoinIdx: BigNumber;
+}
+
+/**
+ * `bridgeData` for UniswapV2-like routers (`UniswapV2`, `CryptoCom` and `BancorV3`).
+ */
+export interface RouterPathBridgeData {
+    router: string;
+    path: string[];
+}
+
+/**
+ * `bridgeData` for `BridgeProtocol.UniswapV3`.
+ */
+export interface UniswapV3BridgeData {
+    router: string;
+    // Packed UniswapV3 path of tokens and fees.
+    path: string;
+    // 2 for `SwapRouter02`, anything else for the original `SwapRouter`.
+    routerVersion: BigNumber;
+}
+
+/**
+ * `bridgeData` for `BridgeProtocol.Dodo`.
+ */
+export interface DodoBridgeData {
+    helper: string;
+    pool: string;
+    isSellBase: boolean;
+}
+
+/**
+ * `bridgeData` for `BridgeProtocol.DodoV2`.
+ */
+export interface DodoV2BridgeData {
+    pool: string;
+    isSellBase: boolean;
+}
+
+/**
+ * `bridgeData` for `BridgeProtocol.MakerPsm`.
+ */
+export interface MakerPsmBridgeData {
+    psm: string;
+    gemToken: string;
+}
+
+/**
+ * `bridgeData` for routers which also take a list of pools (`KyberDmm` and `Platypus`).
+ */
+export interface RouterPoolsPathBridgeData {
+    router: string;
+    pools: string[];
+    path: string[];
+}
+
+/**
+ * `bridgeData` for `BridgeProtocol.Lido`. `wstEthToken` is only needed
+ * when wrapping or unwrapping wstETH.
+ */
+export interface LidoBridgeData {
+    stEthToken: string;
+    wstEthToken?: string;
+}
+
+/**
+ * `bridgeData` for lending pools (`AaveV2` and `AaveV3`).
+ */
+export interface AaveBridgeData {
+    pool: string;
+    aToken: string;
+}
+
+/**
+ * `IBalancerV2BatchSwapVault.BatchSwapStep`
+ */
+export interface BalancerV2BatchSwapStep {
+    poolId: string;
+    assetInIndex: BigNumber;
+    assetOutIndex: BigNumber;
+    amount: BigNumber;
+    userData: string;
+}
+
+/**
+ * `bridgeData` for `BridgeProtocol.BalancerV2Batch`.
+ */
+export interface BalancerV2BatchBridgeData {
+    vault: string;
+    swapSteps: BalancerV2BatchSwapStep[];
+    assets: string[];
+}
+
+/**
+ * `bridgeData` for `BridgeProtocol.GMX`.
+ */
+export interface GMXBridgeData {
+    router: string;
+    reader: string;
+    vault: string;
+    path: string[];
+}
+
+/**
+ * `bridgeData` for `BridgeProtocol.Solidly`.
+ */
+export interface SolidlyBridgeData {
+    router: string;
+    stable: boolean;
+}
+
+/**
+ * `bridgeData` for `BridgeProtocol.Synthetix`.
+ */
+export interface SynthetixBridgeData {
+    synthetix: string;
+    sourceCurrencyKey: string;
+    destinationCurrencyKey: string;
+}
+
+/**
+ * `bridgeData` for `BridgeProtocol.KyberElastic`.
+ */
+export interface KyberElasticBridgeData {
+    router: string;
+    path: string;
+}
+
+/**
+ * `bridgeData` for `BridgeProtocol.Barter`.
+ */
+export interface BarterBridgeData {
+    router: string;
+    data: string;
+}
+
+/**
+ * `ILBRouter.Version`
+ */
+export enum TraderJoeV2Version {
+    V1,
+    V2,
+    V2_1,
+}
+
+/**
+ * `bridgeData` for `BridgeProtocol.TraderJoeV2`.
+ */
+export interface TraderJoeV2BridgeData {
+    router: string;
+    tokenPath: string[];
+    pairBinSteps: BigNumber[];
+    versions: TraderJoeV2Version[];
+}
+
+/**
+ * `IVelodromeV2Router.Route`
+ */
+export interface VelodromeV2Route {
+    from: string;
+    to: string;
+    stable: boolean;
+    factory: string;
+}
+
+/**
+ * `bridgeData` for `BridgeProtocol.VelodromeV2`.
+ */
+export interface VelodromeV2BridgeData {
+    router: string;
+    routes: VelodromeV2Route[];
+}
+
+/**
+ * `bridgeData` for `BridgeProtocol.MaverickV1`.
+ */
+export interface MaverickV1BridgeData {
+    router: string;
+    pool: string;
+}
+
+/**
+ * The `bridgeData` layout for each bridge protocol the bridge adapters support.
+ */
+export interface BridgeDataByProtocol {
+    [BridgeProtocol.Unknown]: ZeroExBridgeData;
+    [BridgeProtocol.Curve]: CurveBridgeData;
+    [BridgeProtocol.UniswapV2]: RouterPathBridgeData;
+    [BridgeProtocol.Uniswap]: SingleAddressBridgeData;
+    [BridgeProtocol.Balancer]: SingleAddressBridgeData;
+    [BridgeProtocol.Mooniswap]: SingleAddressBridgeData;
+    [BridgeProtocol.MStable]: SingleAddressBridgeData;
+    [BridgeProtocol.Dodo]: DodoBridgeData;
+    [BridgeProtocol.DodoV2]: DodoV2BridgeData;
+    [BridgeProtocol.CryptoCom]: RouterPathBridgeData;
+    [BridgeProtocol.Nerve]: CurveBridgeData;
+    [BridgeProtocol.MakerPsm]: MakerPsmBridgeData;
+    [BridgeProtocol.UniswapV3]: UniswapV3BridgeData;
+    [BridgeProtocol.KyberDmm]: RouterPoolsPathBridgeData;
+    [BridgeProtocol.CurveV2]: CurveBridgeData;
+    [BridgeProtocol.Lido]: LidoBridgeData;
+    [BridgeProtocol.AaveV2]: AaveBridgeData;
+    [BridgeProtocol.Compound]: SingleAddressBridgeData;
+    [BridgeProtocol.BalancerV2Batch]: BalancerV2BatchBridgeData;
+    [BridgeProtocol.GMX]: GMXBridgeData;
+    [BridgeProtocol.Platypus]: RouterPoolsPathBridgeData;
+    [BridgeProtocol.BancorV3]: RouterPathBridgeData;
+    [BridgeProtocol.Solidly]: SolidlyBridgeData;
+    [BridgeProtocol.Synthetix]: SynthetixBridgeData;
+    [BridgeProtocol.WOOFi]: SingleAddressBridgeData;
+    [BridgeProtocol.AaveV3]: AaveBridgeData;
+    [BridgeProtocol.KyberElastic]: KyberElasticBridgeData;
+    [BridgeProtocol.Barter]: BarterBridgeData;
+    [BridgeProtocol.TraderJoeV2]: TraderJoeV2BridgeData;
+    [BridgeProtocol.VelodromeV2]: VelodromeV2BridgeData;
+    [BridgeProtocol.MaverickV1]: MaverickV1BridgeData;
+}
+
+/**
+ * A bridge protocol with a known `bridgeData` layout.
+ */
+export type SupportedBridgeProtocol = keyof BridgeDataByProtocol;
+
+/**
+ * A bridge order's `bridgeData`, decoded according to its `source`.
+ */
+export type DecodedBridgeData = {
+    [P in SupportedBridgeProtocol]: { protocol: P; name: string; data: BridgeDataByProtocol[P] };
+}[SupportedBridgeProtocol];
+
+const SINGLE_ADDRESS_ABI = [{ name: 'address', type: 'address' }];
+const CURVE_ABI = [
+    { name: 'pool', type: 'address' },
+    { name: 'exchangeFunctionSelector', type: 'bytes4' },
+    { name: 'fromCoinIdx', type: 'int128' },
+    { name: 'toCoinIdx', type: 'int128' },
+];
+const ROUTER_PATH_ABI = [
+    { name: 'router', type: 'address' },
+    { name: 'path', type: 'address[]' },
+];
+const ROUTER_POOLS_PATH_ABI = [
+    { name: 'router', type: 'address' },
+    { name: 'pools', type: 'address[]' },
+    { name: 'path', type: 'address[]' },
+];
+const AAVE_ABI = [
+    { name: 'pool', type: 'address' },
+    { name: 'aToken', type: 'address' },
+];
+
+const BRIDGE_DATA_ABIS: { [P in SupportedBridgeProtocol]: DataItem[] } = {
+    [BridgeProtocol.Unknown]: [
+        { name: 'provider', type: 'address' },
+        { name: 'lpData', type: 'bytes' },
+    ],
+    [BridgeProtocol.Curve]: CURVE_ABI,
+    [BridgeProtocol.UniswapV2]: ROUTER_PATH_ABI,
+    [BridgeProtocol.Uniswap]: SINGLE_ADDRESS_ABI,
+    [BridgeProtocol.Balancer]: SINGLE_ADDRESS_ABI,
+    [BridgeProtocol.Mooniswap]: SINGLE_ADDRESS_ABI,
+    [BridgeProtocol.MStable]: SINGLE_ADDRESS_ABI,
+    [BridgeProtocol.Dodo]: [
+        { name: 'helper', type: 'address' },
+        { name: 'pool', type: 'address' },
+        { name: 'isSellBase', type: 'bool' },
+    ],
+    [BridgeProtocol.DodoV2]: [
+        { name: 'pool', type: 'address' },
+        { name: 'isSellBase', type: 'bool' },
+    ],
+    [BridgeProtocol.CryptoCom]: ROUTER_PATH_ABI,
+    [BridgeProtocol.Nerve]: CURVE_ABI,
+    [BridgeProtocol.MakerPsm]: [
+        { name: 'psm', type: 'address' },
+        { name: 'gemToken', type: 'address' },
+    ],
+    [BridgeProtocol.UniswapV3]: [
+        { name: 'router', type: 'address' },
+        { name: 'path', type: 'bytes' },
+        { name: 'routerVersion', type: 'uint256' },
+    ],
+    [BridgeProtocol.KyberDmm]: ROUTER_POOLS_PATH_ABI,
+    [BridgeProtocol.CurveV2]: CURVE_ABI,
+    [BridgeProtocol.Lido]: [
+        { name: 'stEthToken', type: 'address' },
+        { name: 'wstEthToken', type: 'address' },
+    ],
+    [BridgeProtocol.AaveV2]: AAVE_ABI,
+    [BridgeProtocol.Compound]: SINGLE_ADDRESS_ABI,
+    [BridgeProtocol.BalancerV2Batch]: [
+        { name: 'vault', type: 'address' },
+        {
+            name: 'swapSteps',
+            type: 'tuple[]',
+            components: [
+                { name: 'poolId', type: 'bytes32' },
+                { name: 'assetInIndex', type: 'uint256' },
+                { name: 'assetOutIndex', type: 'uint256' },
+                { name: 'amount', type: 'uint256' },
+                { name: 'userData', type: 'bytes' },
+            ],
+        },
+        { name: 'assets', type: 'address[]' },
+    ],
+    [BridgeProtocol.GMX]: [
+        { name: 'router', type: 'address' },
+        { name: 'reader', type: 'address' },
+        { name: 'vault', type: 'address' },
+        { name: 'path', type: 'address[]' },
+    ],
+    [BridgeProtocol.Platypus]: ROUTER_POOLS_PATH_ABI,
+    [BridgeProtocol.BancorV3]: ROUTER_PATH_ABI,
+    [BridgeProtocol.Solidly]: [
+        { name: 'router', type: 'address' },
+        { name: 'stable', type: 'bool' },
+    ],
+    [BridgeProtocol.Synthetix]: [
+        { name: 'synthetix', type: 'address' },
+        { name: 'sourceCurrencyKey', type: 'bytes32' },
+        { name: 'destinationCurrencyKey', type: 'bytes32' },
+    ],
+    [BridgeProtocol.WOOFi]: SINGLE_ADDRESS_ABI,
+    [BridgeProtocol.AaveV3]: AAVE_ABI,
+    [BridgeProtocol.KyberElastic]: [
+        { name: 'router', type: 'address' },
+        { name: 'path', type: 'bytes' },
+    ],
+    [BridgeProtocol.Barter]: [
+        { name: 'router', type: 'address' },
+        { name: 'data', type: 'bytes' },
+    ],
+    [BridgeProtocol.TraderJoeV2]: [
+        { name: 'router', type: 'address' },
+        { name: 'tokenPath', type: 'address[]' },
+        { name: 'pairBinSteps', type: 'uint256[]' },
+        { name: 'versions', type: 'uint8[]' },
+    ],
+    [BridgeProtocol.VelodromeV2]: [
+        { name: 'router', type: 'address' },
+        {
+            name: 'routes',
+            type: 'tuple[]',
+            components: [
+                { name: 'from', type: 'address' },
+                { name: 'to', type: 'address' },
+                { name: 'stable', type: 'bool' },
+                { name: 'factory', type: 'address' },
+            ],
+        },
+    ],
+    [BridgeProtocol.MaverickV1]: [
+        { name: 'router', type: 'address' },
+        { name: 'pool', type: 'address' },
+    ],
+};
+
+// stETH deposits only encode the stETH token.
+const lidoStEthBridgeDataEncoder = AbiEncoder.create(BRIDGE_DATA_ABIS[BridgeProtocol.Lido].slice(0, 1));
+
+/**
+ * Check whether the bridge adapters know how to fill a bridge protocol.
+ */
+export function isSupportedBridgeProtocol(protocol: BridgeProtocol): protocol is SupportedBridgeProtocol {
+    return Object.prototype.hasOwnProperty.call(BRIDGE_DATA_ABIS, protocol);
+}
+
+/**
+ * ABI-encode the `bridgeData` of a bridge order for a bridge protocol.
+ */
+export function encodeBridgeData<P extends SupportedBridgeProtocol>(
+    protocol: P,
+    data: BridgeDataByProtocol[P],
+): string {
+    if (protocol === BridgeProtocol.Lido && (data as LidoBridgeData).wstEthToken === undefined) {
+        return lidoStEthBridgeDataEncoder.encode(data);
+    }
+    return getBridgeDataEncoder(protocol).encode(data);
+}
+
+/**
+ * ABI-decode the `bridgeData` of a bridge order for a bridge protocol.
+ */
+export function decodeBridgeData<P extends SupportedBridgeProtocol>(
+    protocol: P,
+    bridgeData: string,
+): BridgeDataByProtocol[P] {
+    if (protocol === BridgeProtocol.Lido && hexUtils.size(bridgeData) === 32) {
+        return lidoStEthBridgeDataEncoder.decode(bridgeData);
+    }
+    return getBridgeDataEncoder(protocol).decode(bridgeData);
+}
+
+/**
+ * Decode the `bridgeData` of a `FillQuoteTransformer` bridge order
+ * using the protocol encoded in its `source`.
+ */
+export function decodeBridgeOrderData(
+    order: Pick<FillQuoteTransformerBridgeOrder, 'source' | 'bridgeData'>,
+): DecodedBridgeData {
+    const { protocol, name } = decodeBridgeSourceId(order.source);
+    if (!isSupportedBridgeProtocol(protocol)) {
+        throw new Error(`Unsupported bridge protocol: ${protocol}`);
+    }
+    return { protocol, name, data: decodeBridgeData(protocol, order.bridgeData) } as DecodedBridgeData;
+}
+
+function getBridgeDataEncoder(protocol: SupportedBridgeProtocol): AbiEncoder.DataType {
+    if (!isSupportedBridgeProtocol(protocol)) {
+        throw new Error(`Unsupported bridge protocol: ${protocol}`);
+    }
+    return AbiEncoder.create(BRIDGE_DATA_ABIS[protocol]);
+}
@@ -0,0 +1,242 @@
+import { IZeroExContract } from '@0x/contract-wrappers';
+import { AbiEncoder, BigNumber, hexUtils } from '@0x/utils';
+import { DataItem, MethodAbi } from 'ethereum-types';
+
+import { MetaTransaction } from './meta_transactions';
+import { MetaTransactionV2 } from './meta_transactions_v2';
+import {
+    BatchSellSubcall,
+    decodeBatchSellSubcall,
+    DecodedBatchSellSubcall,
+    decodeMultiplexSubcallData,
+    MultiHopSellSubcall,
+    MultiplexSubcallData,
+} from './multiplex_utils';
+import { ERC1155Order, ERC1155OrderFields, ERC721Order, ERC721OrderFields } from './nft_orders';
+import { LimitOrder, LimitOrderFields, OtcOrder, OtcOrderFields, RfqOrder, RfqOrderFields } from './orders';
+import { Signature, SIGNATURE_ABI } from './signature_utils';
+
+/**
+ * A decoded argument of an Exchange Proxy function. Orders, meta-transactions,
+ * signatures and multiplex subcalls are decoded into their protocol-utils types.
+ * Multiplex subcalls whose data can't be decoded are left raw. Other structs
+ * are decoded into plain objects.
+ */
+export type DecodedCallArgument =
+    | string
+    | boolean
+    | BigNumber
+    | LimitOrder
+    | RfqOrder
+    | OtcOrder
+    | ERC721Order
+    | ERC1155Order
+    | MetaTransaction
+    | MetaTransactionV2
+    | Signature
+    | MultiplexSubcallData
+    | DecodedBatchSellSubcall
+    | MultiHopSellSubcall
+    | BatchSellSubcall
+    | DecodedCallArgument[]
+    | { [name: string]: DecodedCallArgument };
+
+/**
+ * A decoded call to the Exchange Proxy.
+ */
+export interface DecodedExchangeProxyCall {
+    selector: string;
+    signature: string;
+    functionName: string;
+    args: { [name: string]: DecodedCallArgument };
+    // The decoded `callData` of each meta-transaction in `args`, in order.
+    innerCalls: Array<DecodedExchangeProxyCall | UndecodedExchangeProxyCall>;
+}
+
+/**
+ * The `callData` of a meta-transaction that could not be decoded, such as
+ * empty calldata or a call to a function that is not part of `IZeroEx`.
+ */
+export interface UndecodedExchangeProxyCall {
+    callData: string;
+    error: string;
+}
+
+/**
+ * The EIP712 domain of decoded orders and meta-transactions, which is not part
+ * of the calldata.
+ */
+export interface ExchangeProxyDomain {
+    chainId: number;
+    verifyingContract: string;
+}
+
+interface ExchangeProxyMethod {
+    abi: MethodAbi;
+    encoder: AbiEncoder.Method;
+}
+
+let exchangeProxyMethodsBySelector: { [selector: string]: ExchangeProxyMethod } | undefined;
+
+/**
+ * Get the signature of an Exchange Proxy function by its selector, or
+ * `undefined` if it is not part of `IZeroEx`.
+ */
+export function getExchangeProxyFunctionSignature(selector: string): string | undefined {
+    const method = getExchangeProxyMethods()[selector.toLowerCase()];
+    return method ? method.encoder.getSignature() : undefined;
+}
+
+/**
+ * Decode calldata sent to the Exchange Proxy. The `callData` of meta-transactions
+ * is decoded recursively into `innerCalls`, or recorded as undecoded if it can't
+ * be. Throws if the selector is not part of `IZeroEx` or the calldata is malformed.
+ */
+export function decodeExchangeProxyCallData(
+    callData: string,
+    domain: Partial<ExchangeProxyDomain> = {},
+): DecodedExchangeProxyCall {
+    const selector = hexUtils.slice(callData, 0, 4).toLowerCase();
+    const method = getExchangeProxyMethods()[selector];
+    if (!method) {
+        throw new Error(`Unknown Exchange Proxy function selector: ${selector}`);
+    }
+    const rawArgs = method.encoder.decode(callData) as { [name: string]: unknown };
+    const innerCalls: DecodedExchangeProxyCall['innerCalls'] = [];
+    const args: DecodedExchangeProxyCall['args'] = {};
+    for (const input of method.abi.inputs) {
+        args[input.name] = decodeArgument(input, rawArgs[input.name], domain, innerCalls);
+    }
+    return {
+        selector,
+        signature: method.encoder.getSignature(),
+        functionName: method.abi.name,
+        args,
+        innerCalls,
+    };
+}
+
+function getExchangeProxyMethods(): { [selector: string]: ExchangeProxyMethod } {
+    if (!exchangeProxyMethodsBySelector) {
+        exchangeProxyMethodsBySelector = {};
+        for (const abi of IZeroExContract.ABI()) {
+            if (abi.type === 'function') {
+                const encoder = new AbiEncoder.Method(abi as MethodAbi);
+                exchangeProxyMethodsBySelector[encoder.getSelector()] = { abi: abi as MethodAbi, encoder };
+            }
+        }
+    }
+    return exchangeProxyMethodsBySelector;
+}
+
+function decodeArgument(
+    item: DataItem,
+    value: unknown,
+    domain: Partial<ExchangeProxyDomain>,
+    innerCalls: DecodedExchangeProxyCall['innerCalls'],
+): DecodedCallArgument {
+    const arrayMatch = /^(.+)\[\d*\]$/.exec(item.type);
+    if (arrayMatch) {
+        const elementItem = { ...item, type: arrayMatch[1] };
+        return (value as unknown[]).map(v => decodeArgument(elementItem, v, domain, innerCalls));
+    }
+    if (item.type !== 'tuple') {
+        return value as string | boolean | BigNumber;
+    }
+    const fields: { [name: string]: DecodedCallArgument } = {};
+    for (const component of item.components || []) {
+        fields[component.name] = decodeArgument(
+            component,
+            (value as { [name: string]: unknown })[component.name],
+            domain,
+            innerCalls,
+        );
+    }
+    return decodeStruct(item.components || [], fields, domain, innerCalls);
+}
+
+// Identifies well-known structs by their field names.
+function decodeStruct(
+    components: DataItem[],
+    fields: { [name: string]: DecodedCallArgument },
+    domain: Partial<ExchangeProxyDomain>,
+    innerCalls: DecodedExchangeProxyCall['innerCalls'],
+): DecodedCallArgument {
+    switch (getFieldNames(components)) {
+        case getFieldNames(LimitOrder.STRUCT_ABI):
+            return new LimitOrder({ ...(fields as Partial<LimitOrderFields>), ...domain });
+        case getFieldNames(RfqOrder.STRUCT_ABI):
+            return new RfqOrder({ ...(fields as Partial<RfqOrderFields>), ...domain });
+        case getFieldNames(OtcOrder.STRUCT_ABI):
+            return new OtcOrder({ ...(fields as Partial<OtcOrderFields>), ...domain });
+        case getFieldNames(ERC721Order.STRUCT_ABI):
+            return new ERC721Order({
+                ...(fields as Partial<ERC721OrderFields>),
+                direction: toNumber(fields.direction),
+                ...domain,
+            });
+        case getFieldNames(ERC1155Order.STRUCT_ABI):
+            return new ERC1155Order({
+                ...(fields as Partial<ERC1155OrderFields>),
+                direction: toNumber(fields.direction),
+                ...domain,
+            });
+        case getFieldNames(MetaTransaction.STRUCT_ABI): {
+            const mtx = new MetaTransaction({ ...(fields as Partial<MetaTransaction>), ...domain });
+            innerCalls.push(decodeInnerCallData(mtx.callData, domain));
+            return mtx;
+        }
+        case getFieldNames(MetaTransactionV2.MTX_STRUCT_ABI): {
+            const mtx = new MetaTransactionV2({ ...(fields as Partial<MetaTransactionV2>), ...domain });
+            innerCalls.push(decodeInnerCallData(mtx.callData, domain));
+            return mtx;
+        }
+        case getFieldNames(SIGNATURE_ABI):
+            return {
+                ...(fields as Partial<Signature>),
+                signatureType: toNumber(fields.signatureType),
+                v: toNumber(fields.v),
+            } as Signature;
+        case 'id,data': {
+            const subcall = { ...(fields as Partial<MultiHopSellSubcall>), id: toNumber(fields.id) };
+            return decodeSubcallOrRaw(decodeMultiplexSubcallData, subcall as MultiHopSellSubcall);
+        }
+        case 'id,sellAmount,data': {
+            const subcall = { ...(fields as Partial<BatchSellSubcall>), id: toNumber(fields.id) };
+            return decodeSubcallOrRaw(decodeBatchSellSubcall, subcall as BatchSellSubcall);
+        }
+        default:
+            return fields;
+    }
+}
+
+function decodeInnerCallData(
+    callData: string,
+    domain: Partial<ExchangeProxyDomain>,
+): DecodedExchangeProxyCall | UndecodedExchangeProxyCall {
+    try {
+        return decodeExchangeProxyCallData(callData, domain);
+    } catch (err) {
+        return { callData, error: err.message };
+    }
+}
+
+// Unknown subcall IDs and malformed subcall data are returned undecoded.
+function decodeSubcallOrRaw<TSubcall extends MultiHopSellSubcall>(
+    decode: (subcall: TSubcall) => DecodedCallArgument,
+    subcall: TSubcall,
+): DecodedCallArgument {
+    try {
+        return decode(subcall);
+    } catch (err) {
+        return subcall;
+    }
+}
+
+function getFieldNames(components: Array<{ name: string }>): string {
+    return components.map(c => c.name).join(',');
+}
+
+function toNumber(value: DecodedCallArgument): number {
+    return new BigNumber(value as BigNumber).toNumber();
+}
@@ -0,0 +1,272 @@
+import { AbiEncoder, BigNumber } from '@0x/utils';
+import { DataItem } from 'ethereum-types';
+
+import { ZERO } from './constants';
+import { LimitOrder, NativeOrder, RfqOrder } from './orders';
+import { CancelSaltTooLowError } from './revert-errors/native_orders';
+
+export enum CancellationOrderType {
+    Limit,
+    Rfq,
+}
+
+/**
+ * A pair-level cancellation, which invalidates every order of the maker for
+ * the token pair with a salt lower than `minValidSalt`.
+ */
+export interface PairCancellation {
+    orderType: CancellationOrderType;
+    makerToken: string;
+    takerToken: string;
+    minValidSalt: BigNumber;
+}
+
+/**
+ * Rough gas costs used to compare cancellation strategies.
+ */
+export interface CancellationGasCosts {
+    perTransaction: number;
+    // Cancelling an order by hash.
+    perOrder: number;
+    // Bumping the minimum valid salt of a pair.
+    perPair: number;
+}
+
+export const DEFAULT_CANCELLATION_GAS_COSTS: CancellationGasCosts = {
+    perTransaction: 21e3,
+    perOrder: 30e3,
+    perPair: 26e3,
+};
+
+export interface CancellationPlannerOpts {
+    // The maker whose orders are cancelled. Defaults to the maker of the first order.
+    maker: string;
+    // Who sends the cancellations. Must be the maker or a signer registered
+    // via `registerAllowedOrderSigner()`. Defaults to the maker.
+    sender: string;
+    // Open orders of the maker that should stay fillable.
+    openOrders: NativeOrder[];
+    // Pair-level cancellations to perform regardless of `orders`.
+    pairCancellations: PairCancellation[];
+    // The minimum valid salts currently on chain. Unlisted pairs are assumed to be zero.
+    currentMinValidSalts: PairCancellation[];
+    // Whether a pair-level cancellation may also invalidate `openOrders`.
+    allowCollateralCancellations: boolean;
+    gasCosts: CancellationGasCosts;
+}
+
+/**
+ * A call to the Exchange Proxy.
+ */
+export interface CancellationCall {
+    functionName: string;
+    callData: string;
+}
+
+export interface CancellationPlan {
+    calls: CancellationCall[];
+    // Orders cancelled by hash.
+    orderCancellations: NativeOrder[];
+    // Pair-level cancellations, including those covering `orders`.
+    pairCancellations: PairCancellation[];
+    // Open orders the pair-level cancellations will also invalidate.
+    collateralOrders: NativeOrder[];
+    // Orders already invalidated by the current minimum valid salt.
+    alreadyCancelledOrders: NativeOrder[];
+    // Requested pair-level cancellations that would revert, and were left out.
+    conflicts: CancelSaltTooLowError[];
+    estimatedGas: number;
+}
+
+interface PairState {
+    pair: Omit<PairCancellation, 'minValidSalt'>;
+    currentMinValidSalt: BigNumber;
+    requestedMinValidSalt?: BigNumber;
+    orders: NativeOrder[];
+}
+
+/**
+ * Plan the cheapest set of calls that cancels `orders`. Orders of a token pair
+ * are either cancelled by hash or all at once by bumping the pair's minimum
+ * valid salt, whichever costs less gas, unless bumping the salt would also
+ * invalidate `openOrders`.
+ */
+export function planOrderCancellations(
+    orders: NativeOrder[],
+    opts: Partial<CancellationPlannerOpts> = {},
+): CancellationPlan {
+    const maker = opts.maker || (orders.length ? orders[0].maker : opts.sender);
+    if (!maker) {
+        throw new Error('Cannot determine the maker to cancel orders for');
+    }
+    const { sender, openOrders, pairCancellations, currentMinValidSalts, allowCollateralCancellations, gasCosts } = {
+        sender: maker,
+        openOrders: [],
+        pairCancellations: [],
+        currentMinValidSalts: [],
+        allowCollateralCancellations: false,
+        gasCosts: DEFAULT_CANCELLATION_GAS_COSTS,
+        ...opts,
+    };
+    for (const order of [...orders, ...openOrders]) {
+        if (order.maker.toLowerCase() !== maker.toLowerCase()) {
+            throw new Error(`Order ${order.getHash()} is not from maker ${maker}`);
+        }
+    }
+
+    const pairStates: { [key: string]: PairState } = {};
+    const getPairState = (pair: Omit<PairCancellation, 'minValidSalt'>): PairState => {
+        const key = getPairKey(pair);
+        if (!pairStates[key]) {
+            const current = currentMinValidSalts.find(c => getPairKey(c) === key);
+            pairStates[key] = {
+                pair: { orderType: pair.orderType, makerToken: pair.makerToken, takerToken: pair.takerToken },
+                currentMinValidSalt: current ? current.minValidSalt : ZERO,
+                orders: [],
+            };
+        }
+        return pairStates[key];
+    };
+
+    const plan: CancellationPlan = {
+        calls: [],
+        orderCancellations: [],
+        pairCancellations: [],
+        collateralOrders: [],
+        alreadyCancelledOrders: [],
+        conflicts: [],
+        estimatedGas: 0,
+    };
+    for (const { minValidSalt, ...pair } of pairCancellations) {
+        const state = getPairState(pair);
+        if (minValidSalt.isLessThan(state.currentMinValidSalt)) {
+            plan.conflicts.push(new CancelSaltTooLowError(minValidSalt, state.currentMinValidSalt));
+        } else if (
+            minValidSalt.isGreaterThan(BigNumber.max(state.currentMinValidSalt, state.requestedMinValidSalt || 0))
+        ) {
+            state.requestedMinValidSalt = minValidSalt;
+        }
+    }
+    for (const order of orders) {
+        const state = getPairState(getOrderPair(order));
+        if (order.salt.isLessThan(state.currentMinValidSalt)) {
+            plan.alreadyCancelledOrders.push(order);
+        } else if (!state.requestedMinValidSalt || order.salt.isGreaterThanOrEqualTo(state.requestedMinValidSalt)) {
+            state.orders.push(order);
+        }
+    }
+
+    const cancelledHashes = new Set(orders.map(o => o.getHash()));
+    for (const state of Object.values(pairStates)) {
+        const orderSalts = state.orders.map(o => o.salt);
+        const bumpedMinValidSalt = BigNumber.max(state.requestedMinValidSalt || 0, ...orderSalts.map(s => s.plus(1)));
+        const getCollateralOrders = (minValidSalt: BigNumber) =>
+            openOrders.filter(
+                o =>
+                    getPairKey(getOrderPair(o)) === getPairKey(state.pair) &&
+                    !cancelledHashes.has(o.getHash()) &&
+                    o.salt.isGreaterThanOrEqualTo(state.currentMinValidSalt) &&
+                    o.salt.isLessThan(minValidSalt),
+            );
+        const requestedCollateral = state.requestedMinValidSalt ? getCollateralOrders(state.requestedMinValidSalt) : [];
+        const bumpedCollateral = getCollateralOrders(bumpedMinValidSalt);
+        // A requested pair cancellation can be raised to cover the orders for free.
+        const pairCost = state.requestedMinValidSalt ? 0 : gasCosts.perPair;
+        const shouldBumpSalt =
+            state.orders.length > 0 &&
+            pairCost < gasCosts.perOrder * state.orders.length &&
+            (allowCollateralCancellations || bumpedCollateral.length === requestedCollateral.length);
+        if (shouldBumpSalt) {
+            plan.pairCancellations.push({ ...state.pair, minValidSalt: bumpedMinValidSalt });
+            plan.collateralOrders.push(...bumpedCollateral);
+        } else {
+            plan.orderCancellations.push(...state.orders);
+            if (state.requestedMinValidSalt) {
+                plan.pairCancellations.push({ ...state.pair, minValidSalt: state.requestedMinValidSalt });
+                plan.collateralOrders.push(...requestedCollateral);
+            }
+        }
+    }
+
+    for (const orderType of [CancellationOrderType.Limit, CancellationOrderType.Rfq]) {
+        const orderCancellations = plan.orderCancellations.filter(o => getOrderPair(o).orderType === orderType);
+        if (orderCancellations.length) {
+            plan.calls.push(encodeOrderCancellations(orderType, orderCancellations));
+        }
+        const pairCancellationsOfType = plan.pairCancellations.filter(p => p.orderType === orderType);
+        if (pairCancellationsOfType.length) {
+            plan.calls.push(encodePairCancellations(orderType, pairCancellationsOfType, maker, sender));
+        }
+    }
+    plan.estimatedGas =
+        gasCosts.perTransaction * plan.calls.length +
+        gasCosts.perOrder * plan.orderCancellations.length +
+        gasCosts.perPair * plan.pairCancellations.length;
+    return plan;
+}
+
+const ORDER_TYPE_NAMES = {
+    [CancellationOrderType.Limit]: 'Limit',
+    [CancellationOrderType.Rfq]: 'Rfq',
+};
+
+function encodeOrderCancellations(orderType: CancellationOrderType, orders: NativeOrder[]): CancellationCall {
+    const components = orderType === CancellationOrderType.Limit ? LimitOrder.STRUCT_ABI : RfqOrder.STRUCT_ABI;
+    const orderTypeName = ORDER_TYPE_NAMES[orderType];
+    if (orders.length === 1) {
+        const functionName = `cancel${orderTypeName}Order`;
+        const encoder = AbiEncoder.createMethod(functionName, [{ name: 'order', type: 'tuple', components }]);
+        return { functionName, callData: encoder.encode([orders[0]]) };
+    }
+    const functionName = `batchCancel${orderTypeName}Orders`;
+    const encoder = AbiEncoder.createMethod(functionName, [{ name: 'orders', type: 'tuple[]', components }]);
+    return { functionName, callData: encoder.encode([orders]) };
+}
+
+function encodePairCancellations(
+    orderType: CancellationOrderType,
+    pairCancellations: PairCancellation[],
+    maker: string,
+    sender: string,
+): CancellationCall {
+    const isBatch = pairCancellations.length > 1;
+    // Signers cancel on behalf of the maker with the `...WithSigner()` variants.
+    const isSigner = sender.toLowerCase() !== maker.toLowerCase();
+    const functionName = [
+        isBatch ? 'batchCancelPair' : 'cancelPair',
+        ORDER_TYPE_NAMES[orderType],
+        'Orders',
+        isSigner ? 'WithSigner' : '',
+    ].join('');
+    const suffix = isBatch ? 's' : '';
+    const arraySuffix = isBatch ? '[]' : '';
+    const params: DataItem[] = [
+        { name: `makerToken${suffix}`, type: `address${arraySuffix}` },
+        { name: `takerToken${suffix}`, type: `address${arraySuffix}` },
+        { name: `minValidSalt${suffix}`, type: `uint256${arraySuffix}` },
+    ];
+    const args: unknown[] = isBatch
+        ? [
+              pairCancellations.map(p => p.makerToken),
+              pairCancellations.map(p => p.takerToken),
+              pairCancellations.map(p => p.minValidSalt),
+          ]
+        : [pairCancellations[0].makerToken, pairCancellations[0].takerToken, pairCancellations[0].minValidSalt];
+    const encoder = AbiEncoder.createMethod(
+        functionName,
+        isSigner ? [{ name: 'maker', type: 'address' }, ...params] : params,
+    );
+    return { functionName, callData: encoder.encode(isSigner ? [maker, ...args] : args) };
+}
+
+function getOrderPair(order: NativeOrder): Omit<PairCancellation, 'minValidSalt'> {
+    return {
+        orderType: order instanceof LimitOrder ? CancellationOrderType.Limit : CancellationOrderType.Rfq,
+        makerToken: order.makerToken,
+        takerToken: order.takerToken,
+    };
+}
+
+function getPairKey(pair: Omit<PairCancellation, 'minValidSalt'>): string {
+    return [pair.orderType, pair.makerToken.toLowerCase(), pair.takerToken.toLowerCase()].join(':');
+}
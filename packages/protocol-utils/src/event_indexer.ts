@@ -0,0 +1,362 @@
+import { getContractAddressesForChainOrThrow } from '@0x/contract-addresses';
+import {
+    IZeroExContract,
+    IZeroExERC1155OrderFilledEventArgs,
+    IZeroExERC721OrderFilledEventArgs,
+    IZeroExEventArgs,
+    IZeroExEvents,
+    IZeroExLimitOrderFilledEventArgs,
+    IZeroExOtcOrderFilledEventArgs,
+    IZeroExRfqOrderFilledEventArgs,
+} from '@0x/contract-wrappers';
+import { AbiDecoder, BigNumber } from '@0x/utils';
+import { Web3Wrapper } from '@0x/web3-wrapper';
+import { LogWithDecodedArgs, SupportedProvider } from 'ethereum-types';
+
+import { ZERO } from './constants';
+import { TradeDirection } from './nft_orders';
+
+/**
+ * A block the indexer has processed.
+ */
+export interface IndexedBlock {
+    blockNumber: number;
+    blockHash: string;
+}
+
+/**
+ * Indexer progress.
+ */
+export interface EventIndexerCheckpoint {
+    // The last block indexed.
+    blockNumber: number;
+    // Recently indexed blocks, oldest first, checked against the chain to
+    // detect reorgs.
+    recentBlocks: IndexedBlock[];
+}
+
+/**
+ * Persists the progress of an `ExchangeProxyEventIndexer`.
+ */
+export interface EventIndexerCheckpointStore {
+    getCheckpointAsync(): Promise<EventIndexerCheckpoint | undefined>;
+    setCheckpointAsync(checkpoint: EventIndexerCheckpoint): Promise<void>;
+}
+
+/**
+ * An `EventIndexerCheckpointStore` that does not outlive the process.
+ */
+export class InMemoryEventIndexerCheckpointStore implements EventIndexerCheckpointStore {
+    protected _checkpoint?: EventIndexerCheckpoint;
+
+    public async getCheckpointAsync(): Promise<EventIndexerCheckpoint | undefined> {
+        return this._checkpoint;
+    }
+
+    public async setCheckpointAsync(checkpoint: EventIndexerCheckpoint): Promise<void> {
+        this._checkpoint = checkpoint;
+    }
+}
+
+export enum FillOrderType {
+    Limit,
+    Rfq,
+    Otc,
+    ERC721,
+    ERC1155,
+}
+
+/**
+ * A fill of any order type, from the maker's point of view.
+ */
+export interface NormalizedFill {
+    orderType: FillOrderType;
+    // Not emitted for NFT orders, which are identified by `maker` and `nonce`.
+    orderHash?: string;
+    nonce?: BigNumber;
+    maker: string;
+    taker: string;
+    makerToken: string;
+    takerToken: string;
+    makerTokenFilledAmount: BigNumber;
+    takerTokenFilledAmount: BigNumber;
+    // The NFT token ID, for NFT orders.
+    tokenId?: BigNumber;
+    // Only limit orders report fees in their fill events.
+    takerTokenFeeFilledAmount: BigNumber;
+    protocolFeePaid: BigNumber;
+    blockNumber: number;
+    transactionHash: string;
+    logIndex: number;
+}
+
+/**
+ * Logs of a block range, in the order they were emitted.
+ */
+export interface IndexedLogBatch {
+    fromBlock: number;
+    toBlock: number;
+    logs: Array<LogWithDecodedArgs<IZeroExEventArgs>>;
+    // Fills of every order type in `logs`.
+    fills: NormalizedFill[];
+}
+
+/**
+ * Consumes indexed Exchange Proxy logs.
+ */
+export interface ExchangeProxyEventHandler {
+    // Called with each indexed block range, in order.
+    handleBatchAsync(batch: IndexedLogBatch): Promise<void>;
+    // Called when blocks after `blockNumber` were reorged out. Anything
+    // handled for those blocks must be discarded.
+    rollbackAsync(blockNumber: number): Promise<void>;
+}
+
+export interface ExchangeProxyEventIndexerOpts {
+    // Defaults to the Exchange Proxy deployed on `chainId`.
+    exchangeProxyAddress: string;
+    chainId: number;
+    // Events to index. Defaults to every `IZeroEx` event.
+    events: IZeroExEvents[];
+    // The first block to index when there is no checkpoint.
+    fromBlock: number;
+    // Only index blocks at least this many blocks behind the latest block.
+    confirmations: number;
+    // How many blocks back reorgs can be detected and rolled back.
+    maxReorgDepth: number;
+    // The most blocks to fetch logs for at once.
+    maxBlockRange: number;
+    store: EventIndexerCheckpointStore;
+}
+
+const DEFAULT_EVENT_INDEXER_OPTS = {
+    chainId: 1,
+    events: Object.values(IZeroExEvents),
+    fromBlock: 0,
+    confirmations: 0,
+    maxReorgDepth: 64,
+    maxBlockRange: 2000,
+};
+
+/**
+ * Indexes Exchange Proxy events into an `ExchangeProxyEventHandler`,
+ * rolling back blocks that get reorged out.
+ */
+export class ExchangeProxyEventIndexer {
+    public readonly exchangeProxyAddress: string;
+    private readonly _web3Wrapper: Web3Wrapper;
+    private readonly _abiDecoder = new AbiDecoder([IZeroExContract.ABI()]);
+    private readonly _opts: Omit<ExchangeProxyEventIndexerOpts, 'exchangeProxyAddress'>;
+
+    constructor(
+        provider: SupportedProvider,
+        private readonly _handler: ExchangeProxyEventHandler,
+        opts: Partial<ExchangeProxyEventIndexerOpts> = {},
+    ) {
+        this._opts = { ...DEFAULT_EVENT_INDEXER_OPTS, store: new InMemoryEventIndexerCheckpointStore(), ...opts };
+        if (this._opts.maxBlockRange < 1 || this._opts.maxReorgDepth < 1) {
+            throw new Error('Block range and reorg depth must be positive');
+        }
+        this.exchangeProxyAddress = (
+            opts.exchangeProxyAddress || getContractAddressesForChainOrThrow(this._opts.chainId).exchangeProxy
+        ).toLowerCase();
+        this._web3Wrapper = new Web3Wrapper(provider);
+    }
+
+    /**
+     * Index confirmed blocks up to the latest block, after rolling back any
+     * reorged blocks. Returns the last block indexed, if any.
+     */
+    public async syncAsync(): Promise<number | undefined> {
+        const { store, confirmations, maxBlockRange } = this._opts;
+        let checkpoint = await store.getCheckpointAsync();
+        if (checkpoint) {
+            checkpoint = await this._rollBackReorgedBlocksAsync(checkpoint);
+        }
+        const lastBlock = (await this._web3Wrapper.getBlockNumberAsync()) - confirmations;
+        let fromBlock = checkpoint ? checkpoint.blockNumber + 1 : this._opts.fromBlock;
+        while (fromBlock <= lastBlock) {
+            const toBlock = Math.min(fromBlock + maxBlockRange - 1, lastBlock);
+            const logs = await this._getLogsAsync(fromBlock, toBlock);
+            // Remember the blocks logs came from, so they get rolled back if reorged out.
+            const newBlocks: IndexedBlock[] = logs.map(log => ({
+                blockNumber: log.blockNumber as number,
+                blockHash: log.blockHash as string,
+            }));
+            newBlocks.push(await this._getIndexedBlockAsync(toBlock));
+            await this._handler.handleBatchAsync({
+                fromBlock,
+                toBlock,
+                logs,
+                fills: logs.map(normalizeFillLog).filter((f): f is NormalizedFill => f !== undefined),
+            });
+            checkpoint = {
+                blockNumber: toBlock,
+                recentBlocks: this._pruneRecentBlocks([...(checkpoint ? checkpoint.recentBlocks : []), ...newBlocks]),
+            };
+            await store.setCheckpointAsync(checkpoint);
+            fromBlock = toBlock + 1;
+        }
+        return checkpoint && checkpoint.blockNumber;
+    }
+
+    private async _rollBackReorgedBlocksAsync(checkpoint: EventIndexerCheckpoint): Promise<EventIndexerCheckpoint> {
+        const { recentBlocks } = checkpoint;
+        if (recentBlocks.length === 0) {
+            return checkpoint;
+        }
+        for (let i = recentBlocks.length - 1; i >= 0; --i) {
+            const block = await this._web3Wrapper.getBlockIfExistsAsync(recentBlocks[i].blockNumber);
+            if (block && block.hash === recentBlocks[i].blockHash) {
+                // Every block up to a canonical block is canonical.
+                if (i === recentBlocks.length - 1) {
+                    return checkpoint;
+                }
+                const rolledBack = {
+                    blockNumber: recentBlocks[i].blockNumber,
+                    recentBlocks: recentBlocks.slice(0, i + 1),
+                };
+                await this._handler.rollbackAsync(rolledBack.blockNumber);
+                await this._opts.store.setCheckpointAsync(rolledBack);
+                return rolledBack;
+            }
+        }
+        throw new Error(`Reorg deeper than ${this._opts.maxReorgDepth} blocks after block ${checkpoint.blockNumber}`);
+    }
+
+    private async _getLogsAsync(
+        fromBlock: number,
+        toBlock: number,
+    ): Promise<Array<LogWithDecodedArgs<IZeroExEventArgs>>> {
+        const rawLogs = await this._web3Wrapper.getLogsAsync({
+            address: this.exchangeProxyAddress,
+            fromBlock,
+            toBlock,
+        });
+        const logs: Array<LogWithDecodedArgs<IZeroExEventArgs>> = [];
+        for (const rawLog of rawLogs) {
+            const log = this._abiDecoder.tryToDecodeLogOrNoop<IZeroExEventArgs>(rawLog);
+            if ('event' in log && this._opts.events.includes(log.event as IZeroExEvents)) {
+                logs.push(log);
+            }
+        }
+        return logs;
+    }
+
+    private async _getIndexedBlockAsync(blockNumber: number): Promise<IndexedBlock> {
+        const block = await this._web3Wrapper.getBlockIfExistsAsync(blockNumber);
+        if (!block || !block.hash) {
+            throw new Error(`Block ${blockNumber} not found`);
+        }
+        return { blockNumber, blockHash: block.hash };
+    }
+
+    // Keep one entry per block, within `maxReorgDepth` of the last one.
+    private _pruneRecentBlocks(blocks: IndexedBlock[]): IndexedBlock[] {
+        const blocksByNumber: { [blockNumber: number]: IndexedBlock } = {};
+        for (const block of blocks) {
+            blocksByNumber[block.blockNumber] = block;
+        }
+        const lastBlockNumber = blocks[blocks.length - 1].blockNumber;
+        return Object.values(blocksByNumber)
+            .filter(b => b.blockNumber > lastBlockNumber - this._opts.maxReorgDepth)
+            .sort((a, b) => a.blockNumber - b.blockNumber);
+    }
+}
+
+/**
+ * Convert a fill log of any order type into a `NormalizedFill`. Returns
+ * `undefined` for other logs.
+ */
+export function normalizeFillLog(log: LogWithDecodedArgs<IZeroExEventArgs>): NormalizedFill | undefined {
+    const common = {
+        takerTokenFeeFilledAmount: ZERO,
+        protocolFeePaid: ZERO,
+        blockNumber: log.blockNumber as number,
+        transactionHash: log.transactionHash,
+        logIndex: log.logIndex as number,
+    };
+    switch (log.event) {
+        case IZeroExEvents.LimitOrderFilled: {
+            const args = log.args as IZeroExLimitOrderFilledEventArgs;
+            return {
+                ...common,
+                ...pickNativeFillFields(args),
+                orderType: FillOrderType.Limit,
+                takerTokenFeeFilledAmount: args.takerTokenFeeFilledAmount,
+                protocolFeePaid: args.protocolFeePaid,
+            };
+        }
+        case IZeroExEvents.RfqOrderFilled:
+            return {
+                ...common,
+                ...pickNativeFillFields(log.args as IZeroExRfqOrderFilledEventArgs),
+                orderType: FillOrderType.Rfq,
+            };
+        case IZeroExEvents.OtcOrderFilled:
+            return {
+                ...common,
+                ...pickNativeFillFields(log.args as IZeroExOtcOrderFilledEventArgs),
+                orderType: FillOrderType.Otc,
+            };
+        case IZeroExEvents.ERC721OrderFilled: {
+            const args = log.args as IZeroExERC721OrderFilledEventArgs;
+            return {
+                ...common,
+                ...pickNftFillFields(args, args.erc721Token, new BigNumber(1), args.erc20TokenAmount),
+                orderType: FillOrderType.ERC721,
+                tokenId: args.erc721TokenId,
+            };
+        }
+        case IZeroExEvents.ERC1155OrderFilled: {
+            const args = log.args as IZeroExERC1155OrderFilledEventArgs;
+            return {
+                ...common,
+                ...pickNftFillFields(args, args.erc1155Token, args.erc1155FillAmount, args.erc20FillAmount),
+                orderType: FillOrderType.ERC1155,
+                tokenId: args.erc1155TokenId,
+            };
+        }
+        default:
+            return undefined;
+    }
+}
+
+function pickNativeFillFields(
+    args: IZeroExRfqOrderFilledEventArgs | IZeroExOtcOrderFilledEventArgs,
+): Pick<
+    NormalizedFill,
+    'orderHash' | 'maker' | 'taker' | 'makerToken' | 'takerToken' | 'makerTokenFilledAmount' | 'takerTokenFilledAmount'
+> {
+    return {
+        orderHash: args.orderHash,
+        maker: args.maker,
+        taker: args.taker,
+        makerToken: args.makerToken,
+        takerToken: args.takerToken,
+        makerTokenFilledAmount: args.makerTokenFilledAmount,
+        takerTokenFilledAmount: args.takerTokenFilledAmount,
+    };
+}
+
+function pickNftFillFields(
+    args: IZeroExERC721OrderFilledEventArgs | IZeroExERC1155OrderFilledEventArgs,
+    nftToken: string,
+    nftAmount: BigNumber,
+    erc20Amount: BigNumber,
+): Pick<
+    NormalizedFill,
+    'nonce' | 'maker' | 'taker' | 'makerToken' | 'takerToken' | 'makerTokenFilledAmount' | 'takerTokenFilledAmount'
+> {
+    // The maker sells the NFT for ERC20 tokens, or buys it with them.
+    const isSellingNft = new BigNumber(args.direction).isEqualTo(TradeDirection.SellNFT);
+    return {
+        nonce: args.nonce,
+        maker: args.maker,
+        taker: args.taker,
+        makerToken: isSellingNft ? nftToken : args.erc20Token,
+        takerToken: isSellingNft ? args.erc20Token : nftToken,
+        makerTokenFilledAmount: isSellingNft ? nftAmount : erc20Amount,
+        takerTokenFilledAmount: isSellingNft ? erc20Amount : nftAmount,
+    };
+}
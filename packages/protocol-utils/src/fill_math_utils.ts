@@ -0,0 +1,136 @@
+import { BigNumber } from '@0x/utils';
+
+import { ZERO } from './constants';
+import { LimitOrder, OtcOrder, RfqOrder } from './orders';
+
+/**
+ * Amounts filled when settling an order.
+ */
+export interface OrderFilledAmounts {
+    makerTokenFilledAmount: BigNumber;
+    takerTokenFilledAmount: BigNumber;
+}
+
+/**
+ * Amounts filled when settling a limit order, including the taker token fee
+ * paid to the fee recipient.
+ */
+export interface LimitOrderFilledAmounts extends OrderFilledAmounts {
+    takerTokenFeeFilledAmount: BigNumber;
+}
+
+/**
+ * `LibMathV06.getPartialAmountFloor()`: `floor(numerator * target / denominator)`.
+ */
+export function getPartialAmountFloor(numerator: BigNumber, denominator: BigNumber, target: BigNumber): BigNumber {
+    return numerator.times(target).dividedToIntegerBy(denominator);
+}
+
+/**
+ * `LibMathV06.getPartialAmountCeil()`: `ceil(numerator * target / denominator)`.
+ */
+export function getPartialAmountCeil(numerator: BigNumber, denominator: BigNumber, target: BigNumber): BigNumber {
+    return numerator.times(target).plus(denominator.minus(1)).dividedToIntegerBy(denominator);
+}
+
+/**
+ * Compute the amounts `fillLimitOrder()` settles, given how much of the order
+ * has already been filled. The taker token fee is prorated by the taker
+ * token amount filled, rounding down.
+ */
+export function computeLimitOrderFilledAmounts(
+    order: LimitOrder,
+    takerTokenFillAmount: BigNumber = order.takerAmount,
+    takerTokenAlreadyFilledAmount: BigNumber = ZERO,
+): LimitOrderFilledAmounts {
+    const filledAmounts = settleNativeOrder(order, takerTokenFillAmount, takerTokenAlreadyFilledAmount);
+    return {
+        ...filledAmounts,
+        takerTokenFeeFilledAmount: getPartialAmountFloor(
+            filledAmounts.takerTokenFilledAmount,
+            order.takerAmount,
+            order.takerTokenFeeAmount,
+        ),
+    };
+}
+
+/**
+ * Compute the amounts `fillRfqOrder()` settles, given how much of the order
+ * has already been filled.
+ */
+export function computeRfqOrderFilledAmounts(
+    order: RfqOrder,
+    takerTokenFillAmount: BigNumber = order.takerAmount,
+    takerTokenAlreadyFilledAmount: BigNumber = ZERO,
+): OrderFilledAmounts {
+    return settleNativeOrder(order, takerTokenFillAmount, takerTokenAlreadyFilledAmount);
+}
+
+/**
+ * Compute the amounts `fillOtcOrder()` settles. OTC orders can only be filled once.
+ */
+export function computeOtcOrderFilledAmounts(
+    order: OtcOrder,
+    takerTokenFillAmount: BigNumber = order.takerAmount,
+): OrderFilledAmounts {
+    // A complete fill is settled for exactly the order amounts.
+    if (takerTokenFillAmount.isEqualTo(order.takerAmount)) {
+        return { makerTokenFilledAmount: order.makerAmount, takerTokenFilledAmount: order.takerAmount };
+    }
+    const takerTokenFilledAmount = BigNumber.min(takerTokenFillAmount, order.takerAmount);
+    return {
+        makerTokenFilledAmount: getPartialAmountFloor(takerTokenFilledAmount, order.takerAmount, order.makerAmount),
+        takerTokenFilledAmount,
+    };
+}
+
+/**
+ * Compute the maker token amount left to fill in a limit or RFQ order.
+ */
+export function getFillableMakerTokenAmount(
+    order: LimitOrder | RfqOrder,
+    takerTokenFilledAmount: BigNumber = ZERO,
+): BigNumber {
+    return getPartialAmountFloor(order.takerAmount.minus(takerTokenFilledAmount), order.takerAmount, order.makerAmount);
+}
+
+/**
+ * Compute the taker token amount a limit or RFQ order can actually be filled
+ * for, given the amount already filled and the maker's balance and allowance,
+ * mirroring `getLimitOrderRelevantState()` and `getRfqOrderRelevantState()`
+ * for a fillable order.
+ */
+export function getActualFillableTakerTokenAmount(
+    order: LimitOrder | RfqOrder,
+    makerBalance: BigNumber = order.makerAmount,
+    makerAllowance: BigNumber = order.makerAmount,
+    takerTokenFilledAmount: BigNumber = ZERO,
+): BigNumber {
+    if (order.makerAmount.isZero() || order.takerAmount.isZero()) {
+        return ZERO;
+    }
+    const fillableMakerTokenAmount = BigNumber.min(
+        getFillableMakerTokenAmount(order, takerTokenFilledAmount),
+        makerBalance,
+        makerAllowance,
+    );
+    return getPartialAmountCeil(fillableMakerTokenAmount, order.makerAmount, order.takerAmount);
+}
+
+// Mirrors `NativeOrdersSettlement._settleOrder()`.
+function settleNativeOrder(
+    order: LimitOrder | RfqOrder,
+    takerTokenFillAmount: BigNumber,
+    takerTokenAlreadyFilledAmount: BigNumber,
+): OrderFilledAmounts {
+    const takerTokenFilledAmount = BigNumber.min(
+        takerTokenFillAmount,
+        order.takerAmount.minus(takerTokenAlreadyFilledAmount),
+    );
+    const makerTokenFilledAmount = getPartialAmountFloor(takerTokenFilledAmount, order.takerAmount, order.makerAmount);
+    // Nothing is settled if either amount rounds down to zero.
+    if (takerTokenFilledAmount.isZero() || makerTokenFilledAmount.isZero()) {
+        return { makerTokenFilledAmount: ZERO, takerTokenFilledAmount: ZERO };
+    }
+    return { makerTokenFilledAmount, takerTokenFilledAmount };
+}
@@ -1,9 +1,19 @@
 import * as _RevertErrors from './revert-errors';
 export const RevertErrors = _RevertErrors;
 export const RevertError = _RevertErrors.RevertError;
+export const decodeExchangeProxyRevert = _RevertErrors.decodeExchangeProxyRevert;
 
-import { ERC1155Order, ERC721Order, OrderStatus, TradeDirection } from './nft_orders';
-export { ERC1155Order, ERC721Order };
+import {
+    ERC1155Order,
+    ERC1155OrderFields,
+    ERC721Order,
+    ERC721OrderFields,
+    Fee,
+    OrderStatus,
+    Property,
+    TradeDirection,
+} from './nft_orders';
+export { ERC1155Order, ERC1155OrderFields, ERC721Order, ERC721OrderFields, Fee, Property };
 export const NFTOrder = {
     OrderStatus,
     TradeDirection,
@@ -18,3 +28,19 @@ export * from './transformer_utils';
 export * from './constants';
 export * from './vip_utils';
 export * from './treasury_votes';
+export * from './multiplex_utils';
+export * from './order_serialization';
+export * from './order_validation';
+export * from './bridge_data_utils';
+export * from './transform_erc20_explainer';
+export * from './nft_property_utils';
+export * from './calldata_decoder';
+export * from './otc_nonce_manager';
+export * from './cancellation_planner';
+export * from './order_signer_registry';
+export * from './protocol_fee_utils';
+export * from './fill_math_utils';
+export * from './order_book';
+export * from './event_indexer';
+export * from './native_order_router';
+export * from './transform_erc20_builder';
@@ -1,6 +1,7 @@
 import { getContractAddressesForChainOrThrow } from '@0x/contract-addresses';
+import { SupportedProvider } from 'ethereum-types';
 import { EIP712TypedData } from '@0x/types';
-import { BigNumber, hexUtils, NULL_ADDRESS } from '@0x/utils';
+import { AbiEncoder, BigNumber, hexUtils, NULL_ADDRESS } from '@0x/utils';
 import { ZERO } from './constants';
 import {
     createExchangeProxyEIP712Domain,
@@ -8,6 +9,15 @@ import {
     getExchangeProxyEIP712Hash,
     getTypeHash,
 } from './eip712_utils';
+import {
+    eip712SignHashWithKey,
+    eip712SignTypedDataWithProviderAsync,
+    ethSignHashWithKey,
+    ethSignHashWithProviderAsync,
+    Signature,
+    SignatureType,
+    SIGNATURE_ABI,
+} from './signature_utils';
 
 export interface MetaTransactionV2Fee {
     recipient: string,
@@ -28,6 +38,8 @@ const MTX_DEFAULT_VALUES = {
 
 export type MetaTransactionV2Fields = typeof MTX_DEFAULT_VALUES;
 
+const MAX_UINT256 = new BigNumber(2).pow(256).minus(1);
+
 export class MetaTransactionV2 {
 	public static readonly FEE_STRUCT_NAME = 'MetaTransactionFeeData';
     public static readonly FEE_STRUCT_ABI = [
@@ -62,6 +74,21 @@ export class MetaTransactionV2 {
     public chainId: number;
     public verifyingContract: string;
 
+    /**
+     * Throws if a fee could not be encoded. Checked when signing or encoding,
+     * so fees can still be filled in after construction.
+     */
+    public static validateFees(fees: MetaTransactionV2Fee[]): void {
+        for (const fee of fees) {
+            if (!hexUtils.isHex(fee.recipient) || hexUtils.size(fee.recipient) !== 20) {
+                throw new Error(`Invalid fee recipient: "${fee.recipient}"`);
+            }
+            if (!fee.amount.isInteger() || fee.amount.isLessThan(0) || fee.amount.isGreaterThan(MAX_UINT256)) {
+                throw new Error(`Fee amount out of range: ${fee.amount.toString(10)}`);
+            }
+        }
+    }
+
     public constructor(fields: Partial<MetaTransactionV2Fields> = {}) {
         const _fields = { ...MTX_DEFAULT_VALUES, ...fields };
         this.signer = _fields.signer;
@@ -140,4 +167,102 @@ export class MetaTransactionV2 {
     public getHash(): string {
         return getExchangeProxyEIP712Hash(this.getStructHash(), this.chainId, this.verifyingContract);
     }
+
+    public getTotalFeeAmount(): BigNumber {
+        return BigNumber.sum(ZERO, ...this.fees.map(fee => fee.amount));
+    }
+
+    public async getSignatureWithProviderAsync(
+        provider: SupportedProvider,
+        type: SignatureType = SignatureType.EthSign,
+    ): Promise<Signature> {
+        MetaTransactionV2.validateFees(this.fees);
+        switch (type) {
+            case SignatureType.EIP712:
+                return eip712SignTypedDataWithProviderAsync(this.getEIP712TypedData(), this.signer, provider);
+            case SignatureType.EthSign:
+                return ethSignHashWithProviderAsync(this.getHash(), this.signer, provider);
+            default:
+                throw new Error(`Cannot sign with signature type: ${type}`);
+        }
+    }
+
+    public getSignatureWithKey(key: string, type: SignatureType = SignatureType.EthSign): Signature {
+        MetaTransactionV2.validateFees(this.fees);
+        switch (type) {
+            case SignatureType.EIP712:
+                return eip712SignHashWithKey(this.getHash(), key);
+            case SignatureType.EthSign:
+                return ethSignHashWithKey(this.getHash(), key);
+            default:
+                throw new Error(`Cannot sign with signature type: ${type}`);
+        }
+    }
+}
+
+/**
+ * ABI encoder for `IMetaTransactionsFeatureV2.executeMetaTransactionV2()`.
+ */
+export const executeMetaTransactionV2Encoder = AbiEncoder.createMethod('executeMetaTransactionV2', [
+    {
+        name: 'mtx',
+        type: 'tuple',
+        components: [
+            { name: 'signer', type: 'address' },
+            { name: 'sender', type: 'address' },
+            { name: 'expirationTimeSeconds', type: 'uint256' },
+            { name: 'salt', type: 'uint256' },
+            { name: 'callData', type: 'bytes' },
+            { name: 'feeToken', type: 'address' },
+            { name: 'fees', type: 'tuple[]', components: MetaTransactionV2.FEE_STRUCT_ABI },
+        ],
+    },
+    { name: 'signature', type: 'tuple', components: SIGNATURE_ABI },
+]);
+
+/**
+ * A signed `MetaTransactionV2`.
+ */
+export interface SignedMetaTransactionV2 {
+    mtx: MetaTransactionV2;
+    signature: Signature;
+}
+
+/**
+ * Encode the calldata for `IMetaTransactionsFeatureV2.executeMetaTransactionV2()`.
+ */
+export function encodeExecuteMetaTransactionV2CallData(mtx: MetaTransactionV2, signature: Signature): string {
+    MetaTransactionV2.validateFees(mtx.fees);
+    return executeMetaTransactionV2Encoder.encode({
+        mtx: {
+            signer: mtx.signer,
+            sender: mtx.sender,
+            expirationTimeSeconds: mtx.expirationTimeSeconds,
+            salt: mtx.salt,
+            callData: mtx.callData,
+            feeToken: mtx.feeToken,
+            fees: mtx.fees,
+        },
+        signature,
+    });
+}
+
+/**
+ * Decode the calldata for `IMetaTransactionsFeatureV2.executeMetaTransactionV2()`
+ * back into a `MetaTransactionV2` and its signature. The chain ID and verifying
+ * contract are not part of the calldata, so they must be provided if they differ
+ * from the defaults.
+ */
+export function decodeExecuteMetaTransactionV2CallData(
+    callData: string,
+    domain: Partial<Pick<MetaTransactionV2Fields, 'chainId' | 'verifyingContract'>> = {},
+): SignedMetaTransactionV2 {
+    const { mtx, signature } = executeMetaTransactionV2Encoder.decode(callData) as {
+        mtx: Omit<MetaTransactionV2Fields, 'chainId' | 'verifyingContract'>;
+        signature: Signature;
+    };
+    return {
+        mtx: new MetaTransactionV2({ ...mtx, ...domain }),
+        signature,
+    };
 }
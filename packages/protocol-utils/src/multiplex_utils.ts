@@ -0,0 +1,452 @@
+import { AbiEncoder, BigNumber } from '@0x/utils';
+
+import { OtcOrder, OtcOrderFields, RfqOrder, RfqOrderFields } from './orders';
+import { Signature, SIGNATURE_ABI } from './signature_utils';
+import { UniswapV3Path, uniswapV3PathUtils } from './vip_utils';
+
+/**
+ * `IMultiplexFeature.MultiplexSubcall`
+ */
+export enum MultiplexSubcall {
+    Invalid,
+    RFQ,
+    OTC,
+    UniswapV2,
+    UniswapV3,
+    LiquidityProvider,
+    TransformERC20,
+    BatchSell,
+    MultiHopSell,
+}
+
+/**
+ * `IMultiplexFeature.MultiHopSellSubcall`
+ */
+export interface MultiHopSellSubcall {
+    id: MultiplexSubcall;
+    data: string;
+}
+
+/**
+ * `IMultiplexFeature.BatchSellSubcall`
+ */
+export interface BatchSellSubcall extends MultiHopSellSubcall {
+    sellAmount: BigNumber;
+}
+
+/**
+ * Parameters for an RFQ subcall.
+ */
+export interface MultiplexRfqData {
+    order: RfqOrderFields;
+    signature: Signature;
+}
+
+/**
+ * Parameters for an OTC subcall.
+ */
+export interface MultiplexOtcData {
+    order: OtcOrderFields;
+    signature: Signature;
+}
+
+/**
+ * Parameters for a UniswapV2 (or Sushiswap) subcall.
+ */
+export interface MultiplexUniswapV2Data {
+    tokens: string[];
+    isSushi: boolean;
+}
+
+/**
+ * Parameters for a UniswapV3 subcall.
+ */
+export type MultiplexUniswapV3Data = UniswapV3Path;
+
+/**
+ * Parameters for a LiquidityProvider subcall.
+ */
+export interface MultiplexLiquidityProviderData {
+    provider: string;
+    auxiliaryData: string;
+}
+
+/**
+ * Parameters for a TransformERC20 subcall.
+ */
+export interface MultiplexTransformERC20Data {
+    transformations: Array<{
+        deploymentNonce: number;
+        data: string;
+    }>;
+}
+
+/**
+ * Parameters for a nested BatchSell subcall.
+ */
+export interface MultiplexBatchSellData {
+    calls: BatchSellSubcall[];
+}
+
+/**
+ * Parameters for a nested MultiHopSell subcall.
+ */
+export interface MultiplexMultiHopSellData {
+    tokens: string[];
+    calls: MultiHopSellSubcall[];
+}
+
+/**
+ * A multiplex subcall with its (unencoded) parameters.
+ */
+export type MultiplexSubcallData =
+    | { id: MultiplexSubcall.RFQ; data: MultiplexRfqData }
+    | { id: MultiplexSubcall.OTC; data: MultiplexOtcData }
+    | { id: MultiplexSubcall.UniswapV2; data: MultiplexUniswapV2Data }
+    | { id: MultiplexSubcall.UniswapV3; data: MultiplexUniswapV3Data }
+    | { id: MultiplexSubcall.LiquidityProvider; data: MultiplexLiquidityProviderData }
+    | { id: MultiplexSubcall.TransformERC20; data: MultiplexTransformERC20Data }
+    | { id: MultiplexSubcall.BatchSell; data: MultiplexBatchSellData }
+    | { id: MultiplexSubcall.MultiHopSell; data: MultiplexMultiHopSellData };
+
+/**
+ * A decoded `IMultiplexFeature.BatchSellSubcall`.
+ */
+export type DecodedBatchSellSubcall = MultiplexSubcallData & { sellAmount: BigNumber };
+
+const BATCH_SELL_SUBCALL_ABI_COMPONENTS = [
+    { name: 'id', type: 'uint8' },
+    { name: 'sellAmount', type: 'uint256' },
+    { name: 'data', type: 'bytes' },
+];
+
+const MULTI_HOP_SELL_SUBCALL_ABI_COMPONENTS = [
+    { name: 'id', type: 'uint8' },
+    { name: 'data', type: 'bytes' },
+];
+
+/**
+ * ABI encoder for the data of an RFQ subcall.
+ */
+export const multiplexRfqDataEncoder = AbiEncoder.create([
+    { name: 'order', type: 'tuple', components: RfqOrder.STRUCT_ABI },
+    { name: 'signature', type: 'tuple', components: SIGNATURE_ABI },
+]);
+
+/**
+ * ABI encoder for the data of an OTC subcall.
+ */
+export const multiplexOtcDataEncoder = AbiEncoder.create([
+    { name: 'order', type: 'tuple', components: OtcOrder.STRUCT_ABI },
+    { name: 'signature', type: 'tuple', components: SIGNATURE_ABI },
+]);
+
+/**
+ * ABI encoder for the data of a UniswapV2 subcall.
+ */
+export const multiplexUniswapV2DataEncoder = AbiEncoder.create([
+    { name: 'tokens', type: 'address[]' },
+    { name: 'isSushi', type: 'bool' },
+]);
+
+/**
+ * ABI encoder for the data of a LiquidityProvider subcall.
+ */
+export const multiplexLiquidityProviderDataEncoder = AbiEncoder.create([
+    { name: 'provider', type: 'address' },
+    { name: 'auxiliaryData', type: 'bytes' },
+]);
+
+/**
+ * ABI encoder for the data of a TransformERC20 subcall.
+ */
+export const multiplexTransformERC20DataEncoder = AbiEncoder.create([
+    {
+        name: 'transformations',
+        type: 'tuple[]',
+        components: [
+            { name: 'deploymentNonce', type: 'uint32' },
+            { name: 'data', type: 'bytes' },
+        ],
+    },
+]);
+
+/**
+ * ABI encoder for the data of a nested BatchSell subcall.
+ */
+export const multiplexBatchSellDataEncoder = AbiEncoder.create([
+    {
+        name: 'calls',
+        type: 'tuple[]',
+        components: BATCH_SELL_SUBCALL_ABI_COMPONENTS,
+    },
+]);
+
+/**
+ * ABI encoder for the data of a nested MultiHopSell subcall.
+ */
+export const multiplexMultiHopSellDataEncoder = AbiEncoder.create([
+    { name: 'tokens', type: 'address[]' },
+    {
+        name: 'calls',
+        type: 'tuple[]',
+        components: MULTI_HOP_SELL_SUBCALL_ABI_COMPONENTS,
+    },
+]);
+
+/**
+ * ABI-encode the data of an RFQ subcall.
+ */
+export function encodeMultiplexRfqData(data: MultiplexRfqData): string {
+    return multiplexRfqDataEncoder.encode(data);
+}
+
+/**
+ * ABI-decode the data of an RFQ subcall.
+ */
+export function decodeMultiplexRfqData(encoded: string): MultiplexRfqData {
+    return multiplexRfqDataEncoder.decode(encoded);
+}
+
+/**
+ * ABI-encode the data of an OTC subcall.
+ */
+export function encodeMultiplexOtcData(data: MultiplexOtcData): string {
+    return multiplexOtcDataEncoder.encode(data);
+}
+
+/**
+ * ABI-decode the data of an OTC subcall.
+ */
+export function decodeMultiplexOtcData(encoded: string): MultiplexOtcData {
+    return multiplexOtcDataEncoder.decode(encoded);
+}
+
+/**
+ * ABI-encode the data of a UniswapV2 subcall.
+ */
+export function encodeMultiplexUniswapV2Data(data: MultiplexUniswapV2Data): string {
+    return multiplexUniswapV2DataEncoder.encode(data);
+}
+
+/**
+ * ABI-decode the data of a UniswapV2 subcall.
+ */
+export function decodeMultiplexUniswapV2Data(encoded: string): MultiplexUniswapV2Data {
+    return multiplexUniswapV2DataEncoder.decode(encoded);
+}
+
+/**
+ * Encode the data of a UniswapV3 subcall, which is just a packed
+ * UniswapV3 path (token, uint24 fee, token, ...).
+ */
+export function encodeMultiplexUniswapV3Data(data: MultiplexUniswapV3Data): string {
+    return uniswapV3PathUtils.encode(data);
+}
+
+/**
+ * Decode the data of a UniswapV3 subcall.
+ */
+export function decodeMultiplexUniswapV3Data(encoded: string): MultiplexUniswapV3Data {
+    return uniswapV3PathUtils.decode(encoded);
+}
+
+/**
+ * ABI-encode the data of a LiquidityProvider subcall.
+ */
+export function encodeMultiplexLiquidityProviderData(data: MultiplexLiquidityProviderData): string {
+    return multiplexLiquidityProviderDataEncoder.encode(data);
+}
+
+/**
+ * ABI-decode the data of a LiquidityProvider subcall.
+ */
+export function decodeMultiplexLiquidityProviderData(encoded: string): MultiplexLiquidityProviderData {
+    return multiplexLiquidityProviderDataEncoder.decode(encoded);
+}
+
+/**
+ * ABI-encode the data of a TransformERC20 subcall.
+ */
+export function encodeMultiplexTransformERC20Data(data: MultiplexTransformERC20Data): string {
+    return multiplexTransformERC20DataEncoder.encode(data);
+}
+
+/**
+ * ABI-decode the data of a TransformERC20 subcall.
+ */
+export function decodeMultiplexTransformERC20Data(encoded: string): MultiplexTransformERC20Data {
+    const { transformations } = multiplexTransformERC20DataEncoder.decode(encoded);
+    return {
+        transformations: transformations.map((t: { deploymentNonce: BigNumber | number; data: string }) => ({
+            deploymentNonce: new BigNumber(t.deploymentNonce).toNumber(),
+            data: t.data,
+        })),
+    };
+}
+
+/**
+ * ABI-encode the data of a nested BatchSell subcall.
+ */
+export function encodeMultiplexBatchSellData(data: MultiplexBatchSellData): string {
+    return multiplexBatchSellDataEncoder.encode(data);
+}
+
+/**
+ * ABI-decode the data of a nested BatchSell subcall.
+ */
+export function decodeMultiplexBatchSellData(encoded: string): MultiplexBatchSellData {
+    return multiplexBatchSellDataEncoder.decode(encoded);
+}
+
+/**
+ * ABI-encode the data of a nested MultiHopSell subcall.
+ */
+export function encodeMultiplexMultiHopSellData(data: MultiplexMultiHopSellData): string {
+    return multiplexMultiHopSellDataEncoder.encode(data);
+}
+
+/**
+ * ABI-decode the data of a nested MultiHopSell subcall.
+ */
+export function decodeMultiplexMultiHopSellData(encoded: string): MultiplexMultiHopSellData {
+    return multiplexMultiHopSellDataEncoder.decode(encoded);
+}
+
+/**
+ * Encode the parameters of any multiplex subcall.
+ */
+export function encodeMultiplexSubcallData(subcall: MultiplexSubcallData): string {
+    switch (subcall.id) {
+        case MultiplexSubcall.RFQ:
+            return encodeMultiplexRfqData(subcall.data);
+        case MultiplexSubcall.OTC:
+            return encodeMultiplexOtcData(subcall.data);
+        case MultiplexSubcall.UniswapV2:
+            return encodeMultiplexUniswapV2Data(subcall.data);
+        case MultiplexSubcall.UniswapV3:
+            return encodeMultiplexUniswapV3Data(subcall.data);
+        case MultiplexSubcall.LiquidityProvider:
+            return encodeMultiplexLiquidityProviderData(subcall.data);
+        case MultiplexSubcall.TransformERC20:
+            return encodeMultiplexTransformERC20Data(subcall.data);
+        case MultiplexSubcall.BatchSell:
+            return encodeMultiplexBatchSellData(subcall.data);
+        case MultiplexSubcall.MultiHopSell:
+            return encodeMultiplexMultiHopSellData(subcall.data);
+        default:
+            throw new Error(`Unknown multiplex subcall: ${(subcall as { id: number }).id}`);
+    }
+}
+
+/**
+ * Decode the parameters of any multiplex subcall.
+ */
+export function decodeMultiplexSubcallData(subcall: MultiHopSellSubcall): MultiplexSubcallData {
+    switch (subcall.id) {
+        case MultiplexSubcall.RFQ:
+            return { id: subcall.id, data: decodeMultiplexRfqData(subcall.data) };
+        case MultiplexSubcall.OTC:
+            return { id: subcall.id, data: decodeMultiplexOtcData(subcall.data) };
+        case MultiplexSubcall.UniswapV2:
+            return { id: subcall.id, data: decodeMultiplexUniswapV2Data(subcall.data) };
+        case MultiplexSubcall.UniswapV3:
+            return { id: subcall.id, data: decodeMultiplexUniswapV3Data(subcall.data) };
+        case MultiplexSubcall.LiquidityProvider:
+            return { id: subcall.id, data: decodeMultiplexLiquidityProviderData(subcall.data) };
+        case MultiplexSubcall.TransformERC20:
+            return { id: subcall.id, data: decodeMultiplexTransformERC20Data(subcall.data) };
+        case MultiplexSubcall.BatchSell:
+            return { id: subcall.id, data: decodeMultiplexBatchSellData(subcall.data) };
+        case MultiplexSubcall.MultiHopSell:
+            return { id: subcall.id, data: decodeMultiplexMultiHopSellData(subcall.data) };
+        default:
+            throw new Error(`Unknown multiplex subcall: ${subcall.id}`);
+    }
+}
+
+/**
+ * Create a `MultiHopSellSubcall` from its parameters.
+ */
+export function createMultiHopSellSubcall(subcall: MultiplexSubcallData): MultiHopSellSubcall {
+    return {
+        id: subcall.id,
+        data: encodeMultiplexSubcallData(subcall),
+    };
+}
+
+/**
+ * Create a `BatchSellSubcall` from its parameters.
+ * `sellAmount` may be a fractional amount created by `encodeFractionalFillAmount()`.
+ */
+export function createBatchSellSubcall(subcall: MultiplexSubcallData, sellAmount: BigNumber): BatchSellSubcall {
+    return {
+        ...createMultiHopSellSubcall(subcall),
+        sellAmount,
+    };
+}
+
+/**
+ * Decode the parameters of a `BatchSellSubcall`.
+ */
+export function decodeBatchSellSubcall(subcall: BatchSellSubcall): DecodedBatchSellSubcall {
+    return {
+        ...decodeMultiplexSubcallData(subcall),
+        sellAmount: subcall.sellAmount,
+    };
+}
+
+const HIGH_BIT = new BigNumber(2).pow(255);
+const ONE_ETHER = new BigNumber('1e18');
+
+/**
+ * Encode a batch sell amount that is a fraction (between 0 and 1)
+ * of the batch sell's total `sellAmount`.
+ */
+export function encodeFractionalFillAmount(frac: number | BigNumber): BigNumber {
+    const _frac = new BigNumber(frac);
+    if (_frac.isNaN() || _frac.isLessThan(0) || _frac.isGreaterThan(1)) {
+        throw new Error(`Fractional fill amount must be between 0 and 1: ${frac}`);
+    }
+    return HIGH_BIT.plus(_frac.times(ONE_ETHER).integerValue());
+}
+
+/**
+ * Whether a batch sell amount was encoded as a fraction of the total `sellAmount`.
+ */
+export function isFractionalFillAmount(amount: BigNumber): boolean {
+    return amount.isGreaterThanOrEqualTo(HIGH_BIT);
+}
+
+/**
+ * Decode a fractional batch sell amount into a fraction of the total `sellAmount`.
+ * The fraction is capped at 1, as on-chain.
+ */
+export function decodeFractionalFillAmount(amount: BigNumber): BigNumber {
+    if (!isFractionalFillAmount(amount)) {
+        throw new Error(`Not a fractional fill amount: ${amount.toString(10)}`);
+    }
+    return BigNumber.min(amount.minus(HIGH_BIT), ONE_ETHER).div(ONE_ETHER);
+}
+
+/**
+ * Compute the actual amount a batch sell subcall will sell, mirroring
+ * `MultiplexFeature._normalizeSellAmount()`.
+ */
+export function normalizeBatchSellAmount(
+    rawAmount: BigNumber,
+    totalSellAmount: BigNumber,
+    soldAmount: BigNumber = new BigNumber(0),
+): BigNumber {
+    const remaining = totalSellAmount.minus(soldAmount);
+    if (remaining.isLessThan(0)) {
+        throw new Error('Sold amount exceeds total sell amount');
+    }
+    if (isFractionalFillAmount(rawAmount)) {
+        const fracAmount = totalSellAmount
+            .times(BigNumber.min(rawAmount.minus(HIGH_BIT), ONE_ETHER))
+            .dividedToIntegerBy(ONE_ETHER);
+        return BigNumber.min(fracAmount, remaining);
+    }
+    return BigNumber.min(rawAmount, remaining);
+}
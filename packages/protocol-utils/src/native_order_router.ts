@@ -0,0 +1,246 @@
+import { BigNumber, NULL_ADDRESS } from '@0x/utils';
+
+import { ZERO } from './constants';
+import {
+    computeLimitOrderFilledAmounts,
+    computeOtcOrderFilledAmounts,
+    computeRfqOrderFilledAmounts,
+    getPartialAmountCeil,
+    getPartialAmountFloor,
+    OrderFilledAmounts,
+} from './fill_math_utils';
+import { LimitOrder, OtcOrder, RfqOrder } from './orders';
+import { Signature } from './signature_utils';
+import {
+    encodeFillQuoteTransformerData,
+    FillQuoteTransformerBridgeOrder,
+    FillQuoteTransformerData,
+    FillQuoteTransformerOrderType,
+    FillQuoteTransformerSide,
+} from './transformer_utils';
+
+/**
+ * A signed native order that may be used to fill a route.
+ */
+export interface NativeOrderCandidate {
+    order: LimitOrder | RfqOrder | OtcOrder;
+    signature: Signature;
+    // Taker tokens the order can still be filled for, excluding taker token
+    // fees, e.g. from `getActualFillableTakerTokenAmount()`. Defaults to the
+    // order's `takerAmount`.
+    fillableTakerTokenAmount?: BigNumber;
+}
+
+export interface NativeOrderRouteOpts {
+    side: FillQuoteTransformerSide;
+    sellToken: string;
+    buyToken: string;
+    // Sell token amount to sell, or buy token amount to buy, depending on `side`.
+    fillAmount: BigNumber;
+    orders: NativeOrderCandidate[];
+    // Bridge quotes, which are filled at their quoted rate.
+    bridgeOrders: FillQuoteTransformerBridgeOrder[];
+    refundReceiver: string;
+}
+
+/**
+ * A leg of a route and the amounts it is expected to fill.
+ */
+export interface NativeOrderRouteLeg {
+    orderType: FillQuoteTransformerOrderType;
+    // Index into the matching orders array of the transform data.
+    orderIndex: number;
+    // Sell tokens spent, including limit order taker token fees.
+    takerTokenAmount: BigNumber;
+    makerTokenAmount: BigNumber;
+}
+
+export interface NativeOrderRoute {
+    data: FillQuoteTransformerData;
+    encodedData: string;
+    // Legs in fill order.
+    legs: NativeOrderRouteLeg[];
+    // Expected totals, if every leg fills as planned.
+    takerTokenAmount: BigNumber;
+    makerTokenAmount: BigNumber;
+}
+
+interface Candidate {
+    orderType: FillQuoteTransformerOrderType;
+    // Set for bridge quotes.
+    bridgeOrder?: FillQuoteTransformerBridgeOrder;
+    // Set for native orders.
+    nativeOrder?: NativeOrderCandidate;
+    orderTakerAmount: BigNumber;
+    orderMakerAmount: BigNumber;
+    takerTokenFeeAmount: BigNumber;
+    fillableTakerTokenAmount: BigNumber;
+}
+
+/**
+ * Build `FillQuoteTransformerData` that fills `fillAmount` from the native
+ * orders and bridge quotes with the best effective price, which for limit
+ * orders includes taker token fees. Each native order is capped at its
+ * fillable amount with `maxTakerTokenFillAmount`. Throws if there is not
+ * enough liquidity for `fillAmount`.
+ */
+export function buildNativeOrderRoute(opts: Partial<NativeOrderRouteOpts> = {}): NativeOrderRoute {
+    const { side, sellToken, buyToken, fillAmount, orders, bridgeOrders, refundReceiver } = {
+        side: FillQuoteTransformerSide.Sell,
+        orders: [],
+        bridgeOrders: [],
+        refundReceiver: NULL_ADDRESS,
+        ...opts,
+    };
+    if (!sellToken || !buyToken || !fillAmount) {
+        throw new Error('A sell token, buy token and fill amount are required to build a route');
+    }
+
+    const candidates: Candidate[] = [];
+    for (const bridgeOrder of bridgeOrders) {
+        candidates.push({
+            orderType: FillQuoteTransformerOrderType.Bridge,
+            bridgeOrder,
+            orderTakerAmount: bridgeOrder.takerTokenAmount,
+            orderMakerAmount: bridgeOrder.makerTokenAmount,
+            takerTokenFeeAmount: ZERO,
+            fillableTakerTokenAmount: bridgeOrder.takerTokenAmount,
+        });
+    }
+    for (const nativeOrder of orders) {
+        const { order } = nativeOrder;
+        if (
+            order.makerToken.toLowerCase() !== buyToken.toLowerCase() ||
+            order.takerToken.toLowerCase() !== sellToken.toLowerCase()
+        ) {
+            throw new Error(`Order ${order.getHash()} does not sell ${buyToken} for ${sellToken}`);
+        }
+        candidates.push({
+            orderType: getNativeOrderType(order),
+            nativeOrder,
+            orderTakerAmount: order.takerAmount,
+            orderMakerAmount: order.makerAmount,
+            takerTokenFeeAmount: order instanceof LimitOrder ? order.takerTokenFeeAmount : ZERO,
+            fillableTakerTokenAmount: BigNumber.min(
+                nativeOrder.fillableTakerTokenAmount || order.takerAmount,
+                order.takerAmount,
+            ),
+        });
+    }
+    // Cheapest first. Ties keep the order they were given in.
+    const sortedCandidates = candidates
+        .filter(c => c.fillableTakerTokenAmount.gt(0) && c.orderMakerAmount.gt(0))
+        .sort((a, b) =>
+            a.orderTakerAmount
+                .plus(a.takerTokenFeeAmount)
+                .times(b.orderMakerAmount)
+                .comparedTo(b.orderTakerAmount.plus(b.takerTokenFeeAmount).times(a.orderMakerAmount)),
+        );
+
+    const data: FillQuoteTransformerData = {
+        side,
+        sellToken,
+        buyToken,
+        bridgeOrders: [],
+        limitOrders: [],
+        rfqOrders: [],
+        otcOrders: [],
+        fillSequence: [],
+        fillAmount,
+        refundReceiver,
+    };
+    const legs: NativeOrderRouteLeg[] = [];
+    let takerTokenAmount = ZERO;
+    let makerTokenAmount = ZERO;
+    for (const candidate of sortedCandidates) {
+        const filledAmount = side === FillQuoteTransformerSide.Sell ? takerTokenAmount : makerTokenAmount;
+        if (filledAmount.gte(fillAmount)) {
+            break;
+        }
+        const leg = fillCandidate(candidate, side, fillAmount.minus(filledAmount));
+        if (leg.makerTokenAmount.isZero()) {
+            continue;
+        }
+        if (candidate.nativeOrder) {
+            const { order, signature } = candidate.nativeOrder;
+            const maxTakerTokenFillAmount = candidate.fillableTakerTokenAmount;
+            if (order instanceof LimitOrder) {
+                leg.orderIndex = data.limitOrders.push({ order, signature, maxTakerTokenFillAmount }) - 1;
+            } else if (order instanceof RfqOrder) {
+                leg.orderIndex = data.rfqOrders.push({ order, signature, maxTakerTokenFillAmount }) - 1;
+            } else {
+                leg.orderIndex = data.otcOrders.push({ order, signature, maxTakerTokenFillAmount }) - 1;
+            }
+        } else if (candidate.bridgeOrder) {
+            leg.orderIndex = data.bridgeOrders.push(candidate.bridgeOrder) - 1;
+        }
+        data.fillSequence.push(candidate.orderType);
+        legs.push(leg);
+        takerTokenAmount = takerTokenAmount.plus(leg.takerTokenAmount);
+        makerTokenAmount = makerTokenAmount.plus(leg.makerTokenAmount);
+    }
+    const filledAmount = side === FillQuoteTransformerSide.Sell ? takerTokenAmount : makerTokenAmount;
+    if (filledAmount.lt(fillAmount)) {
+        throw new Error(`Insufficient liquidity: can only fill ${filledAmount} of ${fillAmount}`);
+    }
+    return { data, encodedData: encodeFillQuoteTransformerData(data), legs, takerTokenAmount, makerTokenAmount };
+}
+
+function getNativeOrderType(order: LimitOrder | RfqOrder | OtcOrder): FillQuoteTransformerOrderType {
+    if (order instanceof LimitOrder) {
+        return FillQuoteTransformerOrderType.Limit;
+    }
+    if (order instanceof RfqOrder) {
+        return FillQuoteTransformerOrderType.Rfq;
+    }
+    return FillQuoteTransformerOrderType.Otc;
+}
+
+// Mirrors `FillQuoteTransformer._computeTakerTokenFillAmount()` and the fill
+// that follows it.
+function fillCandidate(
+    candidate: Candidate,
+    side: FillQuoteTransformerSide,
+    remainingFillAmount: BigNumber,
+): NativeOrderRouteLeg {
+    const { nativeOrder, orderTakerAmount, orderMakerAmount, takerTokenFeeAmount, fillableTakerTokenAmount } =
+        candidate;
+    let takerTokenFillAmount: BigNumber;
+    if (side === FillQuoteTransformerSide.Sell) {
+        takerTokenFillAmount = takerTokenFeeAmount.isZero()
+            ? remainingFillAmount
+            : getPartialAmountCeil(remainingFillAmount, orderTakerAmount.plus(takerTokenFeeAmount), orderTakerAmount);
+    } else {
+        takerTokenFillAmount = getPartialAmountCeil(remainingFillAmount, orderMakerAmount, orderTakerAmount);
+    }
+    takerTokenFillAmount = BigNumber.min(takerTokenFillAmount, fillableTakerTokenAmount);
+
+    let filledAmounts: OrderFilledAmounts;
+    let takerTokenAmount: BigNumber;
+    if (!nativeOrder) {
+        // Bridges are assumed to fill at the quoted rate.
+        filledAmounts = {
+            takerTokenFilledAmount: takerTokenFillAmount,
+            makerTokenFilledAmount: getPartialAmountFloor(takerTokenFillAmount, orderTakerAmount, orderMakerAmount),
+        };
+        takerTokenAmount = takerTokenFillAmount;
+    } else if (nativeOrder.order instanceof LimitOrder) {
+        const limitOrderFilledAmounts = computeLimitOrderFilledAmounts(nativeOrder.order, takerTokenFillAmount);
+        filledAmounts = limitOrderFilledAmounts;
+        takerTokenAmount = limitOrderFilledAmounts.takerTokenFilledAmount.plus(
+            limitOrderFilledAmounts.takerTokenFeeFilledAmount,
+        );
+    } else {
+        filledAmounts =
+            nativeOrder.order instanceof RfqOrder
+                ? computeRfqOrderFilledAmounts(nativeOrder.order, takerTokenFillAmount)
+                : computeOtcOrderFilledAmounts(nativeOrder.order, takerTokenFillAmount);
+        takerTokenAmount = filledAmounts.takerTokenFilledAmount;
+    }
+    return {
+        orderType: candidate.orderType,
+        orderIndex: -1,
+        takerTokenAmount,
+        makerTokenAmount: filledAmounts.makerTokenFilledAmount,
+    };
+}
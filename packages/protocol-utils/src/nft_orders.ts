@@ -1,7 +1,16 @@
 import { getContractAddressesForChainOrThrow } from '@0x/contract-addresses';
-import { SupportedProvider } from 'ethereum-types';
+import { DataItem, SupportedProvider } from 'ethereum-types';
 import { EIP712TypedData } from '@0x/types';
-import { BigNumber, hexUtils, NULL_ADDRESS } from '@0x/utils';
+import {
+    AbiEncoder,
+    BigNumber,
+    decodeThrownErrorAsRevertError,
+    hexUtils,
+    NULL_ADDRESS,
+    providerUtils,
+    RevertError,
+} from '@0x/utils';
+import { Web3Wrapper } from '@0x/web3-wrapper';
 
 import { ZERO } from './constants';
 import {
@@ -10,12 +19,15 @@ import {
     getExchangeProxyEIP712Hash,
     getTypeHash,
 } from './eip712_utils';
+import { InvalidSignerError } from './revert-errors/nft_orders';
 import {
     eip712SignHashWithKey,
     eip712SignTypedDataWithProviderAsync,
     ethSignHashWithKey,
     ethSignHashWithProviderAsync,
+    isValidSignatureAsync,
     Signature,
+    SIGNATURE_ABI,
     SignatureType,
 } from './signature_utils';
 
@@ -31,13 +43,19 @@ export enum OrderStatus {
     Expired = 3,
 }
 
-interface Fee {
+/**
+ * `LibNFTOrder.Fee`
+ */
+export interface Fee {
     recipient: string;
     amount: BigNumber;
     feeData: string;
 }
 
-interface Property {
+/**
+ * `LibNFTOrder.Property`
+ */
+export interface Property {
     propertyValidator: string;
     propertyData: string;
 }
@@ -89,8 +107,8 @@ const ERC1155_ORDER_DEFAULT_VALUES = {
 };
 
 type CommonNFTOrderFields = typeof NFT_ORDER_DEFAULT_VALUES;
-type ERC721OrderFields = typeof ERC721_ORDER_DEFAULT_VALUES;
-type ERC1155OrderFields = typeof ERC1155_ORDER_DEFAULT_VALUES;
+export type ERC721OrderFields = typeof ERC721_ORDER_DEFAULT_VALUES;
+export type ERC1155OrderFields = typeof ERC1155_ORDER_DEFAULT_VALUES;
 
 export abstract class NFTOrder {
     public static readonly FEE_ABI = [
@@ -133,6 +151,7 @@ export abstract class NFTOrder {
     public abstract getStructHash(): string;
     public abstract getEIP712TypedData(): EIP712TypedData;
     protected abstract _getProperties(): Property[];
+    protected abstract _getValidateSignatureCallData(signature: Signature): string;
 
     public willExpire(secondsFromNow = 0): boolean {
         const millisecondsInSecond = 1000;
@@ -170,6 +189,42 @@ export abstract class NFTOrder {
         }
     }
 
+    /**
+     * Check whether `signature` is a valid maker signature for this order.
+     * `PreSigned` signatures are checked against the Exchange Proxy, which
+     * requires a provider.
+     */
+    public async isValidSignatureAsync(signature: Signature, provider?: SupportedProvider): Promise<boolean> {
+        return isValidSignatureAsync(this.getHash(), signature, this.maker, async () => {
+            if (provider === undefined) {
+                throw new Error('A provider is required to validate PreSigned signatures');
+            }
+            const w3w = new Web3Wrapper(providerUtils.standardizeOrThrow(provider));
+            try {
+                // Reverts if the order has not been pre-signed.
+                await w3w.callAsync({
+                    to: this.verifyingContract,
+                    data: this._getValidateSignatureCallData(signature),
+                });
+                return true;
+            } catch (err) {
+                let revertError: RevertError;
+                try {
+                    revertError = decodeThrownErrorAsRevertError(err);
+                } catch (decodeErr) {
+                    // Not a revert we recognize, e.g. a network error.
+                    throw err;
+                }
+                // The Exchange Proxy reverts with `InvalidSignerError(maker, address(0))`
+                // when the order has not been pre-signed.
+                if (revertError instanceof InvalidSignerError) {
+                    return false;
+                }
+                throw revertError;
+            }
+        });
+    }
+
     protected _getPropertiesHash(): string {
         return hexUtils.hash(
             hexUtils.concat(
@@ -186,6 +241,26 @@ export abstract class NFTOrder {
         );
     }
 
+    protected _getCommonStructFields(): object {
+        return {
+            direction: this.direction,
+            maker: this.maker,
+            taker: this.taker,
+            expiry: this.expiry,
+            nonce: this.nonce,
+            erc20Token: this.erc20Token,
+            erc20TokenAmount: this.erc20TokenAmount,
+            fees: this.fees.map(({ recipient, amount, feeData }) => ({ recipient, amount, feeData })),
+        };
+    }
+
+    protected _getStructProperties(): Property[] {
+        return this._getProperties().map(({ propertyValidator, propertyData }) => ({
+            propertyValidator,
+            propertyData,
+        }));
+    }
+
     protected _getFeesHash(): string {
         return hexUtils.hash(
             hexUtils.concat(
@@ -308,6 +383,21 @@ export class ERC721Order extends NFTOrder {
     protected _getProperties(): Property[] {
         return this.erc721TokenProperties;
     }
+
+    protected _getValidateSignatureCallData(signature: Signature): string {
+        return AbiEncoder.createMethod('validateERC721OrderSignature', [
+            { type: 'tuple', name: 'order', components: getNFTOrderAbi(ERC721Order.STRUCT_ABI) },
+            { type: 'tuple', name: 'signature', components: SIGNATURE_ABI },
+        ]).encode([
+            {
+                ...this._getCommonStructFields(),
+                erc721Token: this.erc721Token,
+                erc721TokenId: this.erc721TokenId,
+                erc721TokenProperties: this._getStructProperties(),
+            },
+            signature,
+        ]);
+    }
 }
 
 export class ERC1155Order extends NFTOrder {
@@ -420,4 +510,34 @@ export class ERC1155Order extends NFTOrder {
     protected _getProperties(): Property[] {
         return this.erc1155TokenProperties;
     }
+
+    protected _getValidateSignatureCallData(signature: Signature): string {
+        return AbiEncoder.createMethod('validateERC1155OrderSignature', [
+            { type: 'tuple', name: 'order', components: getNFTOrderAbi(ERC1155Order.STRUCT_ABI) },
+            { type: 'tuple', name: 'signature', components: SIGNATURE_ABI },
+        ]).encode([
+            {
+                ...this._getCommonStructFields(),
+                erc1155Token: this.erc1155Token,
+                erc1155TokenId: this.erc1155TokenId,
+                erc1155TokenProperties: this._getStructProperties(),
+                erc1155TokenAmount: this.erc1155TokenAmount,
+            },
+            signature,
+        ]);
+    }
+}
+
+// Expand the `Fee[]` and `Property[]` members of an NFT order's EIP712 struct ABI into tuples.
+function getNFTOrderAbi(structAbi: Array<{ type: string; name: string }>): DataItem[] {
+    return structAbi.map(({ type, name }) => {
+        switch (type) {
+            case 'Fee[]':
+                return { type: 'tuple[]', name, components: NFTOrder.FEE_ABI };
+            case 'Property[]':
+                return { type: 'tuple[]', name, components: NFTOrder.PROPERTY_ABI };
+            default:
+                return { type, name };
+        }
+    });
 }
@@ -0,0 +1,273 @@
+import { AbiEncoder, BigNumber, hexUtils, NULL_ADDRESS, RevertError, StringRevertError } from '@0x/utils';
+
+import { ZERO } from './constants';
+import {
+    ERC1155Order,
+    ERC1155OrderFields,
+    ERC721Order,
+    ERC721OrderFields,
+    Property,
+    TradeDirection,
+} from './nft_orders';
+import { TokenIdMismatchError } from './revert-errors/nft_orders';
+
+/**
+ * A property that any token ID satisfies. The Exchange Proxy skips
+ * properties whose `propertyValidator` is the null address.
+ */
+export const NULL_PROPERTY: Property = { propertyValidator: NULL_ADDRESS, propertyData: '0x' };
+
+/**
+ * Create an offer to buy any ERC721 token in the `erc721Token` collection.
+ * Property orders must have a zero token ID.
+ */
+export function createERC721CollectionOffer(
+    fields: Partial<ERC721OrderFields> = {},
+    properties: Property[] = [NULL_PROPERTY],
+): ERC721Order {
+    return new ERC721Order({
+        ...fields,
+        direction: TradeDirection.BuyNFT,
+        erc721TokenId: ZERO,
+        erc721TokenProperties: assertNonEmptyProperties(properties),
+    });
+}
+
+/**
+ * Create an offer to buy any ERC1155 token in the `erc1155Token` collection.
+ * Property orders must have a zero token ID.
+ */
+export function createERC1155CollectionOffer(
+    fields: Partial<ERC1155OrderFields> = {},
+    properties: Property[] = [NULL_PROPERTY],
+): ERC1155Order {
+    return new ERC1155Order({
+        ...fields,
+        direction: TradeDirection.BuyNFT,
+        erc1155TokenId: ZERO,
+        erc1155TokenProperties: assertNonEmptyProperties(properties),
+    });
+}
+
+/**
+ * An inclusive range of token IDs.
+ */
+export interface TokenIdRange {
+    lowerBound: BigNumber;
+    upperBound: BigNumber;
+}
+
+/**
+ * ABI encoder for the `propertyData` of a token ID range validator.
+ */
+export const tokenIdRangePropertyDataEncoder = AbiEncoder.create([
+    { name: 'lowerBound', type: 'uint256' },
+    { name: 'upperBound', type: 'uint256' },
+]);
+
+/**
+ * Encode the `propertyData` of a token ID range validator.
+ */
+export function encodeTokenIdRangePropertyData(range: TokenIdRange): string {
+    if (range.lowerBound.isGreaterThan(range.upperBound)) {
+        throw new Error('Token ID range lower bound must not exceed the upper bound');
+    }
+    return tokenIdRangePropertyDataEncoder.encode(range);
+}
+
+/**
+ * Decode the `propertyData` of a token ID range validator.
+ */
+export function decodeTokenIdRangePropertyData(propertyData: string): TokenIdRange {
+    return tokenIdRangePropertyDataEncoder.decode(propertyData);
+}
+
+/**
+ * Create a property that only accepts token IDs in `range`, to be checked
+ * by a deployed `TokenIdRangePropertyValidator`.
+ */
+export function createTokenIdRangeProperty(propertyValidator: string, range: TokenIdRange): Property {
+    return { propertyValidator, propertyData: encodeTokenIdRangePropertyData(range) };
+}
+
+/**
+ * ABI encoder for the `propertyData` of a merkle allowlist validator, which
+ * is just the root of a merkle tree of allowed token IDs.
+ */
+export const tokenIdMerklePropertyDataEncoder = AbiEncoder.create([{ name: 'root', type: 'bytes32' }]);
+
+/**
+ * Create a property that only accepts the given token IDs, by their merkle root,
+ * to be checked by a deployed `TokenIdMerklePropertyValidator`. The validator
+ * only sees the maker-signed `propertyData`, so before filling the order the
+ * taker must submit the proof from `getTokenIdMerkleProof()` to its `proveTokenId()`.
+ */
+export function createTokenIdMerkleProperty(propertyValidator: string, tokenIds: BigNumber[]): Property {
+    return {
+        propertyValidator,
+        propertyData: tokenIdMerklePropertyDataEncoder.encode([getTokenIdMerkleRoot(tokenIds)]),
+    };
+}
+
+/**
+ * Decode the merkle root from the `propertyData` of a merkle allowlist validator.
+ */
+export function decodeTokenIdMerklePropertyData(propertyData: string): string {
+    return tokenIdMerklePropertyDataEncoder.decode(propertyData).root;
+}
+
+/**
+ * Compute the root of a merkle tree of token IDs. Leaves are
+ * `keccak256(abi.encode(tokenId))` and pairs are hashed in sorted order,
+ * compatible with `TokenIdMerklePropertyValidator` and OpenZeppelin's `MerkleProof.verify()`.
+ */
+export function getTokenIdMerkleRoot(tokenIds: BigNumber[]): string {
+    const layers = getMerkleLayers(tokenIds);
+    return layers[layers.length - 1][0];
+}
+
+/**
+ * Generate a proof that `tokenId` is in the merkle tree of `tokenIds`.
+ */
+export function getTokenIdMerkleProof(tokenIds: BigNumber[], tokenId: BigNumber): string[] {
+    const layers = getMerkleLayers(tokenIds);
+    let index = layers[0].indexOf(getMerkleLeaf(tokenId));
+    if (index === -1) {
+        throw new Error(`Token ID ${tokenId.toString(10)} is not in the merkle tree`);
+    }
+    const proof: string[] = [];
+    for (const layer of layers.slice(0, -1)) {
+        const sibling = index % 2 === 0 ? index + 1 : index - 1;
+        // The last node of an odd layer has no sibling and is carried up as is.
+        if (sibling < layer.length) {
+            proof.push(layer[sibling]);
+        }
+        index = Math.floor(index / 2);
+    }
+    return proof;
+}
+
+/**
+ * Check a merkle proof for `tokenId` against `root`.
+ */
+export function verifyTokenIdMerkleProof(root: string, tokenId: BigNumber, proof: string[]): boolean {
+    return proof.reduce(hashMerklePair, getMerkleLeaf(tokenId)) === root.toLowerCase();
+}
+
+/**
+ * How to check properties with a given validator locally.
+ */
+export type PropertyValidatorChecker = (tokenId: BigNumber, propertyData: string) => boolean;
+
+/**
+ * Local checkers for the property payloads built by this module.
+ */
+export const propertyValidatorCheckers = {
+    /**
+     * Check a property created by `createTokenIdRangeProperty()`.
+     */
+    tokenIdRange(tokenId: BigNumber, propertyData: string): boolean {
+        const { lowerBound, upperBound } = decodeTokenIdRangePropertyData(propertyData);
+        return tokenId.isGreaterThanOrEqualTo(lowerBound) && tokenId.isLessThanOrEqualTo(upperBound);
+    },
+    /**
+     * Create a checker for a property created by `createTokenIdMerkleProperty()`,
+     * given the merkle proof of the token ID being checked.
+     */
+    tokenIdMerkle(merkleProof: string[]): PropertyValidatorChecker {
+        return (tokenId, propertyData) =>
+            verifyTokenIdMerkleProof(decodeTokenIdMerklePropertyData(propertyData), tokenId, merkleProof);
+    },
+};
+
+/**
+ * Returned by `validateNFTOrderProperties()` when a local checker rejects a
+ * property. On chain, the property validator's own revert would be wrapped
+ * in a `PropertyValidationFailedError`, which can't be reproduced locally.
+ */
+export class PropertyCheckFailedError extends Error {
+    constructor(
+        public readonly propertyValidator: string,
+        public readonly tokenAddress: string,
+        public readonly tokenId: BigNumber,
+        public readonly propertyData: string,
+    ) {
+        super(`Token ID ${tokenId.toString(10)} does not satisfy the property checked by ${propertyValidator}`);
+    }
+}
+
+/**
+ * Check that `tokenId` satisfies an order's properties, mirroring
+ * `NFTOrders._validateOrderProperties()`. `checkers` maps property validator
+ * addresses to how to check them locally. Returns the error `sellERC721()`
+ * or `sellERC1155()` would revert with, a `PropertyCheckFailedError` if a
+ * checker rejects the token, or `undefined` if the token is accepted.
+ */
+export function validateNFTOrderProperties(
+    order: ERC721Order | ERC1155Order,
+    tokenId: BigNumber,
+    checkers: { [propertyValidator: string]: PropertyValidatorChecker } = {},
+): RevertError | PropertyCheckFailedError | undefined {
+    const [token, orderTokenId, properties] =
+        order instanceof ERC721Order
+            ? [order.erc721Token, order.erc721TokenId, order.erc721TokenProperties]
+            : [order.erc1155Token, order.erc1155TokenId, order.erc1155TokenProperties];
+    if (order.direction !== TradeDirection.BuyNFT) {
+        return new StringRevertError('NFTOrders::_validateOrderProperties/WRONG_TRADE_DIRECTION');
+    }
+    // Without properties, the order is for a specific token ID.
+    if (properties.length === 0) {
+        return tokenId.isEqualTo(orderTokenId) ? undefined : new TokenIdMismatchError(tokenId, orderTokenId);
+    }
+    const lowercaseCheckers: typeof checkers = {};
+    for (const [validator, checker] of Object.entries(checkers)) {
+        lowercaseCheckers[validator.toLowerCase()] = checker;
+    }
+    for (const { propertyValidator, propertyData } of properties) {
+        if (propertyValidator.toLowerCase() === NULL_ADDRESS) {
+            continue;
+        }
+        const checker = lowercaseCheckers[propertyValidator.toLowerCase()];
+        if (!checker) {
+            throw new Error(`No local checker for property validator ${propertyValidator}`);
+        }
+        if (!checker(tokenId, propertyData)) {
+            return new PropertyCheckFailedError(propertyValidator, token, tokenId, propertyData);
+        }
+    }
+    return undefined;
+}
+
+function assertNonEmptyProperties(properties: Property[]): Property[] {
+    // An order without properties only accepts its own token ID.
+    if (properties.length === 0) {
+        throw new Error('Collection offers must have at least one property');
+    }
+    return properties;
+}
+
+function getMerkleLeaf(tokenId: BigNumber): string {
+    return hexUtils.hash(hexUtils.leftPad(tokenId));
+}
+
+function hashMerklePair(a: string, b: string): string {
+    const [x, y] = a.toLowerCase() < b.toLowerCase() ? [a, b] : [b, a];
+    return hexUtils.hash(hexUtils.concat(x, y));
+}
+
+// Returns the layers of a merkle tree over the (sorted, unique) leaves of `tokenIds`, from the leaves up.
+function getMerkleLayers(tokenIds: BigNumber[]): string[][] {
+    if (tokenIds.length === 0) {
+        throw new Error('Cannot build a merkle tree without token IDs');
+    }
+    const layers = [[...new Set(tokenIds.map(getMerkleLeaf))].sort()];
+    while (layers[layers.length - 1].length > 1) {
+        const layer = layers[layers.length - 1];
+        const nextLayer: string[] = [];
+        for (let i = 0; i < layer.length; i += 2) {
+            nextLayer.push(i + 1 < layer.length ? hashMerklePair(layer[i], layer[i + 1]) : layer[i]);
+        }
+        layers.push(nextLayer);
+    }
+    return layers;
+}
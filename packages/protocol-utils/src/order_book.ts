@@ -0,0 +1,299 @@
+import {
+    IZeroExContract,
+    IZeroExEvents,
+    IZeroExLimitOrderFilledEventArgs,
+    IZeroExOrderCancelledEventArgs,
+    IZeroExPairCancelledLimitOrdersEventArgs,
+    IZeroExPairCancelledRfqOrdersEventArgs,
+    IZeroExRfqOrderFilledEventArgs,
+} from '@0x/contract-wrappers';
+import { BigNumber, NULL_ADDRESS } from '@0x/utils';
+import { BlockRange, LogWithDecodedArgs } from 'ethereum-types';
+
+import { ZERO } from './constants';
+import { getFillableMakerTokenAmount } from './fill_math_utils';
+import { LimitOrder, NativeOrder, OrderInfo, OrderStatus, RfqOrder } from './orders';
+import { Signature } from './signature_utils';
+
+/**
+ * Args of the Exchange Proxy events an order book tracks.
+ */
+export type NativeOrderBookEventArgs =
+    | IZeroExLimitOrderFilledEventArgs
+    | IZeroExRfqOrderFilledEventArgs
+    | IZeroExOrderCancelledEventArgs
+    | IZeroExPairCancelledLimitOrdersEventArgs
+    | IZeroExPairCancelledRfqOrdersEventArgs;
+
+/**
+ * An order in the book, along with its current state.
+ */
+export interface NativeOrderBookEntry {
+    order: NativeOrder;
+    signature: Signature;
+    orderInfo: OrderInfo;
+    // Taker tokens left to fill.
+    remainingTakerTokenAmount: BigNumber;
+    // Maker tokens left to fill, rounded down like fills are.
+    remainingMakerTokenAmount: BigNumber;
+}
+
+/**
+ * Fillable orders of a token pair that share a price.
+ */
+export interface NativeOrderBookLevel {
+    // Taker tokens paid per maker token.
+    price: BigNumber;
+    makerTokenAmount: BigNumber;
+    takerTokenAmount: BigNumber;
+    numOrders: number;
+}
+
+interface StoredOrder {
+    order: NativeOrder;
+    signature: Signature;
+    takerTokenFilledAmount: BigNumber;
+    isCancelled: boolean;
+}
+
+/**
+ * Stores signed limit and RFQ orders indexed by token pair and maker, and
+ * tracks their state from Exchange Proxy events.
+ */
+export class NativeOrderBook {
+    private readonly _orders: { [orderHash: string]: StoredOrder } = {};
+    private readonly _orderHashesByPair: { [pairKey: string]: Set<string> } = {};
+    private readonly _orderHashesByMaker: { [maker: string]: Set<string> } = {};
+    // Minimum valid salts from `PairCancelled*Orders` events.
+    private readonly _minValidSalts: { [makerPairKey: string]: BigNumber } = {};
+
+    /**
+     * Add an order to the book. `orderInfo` seeds the filled amount and
+     * cancellation state, e.g. from `getLimitOrderInfo()`; otherwise the order
+     * is assumed to be unfilled.
+     */
+    public addOrder(order: NativeOrder, signature: Signature, orderInfo?: OrderInfo): NativeOrderBookEntry {
+        const orderHash = order.getHash();
+        this._orders[orderHash] = {
+            order,
+            signature,
+            takerTokenFilledAmount: orderInfo ? orderInfo.takerTokenFilledAmount : ZERO,
+            isCancelled: !!orderInfo && orderInfo.status === OrderStatus.Cancelled,
+        };
+        addToIndex(this._orderHashesByPair, getPairKey(order.makerToken, order.takerToken), orderHash);
+        addToIndex(this._orderHashesByMaker, order.maker.toLowerCase(), orderHash);
+        return this._getEntry(orderHash);
+    }
+
+    /**
+     * Remove an order from the book. Returns the removed order, if any.
+     */
+    public removeOrder(orderHash: string): NativeOrderBookEntry | undefined {
+        if (this._orders[orderHash] === undefined) {
+            return undefined;
+        }
+        const entry = this._getEntry(orderHash);
+        const { order } = entry;
+        removeFromIndex(this._orderHashesByPair, getPairKey(order.makerToken, order.takerToken), orderHash);
+        removeFromIndex(this._orderHashesByMaker, order.maker.toLowerCase(), orderHash);
+        delete this._orders[orderHash];
+        return entry;
+    }
+
+    public getOrder(orderHash: string): NativeOrderBookEntry | undefined {
+        return this._orders[orderHash] === undefined ? undefined : this._getEntry(orderHash);
+    }
+
+    /**
+     * Mirrors `getLimitOrderInfo()` and `getRfqOrderInfo()`, using the local
+     * clock for expiry.
+     */
+    public getOrderInfo(orderHash: string): OrderInfo | undefined {
+        const entry = this.getOrder(orderHash);
+        return entry && entry.orderInfo;
+    }
+
+    /**
+     * Apply Exchange Proxy logs, in any order. Logs for orders not in the book
+     * are ignored, except pair cancellations, which also apply to orders added
+     * later.
+     */
+    public applyLogs(logs: Array<LogWithDecodedArgs<NativeOrderBookEventArgs>>): void {
+        const sortedLogs = [...logs].sort(
+            (a, b) => (a.blockNumber || 0) - (b.blockNumber || 0) || (a.logIndex || 0) - (b.logIndex || 0),
+        );
+        for (const log of sortedLogs) {
+            switch (log.event) {
+                case IZeroExEvents.LimitOrderFilled:
+                case IZeroExEvents.RfqOrderFilled: {
+                    const args = log.args as IZeroExLimitOrderFilledEventArgs | IZeroExRfqOrderFilledEventArgs;
+                    const stored = this._orders[args.orderHash];
+                    if (stored) {
+                        stored.takerTokenFilledAmount = stored.takerTokenFilledAmount.plus(args.takerTokenFilledAmount);
+                    }
+                    break;
+                }
+                case IZeroExEvents.OrderCancelled: {
+                    const stored = this._orders[(log.args as IZeroExOrderCancelledEventArgs).orderHash];
+                    if (stored) {
+                        stored.isCancelled = true;
+                    }
+                    break;
+                }
+                case IZeroExEvents.PairCancelledLimitOrders:
+                case IZeroExEvents.PairCancelledRfqOrders: {
+                    const args = log.args as IZeroExPairCancelledLimitOrdersEventArgs;
+                    const isLimitOrder = log.event === IZeroExEvents.PairCancelledLimitOrders;
+                    this._minValidSalts[getMakerPairKey(isLimitOrder, args.maker, args.makerToken, args.takerToken)] =
+                        args.minValidSalt;
+                    break;
+                }
+                default:
+                    break;
+            }
+        }
+    }
+
+    /**
+     * Fetch and apply the fill and cancellation logs emitted in `blockRange`.
+     */
+    public async syncAsync(zeroEx: IZeroExContract, blockRange: BlockRange): Promise<void> {
+        const events = [
+            IZeroExEvents.LimitOrderFilled,
+            IZeroExEvents.RfqOrderFilled,
+            IZeroExEvents.OrderCancelled,
+            IZeroExEvents.PairCancelledLimitOrders,
+            IZeroExEvents.PairCancelledRfqOrders,
+        ];
+        const logs: Array<LogWithDecodedArgs<NativeOrderBookEventArgs>> = [];
+        for (const event of events) {
+            logs.push(...(await zeroEx.getLogsAsync<NativeOrderBookEventArgs>(event, blockRange, {})));
+        }
+        this.applyLogs(logs);
+    }
+
+    /**
+     * Remove orders that will expire within `secondsFromNow`, along with
+     * filled and cancelled orders. Returns the removed orders.
+     */
+    public pruneOrders(secondsFromNow = 0): NativeOrderBookEntry[] {
+        const removed: NativeOrderBookEntry[] = [];
+        for (const orderHash of Object.keys(this._orders)) {
+            const entry = this._getEntry(orderHash);
+            if (entry.orderInfo.status !== OrderStatus.Fillable || entry.order.willExpire(secondsFromNow)) {
+                this.removeOrder(orderHash);
+                removed.push(entry);
+            }
+        }
+        return removed;
+    }
+
+    /**
+     * All orders of `maker`, in any state.
+     */
+    public getOrdersByMaker(maker: string): NativeOrderBookEntry[] {
+        return [...(this._orderHashesByMaker[maker.toLowerCase()] || [])].map(h => this._getEntry(h));
+    }
+
+    /**
+     * Fillable orders selling `makerToken` for `takerToken`, best price first.
+     */
+    public getFillableOrders(makerToken: string, takerToken: string): NativeOrderBookEntry[] {
+        return [...(this._orderHashesByPair[getPairKey(makerToken, takerToken)] || [])]
+            .map(h => this._getEntry(h))
+            .filter(e => e.orderInfo.status === OrderStatus.Fillable && e.remainingMakerTokenAmount.gt(0))
+            .sort((a, b) => compareOrderPrices(a.order, b.order));
+    }
+
+    /**
+     * The fillable order selling `makerToken` for `takerToken` with the best price.
+     */
+    public getBestOrder(makerToken: string, takerToken: string): NativeOrderBookEntry | undefined {
+        return this.getFillableOrders(makerToken, takerToken)[0];
+    }
+
+    /**
+     * The remaining fillable amounts selling `makerToken` for `takerToken`,
+     * aggregated by price, best price first.
+     */
+    public getDepth(makerToken: string, takerToken: string): NativeOrderBookLevel[] {
+        const levels: NativeOrderBookLevel[] = [];
+        let prevOrder: NativeOrder | undefined;
+        for (const entry of this.getFillableOrders(makerToken, takerToken)) {
+            if (!prevOrder || compareOrderPrices(prevOrder, entry.order) !== 0) {
+                levels.push({
+                    price: entry.order.takerAmount.div(entry.order.makerAmount),
+                    makerTokenAmount: ZERO,
+                    takerTokenAmount: ZERO,
+                    numOrders: 0,
+                });
+            }
+            const level = levels[levels.length - 1];
+            level.makerTokenAmount = level.makerTokenAmount.plus(entry.remainingMakerTokenAmount);
+            level.takerTokenAmount = level.takerTokenAmount.plus(entry.remainingTakerTokenAmount);
+            level.numOrders++;
+            prevOrder = entry.order;
+        }
+        return levels;
+    }
+
+    private _getEntry(orderHash: string): NativeOrderBookEntry {
+        const { order, signature, takerTokenFilledAmount, isCancelled } = this._orders[orderHash];
+        const isLimitOrder = order instanceof LimitOrder;
+        const minValidSalt =
+            this._minValidSalts[getMakerPairKey(isLimitOrder, order.maker, order.makerToken, order.takerToken)] || ZERO;
+        const salt = (order as LimitOrder | RfqOrder).salt;
+        let status = OrderStatus.Fillable;
+        // Same precedence as `NativeOrdersInfo._populateCommonOrderInfoFields()`.
+        if (takerTokenFilledAmount.gte(order.takerAmount)) {
+            status = OrderStatus.Filled;
+        } else if (isCancelled) {
+            status = OrderStatus.Cancelled;
+        } else if (order.willExpire(0)) {
+            status = OrderStatus.Expired;
+        } else if (minValidSalt.gt(salt)) {
+            status = OrderStatus.Cancelled;
+        }
+        // RFQ orders without a tx origin are invalid regardless of their state.
+        if (!isLimitOrder && (order as RfqOrder).txOrigin.toLowerCase() === NULL_ADDRESS) {
+            status = OrderStatus.Invalid;
+        }
+        return {
+            order,
+            signature,
+            orderInfo: { status, orderHash, takerTokenFilledAmount },
+            remainingTakerTokenAmount: BigNumber.max(order.takerAmount.minus(takerTokenFilledAmount), ZERO),
+            remainingMakerTokenAmount: takerTokenFilledAmount.gte(order.takerAmount)
+                ? ZERO
+                : getFillableMakerTokenAmount(order, takerTokenFilledAmount),
+        };
+    }
+}
+
+function getPairKey(makerToken: string, takerToken: string): string {
+    return `${makerToken.toLowerCase()}-${takerToken.toLowerCase()}`;
+}
+
+function getMakerPairKey(isLimitOrder: boolean, maker: string, makerToken: string, takerToken: string): string {
+    return `${isLimitOrder ? 'limit' : 'rfq'}-${maker.toLowerCase()}-${getPairKey(makerToken, takerToken)}`;
+}
+
+function addToIndex(index: { [key: string]: Set<string> }, key: string, orderHash: string): void {
+    index[key] = index[key] || new Set<string>();
+    index[key].add(orderHash);
+}
+
+function removeFromIndex(index: { [key: string]: Set<string> }, key: string, orderHash: string): void {
+    const orderHashes = index[key];
+    if (orderHashes) {
+        orderHashes.delete(orderHash);
+        if (orderHashes.size === 0) {
+            delete index[key];
+        }
+    }
+}
+
+// Orders paying more maker tokens per taker token sort first.
+function compareOrderPrices(a: NativeOrder, b: NativeOrder): number {
+    return b.makerAmount.times(a.takerAmount).comparedTo(a.makerAmount.times(b.takerAmount));
+}
@@ -0,0 +1,325 @@
+import { SchemaValidator } from '@0x/json-schemas';
+import { BigNumber } from '@0x/utils';
+
+import { EIP712_STRUCT_ABI } from './eip712_utils';
+import { ERC1155Order, ERC1155OrderFields, ERC721Order, ERC721OrderFields, NFTOrder } from './nft_orders';
+import { LimitOrder, LimitOrderFields, OtcOrder, OtcOrderFields, RfqOrder, RfqOrderFields } from './orders';
+import { Signature, SIGNATURE_ABI } from './signature_utils';
+
+/**
+ * The current version of the serialized order envelope.
+ */
+export const ORDER_ENVELOPE_VERSION = 1;
+
+/**
+ * Order types that can be serialized.
+ */
+export enum SerializedOrderType {
+    Limit = 'limit',
+    Rfq = 'rfq',
+    Otc = 'otc',
+    ERC721 = 'erc721',
+    ERC1155 = 'erc1155',
+}
+
+export type SerializableOrder = LimitOrder | RfqOrder | OtcOrder | ERC721Order | ERC1155Order;
+
+/**
+ * A JSON value in the canonical wire format.
+ * `uint8` values are numbers, all other integers are decimal strings,
+ * and addresses and bytes are lowercase hex strings.
+ */
+export type OrderJsonValue = string | number | OrderJsonValue[] | { [key: string]: OrderJsonValue };
+
+/**
+ * A JSON object in the canonical wire format.
+ */
+export interface OrderJson {
+    [field: string]: OrderJsonValue;
+}
+
+/**
+ * A versioned envelope for storing and relaying an order and its (optional) signature.
+ */
+export interface OrderEnvelope {
+    version: number;
+    type: SerializedOrderType;
+    order: OrderJson;
+    signature?: OrderJson;
+}
+
+/**
+ * A deserialized order envelope.
+ */
+export interface DeserializedOrder<T extends SerializableOrder = SerializableOrder> {
+    type: SerializedOrderType;
+    order: T;
+    signature?: Signature;
+}
+
+// Fields that are not part of the struct but are needed to compute the order hash.
+const DOMAIN_ABI = [
+    { type: 'chainId', name: 'chainId' },
+    { type: 'address', name: 'verifyingContract' },
+];
+
+// Structs referenced by the NFT order ABIs.
+const REFERENCED_STRUCT_ABIS: { [structName: string]: EIP712_STRUCT_ABI } = {
+    Fee: NFTOrder.FEE_ABI,
+    Property: NFTOrder.PROPERTY_ABI,
+};
+
+const ORDER_ABIS: { [type in SerializedOrderType]: EIP712_STRUCT_ABI } = {
+    [SerializedOrderType.Limit]: [...LimitOrder.STRUCT_ABI, ...DOMAIN_ABI],
+    [SerializedOrderType.Rfq]: [...RfqOrder.STRUCT_ABI, ...DOMAIN_ABI],
+    [SerializedOrderType.Otc]: [...OtcOrder.STRUCT_ABI, ...DOMAIN_ABI],
+    [SerializedOrderType.ERC721]: [...ERC721Order.STRUCT_ABI, ...DOMAIN_ABI],
+    [SerializedOrderType.ERC1155]: [...ERC1155Order.STRUCT_ABI, ...DOMAIN_ABI],
+};
+
+const UINT_PATTERN = /^uint(\d+)$/;
+
+function getJsonSchemaForType(type: string): object {
+    if (type === 'address') {
+        return { type: 'string', pattern: '^0x[0-9a-fA-F]{40}$' };
+    }
+    if (type === 'bytes32') {
+        return { type: 'string', pattern: '^0x[0-9a-fA-F]{64}$' };
+    }
+    if (type === 'bytes') {
+        return { type: 'string', pattern: '^0x([0-9a-fA-F]{2})*$' };
+    }
+    if (type === 'chainId' || type === 'uint8') {
+        return { type: 'integer', minimum: 0 };
+    }
+    if (UINT_PATTERN.test(type)) {
+        return { type: 'string', pattern: '^(0|[1-9][0-9]*)$' };
+    }
+    if (type.endsWith('[]')) {
+        const structName = type.slice(0, -2);
+        return { type: 'array', items: getJsonSchemaForStruct(REFERENCED_STRUCT_ABIS[structName]) };
+    }
+    throw new Error(`Unsupported ABI type: ${type}`);
+}
+
+function getJsonSchemaForStruct(abi: EIP712_STRUCT_ABI, id?: string): object {
+    return {
+        ...(id ? { id } : {}),
+        type: 'object',
+        properties: Object.assign({}, ...abi.map(({ name, type }) => ({ [name]: getJsonSchemaForType(type) }))),
+        required: abi.map(({ name }) => name),
+        additionalProperties: false,
+    };
+}
+
+/**
+ * JSON schemas for each order type in the canonical wire format.
+ */
+export const orderJsonSchemas: { [type in SerializedOrderType]: object } = {
+    [SerializedOrderType.Limit]: getJsonSchemaForStruct(ORDER_ABIS.limit, '/v4LimitOrderJsonSchema'),
+    [SerializedOrderType.Rfq]: getJsonSchemaForStruct(ORDER_ABIS.rfq, '/v4RfqOrderJsonSchema'),
+    [SerializedOrderType.Otc]: getJsonSchemaForStruct(ORDER_ABIS.otc, '/v4OtcOrderJsonSchema'),
+    [SerializedOrderType.ERC721]: getJsonSchemaForStruct(ORDER_ABIS.erc721, '/v4ERC721OrderJsonSchema'),
+    [SerializedOrderType.ERC1155]: getJsonSchemaForStruct(ORDER_ABIS.erc1155, '/v4ERC1155OrderJsonSchema'),
+};
+
+/**
+ * JSON schema for a `Signature` in the canonical wire format.
+ */
+export const signatureJsonSchema = getJsonSchemaForStruct(SIGNATURE_ABI, '/v4SignatureJsonSchema');
+
+/**
+ * JSON schema for an `OrderEnvelope`.
+ */
+export const orderEnvelopeJsonSchema = {
+    id: '/v4OrderEnvelopeJsonSchema',
+    type: 'object',
+    properties: {
+        version: { type: 'integer', minimum: 1 },
+        type: { enum: Object.values(SerializedOrderType) },
+        order: { type: 'object' },
+        signature: { type: 'object' },
+    },
+    required: ['version', 'type', 'order'],
+    additionalProperties: false,
+};
+
+const schemaValidator = new SchemaValidator();
+
+function assertValidJson(json: unknown, schema: object, name: string): void {
+    const { errors } = schemaValidator.validate(json, schema);
+    if (errors && errors.length > 0) {
+        const reasons = errors.map(e => `${e.dataPath || '.'} ${e.message}`).join(', ');
+        throw new Error(`Invalid ${name} JSON: ${reasons}`);
+    }
+}
+
+function assertUintInRange(value: BigNumber, type: string, path: string): void {
+    const [, bits] = UINT_PATTERN.exec(type) || [];
+    const max = new BigNumber(2).pow(parseInt(bits, 10)).minus(1);
+    if (!value.isInteger() || value.isLessThan(0) || value.isGreaterThan(max)) {
+        throw new Error(`${path} out of range for ${type}: ${value.toString(10)}`);
+    }
+}
+
+type StructValue = { [field: string]: unknown };
+
+function serializeValue(type: string, value: unknown, path: string): OrderJsonValue {
+    if (type === 'address' || type === 'bytes32' || type === 'bytes') {
+        return (value as string).toLowerCase();
+    }
+    if (type === 'chainId') {
+        return value as number;
+    }
+    if (UINT_PATTERN.test(type)) {
+        const n = new BigNumber(value as BigNumber.Value);
+        assertUintInRange(n, type, path);
+        return type === 'uint8' ? n.toNumber() : n.toString(10);
+    }
+    if (type.endsWith('[]')) {
+        const abi = REFERENCED_STRUCT_ABIS[type.slice(0, -2)];
+        return (value as StructValue[]).map((v, i) => serializeStruct(abi, v, `${path}[${i}]`));
+    }
+    throw new Error(`Unsupported ABI type: ${type}`);
+}
+
+function serializeStruct(abi: EIP712_STRUCT_ABI, struct: StructValue, path: string): OrderJson {
+    return Object.assign(
+        {},
+        ...abi.map(({ name, type }) => ({ [name]: serializeValue(type, struct[name], `${path}.${name}`) })),
+    );
+}
+
+function deserializeValue(type: string, value: OrderJsonValue, path: string): unknown {
+    if (type === 'address' || type === 'bytes32' || type === 'bytes') {
+        return (value as string).toLowerCase();
+    }
+    if (type === 'chainId') {
+        return value;
+    }
+    if (UINT_PATTERN.test(type)) {
+        const n = new BigNumber(value as string | number);
+        assertUintInRange(n, type, path);
+        return type === 'uint8' ? n.toNumber() : n;
+    }
+    if (type.endsWith('[]')) {
+        const abi = REFERENCED_STRUCT_ABIS[type.slice(0, -2)];
+        return (value as OrderJson[]).map((v, i) => deserializeStruct(abi, v, `${path}[${i}]`));
+    }
+    throw new Error(`Unsupported ABI type: ${type}`);
+}
+
+function deserializeStruct(abi: EIP712_STRUCT_ABI, json: OrderJson, path: string): StructValue {
+    return Object.assign(
+        {},
+        ...abi.map(({ name, type }) => ({ [name]: deserializeValue(type, json[name], `${path}.${name}`) })),
+    );
+}
+
+/**
+ * Get the serialized type of an order.
+ */
+export function getSerializedOrderType(order: SerializableOrder): SerializedOrderType {
+    if (order instanceof LimitOrder) {
+        return SerializedOrderType.Limit;
+    }
+    if (order instanceof RfqOrder) {
+        return SerializedOrderType.Rfq;
+    }
+    if (order instanceof OtcOrder) {
+        return SerializedOrderType.Otc;
+    }
+    if (order instanceof ERC721Order) {
+        return SerializedOrderType.ERC721;
+    }
+    if (order instanceof ERC1155Order) {
+        return SerializedOrderType.ERC1155;
+    }
+    throw new Error(`Cannot serialize unknown order type`);
+}
+
+/**
+ * Convert an order to its canonical JSON representation.
+ * Throws if any field is out of range for its type.
+ */
+export function orderToJson(order: SerializableOrder): OrderJson {
+    const type = getSerializedOrderType(order);
+    return serializeStruct(ORDER_ABIS[type], order as unknown as StructValue, type);
+}
+
+/**
+ * Parse the canonical JSON representation of an order.
+ * Throws if the JSON does not match the schema or any field is out of range.
+ */
+export function orderFromJson(type: SerializedOrderType.Limit, json: OrderJson): LimitOrder;
+export function orderFromJson(type: SerializedOrderType.Rfq, json: OrderJson): RfqOrder;
+export function orderFromJson(type: SerializedOrderType.Otc, json: OrderJson): OtcOrder;
+export function orderFromJson(type: SerializedOrderType.ERC721, json: OrderJson): ERC721Order;
+export function orderFromJson(type: SerializedOrderType.ERC1155, json: OrderJson): ERC1155Order;
+export function orderFromJson(type: SerializedOrderType, json: OrderJson): SerializableOrder;
+export function orderFromJson(type: SerializedOrderType, json: OrderJson): SerializableOrder {
+    const schema = orderJsonSchemas[type];
+    if (!schema) {
+        throw new Error(`Unknown serialized order type: ${type}`);
+    }
+    assertValidJson(json, schema, `${type} order`);
+    const fields = deserializeStruct(ORDER_ABIS[type], json, type);
+    switch (type) {
+        case SerializedOrderType.Limit:
+            return new LimitOrder(fields as Partial<LimitOrderFields>);
+        case SerializedOrderType.Rfq:
+            return new RfqOrder(fields as Partial<RfqOrderFields>);
+        case SerializedOrderType.Otc:
+            return new OtcOrder(fields as Partial<OtcOrderFields>);
+        case SerializedOrderType.ERC721:
+            return new ERC721Order(fields as Partial<ERC721OrderFields>);
+        case SerializedOrderType.ERC1155:
+            return new ERC1155Order(fields as Partial<ERC1155OrderFields>);
+        default:
+            throw new Error(`Unknown serialized order type: ${type}`);
+    }
+}
+
+/**
+ * Convert a signature to its canonical JSON representation.
+ */
+export function signatureToJson(signature: Signature): OrderJson {
+    return serializeStruct(SIGNATURE_ABI, signature as unknown as StructValue, 'signature');
+}
+
+/**
+ * Parse the canonical JSON representation of a signature.
+ */
+export function signatureFromJson(json: OrderJson): Signature {
+    assertValidJson(json, signatureJsonSchema, 'signature');
+    return deserializeStruct(SIGNATURE_ABI, json, 'signature') as unknown as Signature;
+}
+
+/**
+ * Wrap an order and its (optional) signature in a versioned envelope.
+ */
+export function serializeOrder(order: SerializableOrder, signature?: Signature): OrderEnvelope {
+    return {
+        version: ORDER_ENVELOPE_VERSION,
+        type: getSerializedOrderType(order),
+        order: orderToJson(order),
+        ...(signature ? { signature: signatureToJson(signature) } : {}),
+    };
+}
+
+/**
+ * Unwrap an order and its (optional) signature from a versioned envelope,
+ * which may also be given as a JSON string.
+ */
+export function deserializeOrder(envelope: OrderEnvelope | string): DeserializedOrder {
+    const _envelope: OrderEnvelope = typeof envelope === 'string' ? JSON.parse(envelope) : envelope;
+    assertValidJson(_envelope, orderEnvelopeJsonSchema, 'order envelope');
+    if (_envelope.version !== ORDER_ENVELOPE_VERSION) {
+        throw new Error(`Unsupported order envelope version: ${_envelope.version}`);
+    }
+    return {
+        type: _envelope.type,
+        order: orderFromJson(_envelope.type, _envelope.order),
+        ...(_envelope.signature ? { signature: signatureFromJson(_envelope.signature) } : {}),
+    };
+}
@@ -0,0 +1,124 @@
+import { IZeroExContract, IZeroExEvents, IZeroExOrderSignerRegisteredEventArgs } from '@0x/contract-wrappers';
+import { AbiEncoder, RevertError } from '@0x/utils';
+import { BlockRange, LogWithDecodedArgs } from 'ethereum-types';
+
+import { LimitOrder, RfqOrder } from './orders';
+import { InvalidSignerError } from './revert-errors/native_orders';
+import { SignatureValidationError } from './revert-errors/signatures';
+import { recoverSignerFromSignature, Signature } from './signature_utils';
+
+/**
+ * ABI encoder for `INativeOrdersFeature.registerAllowedOrderSigner()`.
+ */
+export const registerAllowedOrderSignerEncoder = AbiEncoder.createMethod('registerAllowedOrderSigner', [
+    { name: 'signer', type: 'address' },
+    { name: 'allowed', type: 'bool' },
+]);
+
+/**
+ * Encode the calldata a maker sends to allow (or revoke) `signer` to sign
+ * limit and RFQ orders on their behalf.
+ */
+export function encodeRegisterAllowedOrderSignerCallData(signer: string, allowed: boolean): string {
+    return registerAllowedOrderSignerEncoder.encode({ signer, allowed });
+}
+
+/**
+ * Decode the calldata for `INativeOrdersFeature.registerAllowedOrderSigner()`.
+ */
+export function decodeRegisterAllowedOrderSignerCallData(callData: string): { signer: string; allowed: boolean } {
+    return registerAllowedOrderSignerEncoder.decode(callData) as { signer: string; allowed: boolean };
+}
+
+/**
+ * An `OrderSignerRegistered` event.
+ */
+export interface OrderSignerRegistration {
+    maker: string;
+    signer: string;
+    allowed: boolean;
+}
+
+/**
+ * Tracks which signers each maker has allowed via `registerAllowedOrderSigner()`,
+ * so signatures can be checked against `isValidOrderSigner()` locally.
+ */
+export class OrderSignerRegistry {
+    private readonly _allowedSigners: { [maker: string]: Set<string> } = {};
+
+    /**
+     * Apply an `OrderSignerRegistered` event. Events must be applied in the
+     * order they were emitted.
+     */
+    public applyRegistration(registration: OrderSignerRegistration): void {
+        const maker = registration.maker.toLowerCase();
+        const signers = this._allowedSigners[maker] || new Set<string>();
+        if (registration.allowed) {
+            signers.add(registration.signer.toLowerCase());
+        } else {
+            signers.delete(registration.signer.toLowerCase());
+        }
+        this._allowedSigners[maker] = signers;
+    }
+
+    /**
+     * Apply `OrderSignerRegistered` logs, in any order.
+     */
+    public applyLogs(logs: Array<LogWithDecodedArgs<IZeroExOrderSignerRegisteredEventArgs>>): void {
+        const sortedLogs = [...logs].sort(
+            (a, b) => (a.blockNumber || 0) - (b.blockNumber || 0) || (a.logIndex || 0) - (b.logIndex || 0),
+        );
+        for (const log of sortedLogs) {
+            this.applyRegistration(log.args);
+        }
+    }
+
+    /**
+     * Fetch and apply the `OrderSignerRegistered` logs emitted in `blockRange`.
+     */
+    public async syncAsync(zeroEx: IZeroExContract, blockRange: BlockRange): Promise<void> {
+        this.applyLogs(
+            await zeroEx.getLogsAsync<IZeroExOrderSignerRegisteredEventArgs>(
+                IZeroExEvents.OrderSignerRegistered,
+                blockRange,
+                {},
+            ),
+        );
+    }
+
+    /**
+     * Mirrors `isValidOrderSigner()`.
+     */
+    public isValidOrderSigner(maker: string, signer: string): boolean {
+        const signers = this._allowedSigners[maker.toLowerCase()];
+        return !!signers && signers.has(signer.toLowerCase());
+    }
+
+    /**
+     * The signers `maker` currently allows.
+     */
+    public getAllowedSigners(maker: string): string[] {
+        return [...(this._allowedSigners[maker.toLowerCase()] || [])];
+    }
+
+    /**
+     * Check that `signature` was created by the order's maker or a signer the
+     * maker allows. Returns the error to surface, or `undefined` if the signer
+     * is valid.
+     */
+    public validateOrderSigner(order: LimitOrder | RfqOrder, signature: Signature): RevertError | undefined {
+        let signer: string;
+        try {
+            signer = recoverSignerFromSignature(order.getHash(), signature);
+        } catch (err) {
+            if (err instanceof SignatureValidationError) {
+                return err;
+            }
+            throw err;
+        }
+        if (signer.toLowerCase() !== order.maker.toLowerCase() && !this.isValidOrderSigner(order.maker, signer)) {
+            return new InvalidSignerError(order.maker, signer);
+        }
+        return undefined;
+    }
+}
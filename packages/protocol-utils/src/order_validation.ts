@@ -0,0 +1,201 @@
+import { BigNumber, NULL_ADDRESS, RevertError } from '@0x/utils';
+
+import { ZERO } from './constants';
+import { LimitOrder, OrderInfo, OrderStatus, OtcOrder, OtcOrderInfo, RfqOrder } from './orders';
+import * as NativeOrdersRevertErrors from './revert-errors/native_orders';
+import { SignatureValidationError } from './revert-errors/signatures';
+import { recoverSignerFromSignature, Signature } from './signature_utils';
+
+/**
+ * On-chain state of an order, as tracked by the Exchange Proxy.
+ */
+export interface OrderValidationState {
+    // Unix timestamp (in seconds) to check expiry against. Defaults to now.
+    blockTimestamp: number;
+    // Taker token amount already filled (limit and RFQ orders).
+    takerTokenFilledAmount: BigNumber;
+    // Whether the order was cancelled by hash (limit and RFQ orders).
+    isCancelled: boolean;
+    // Minimum valid salt for the maker and token pair (limit and RFQ orders).
+    minValidSalt: BigNumber;
+    // Last nonce used by `txOrigin` in the order's nonce bucket (OTC orders).
+    lastTxOriginNonce: BigNumber;
+    // Signers registered for the maker via `registerAllowedOrderSigner()`.
+    allowedOrderSigners: string[];
+    // Origins registered for the order's `txOrigin` via `registerAllowedRfqOrigins()`.
+    allowedTxOrigins: string[];
+}
+
+/**
+ * The context an order would be filled in.
+ */
+export interface OrderFillContext {
+    // The taker filling the order. Usually `msg.sender`.
+    taker: string;
+    // The caller of the Exchange Proxy (limit orders). Defaults to `taker`.
+    sender: string;
+    // The transaction origin (RFQ and OTC orders). Defaults to `taker`.
+    txOrigin: string;
+}
+
+/**
+ * Compute the status of an order, mirroring `getLimitOrderInfo()`,
+ * `getRfqOrderInfo()` and `getOtcOrderInfo()`.
+ */
+export function getOrderInfo(order: OtcOrder, state?: Partial<OrderValidationState>): OtcOrderInfo;
+export function getOrderInfo(order: LimitOrder | RfqOrder, state?: Partial<OrderValidationState>): OrderInfo;
+export function getOrderInfo(
+    order: LimitOrder | RfqOrder | OtcOrder,
+    state?: Partial<OrderValidationState>,
+): OrderInfo | OtcOrderInfo;
+export function getOrderInfo(
+    order: LimitOrder | RfqOrder | OtcOrder,
+    state: Partial<OrderValidationState> = {},
+): OrderInfo | OtcOrderInfo {
+    const orderHash = order.getHash();
+    const blockTimestamp = new BigNumber(
+        state.blockTimestamp !== undefined ? state.blockTimestamp : Math.floor(Date.now() / 1000),
+    );
+    if (order instanceof OtcOrder) {
+        return { orderHash, status: getOtcOrderStatus(order, blockTimestamp, state) };
+    }
+    const takerTokenFilledAmount = state.takerTokenFilledAmount || ZERO;
+    let status = getCommonOrderStatus(order, takerTokenFilledAmount, blockTimestamp, state);
+    if (order instanceof RfqOrder && isNullAddress(order.txOrigin)) {
+        status = OrderStatus.Invalid;
+    }
+    return { orderHash, status, takerTokenFilledAmount };
+}
+
+/**
+ * Check whether an order can be filled, reproducing the checks the
+ * Exchange Proxy performs before settling it. Returns the error the fill
+ * would revert with, or `undefined` if the order is fillable.
+ */
+export function validateOrder(
+    order: LimitOrder | RfqOrder | OtcOrder,
+    signature: Signature,
+    context: Partial<OrderFillContext> = {},
+    state: Partial<OrderValidationState> = {},
+): RevertError | undefined {
+    const taker = context.taker || NULL_ADDRESS;
+    const sender = context.sender || taker;
+    const txOrigin = context.txOrigin || taker;
+    const { orderHash, status } = getOrderInfo(order, state);
+
+    // Must be fillable.
+    if (status !== OrderStatus.Fillable) {
+        return new NativeOrdersRevertErrors.OrderNotFillableError(orderHash, status);
+    }
+    if (order instanceof LimitOrder) {
+        const takerError = validateTaker(order, orderHash, taker);
+        if (takerError) {
+            return takerError;
+        }
+        // Must be fillable by the sender.
+        if (!isNullAddress(order.sender) && !isSameAddress(order.sender, sender)) {
+            return new NativeOrdersRevertErrors.OrderNotFillableBySenderError(orderHash, sender, order.sender);
+        }
+    } else if (order instanceof RfqOrder) {
+        const originError = validateTxOrigin(order, orderHash, txOrigin, state);
+        if (originError) {
+            return originError;
+        }
+        const takerError = validateTaker(order, orderHash, taker);
+        if (takerError) {
+            return takerError;
+        }
+    } else {
+        const takerError = validateTaker(order, orderHash, taker);
+        if (takerError) {
+            return takerError;
+        }
+        const originError = validateTxOrigin(order, orderHash, txOrigin, state);
+        if (originError) {
+            return originError;
+        }
+    }
+    // Signature must be valid for the order.
+    let signer: string;
+    try {
+        signer = recoverSignerFromSignature(orderHash, signature);
+    } catch (err) {
+        if (err instanceof SignatureValidationError) {
+            return err;
+        }
+        throw err;
+    }
+    const allowedOrderSigners = state.allowedOrderSigners || [];
+    if (!isSameAddress(signer, order.maker) && !allowedOrderSigners.some(s => isSameAddress(s, signer))) {
+        return new NativeOrdersRevertErrors.OrderNotSignedByMakerError(orderHash, signer, order.maker);
+    }
+    return undefined;
+}
+
+function getCommonOrderStatus(
+    order: LimitOrder | RfqOrder,
+    takerTokenFilledAmount: BigNumber,
+    blockTimestamp: BigNumber,
+    state: Partial<OrderValidationState>,
+): OrderStatus {
+    // An order with a zero taker amount is always considered filled.
+    if (takerTokenFilledAmount.isGreaterThanOrEqualTo(order.takerAmount)) {
+        return OrderStatus.Filled;
+    }
+    if (state.isCancelled) {
+        return OrderStatus.Cancelled;
+    }
+    if (order.expiry.isLessThanOrEqualTo(blockTimestamp)) {
+        return OrderStatus.Expired;
+    }
+    if ((state.minValidSalt || ZERO).isGreaterThan(order.salt)) {
+        return OrderStatus.Cancelled;
+    }
+    return OrderStatus.Fillable;
+}
+
+function getOtcOrderStatus(
+    order: OtcOrder,
+    blockTimestamp: BigNumber,
+    state: Partial<OrderValidationState>,
+): OrderStatus {
+    if (order.nonce.isLessThanOrEqualTo(state.lastTxOriginNonce || ZERO)) {
+        return OrderStatus.Invalid;
+    }
+    if (order.expiry.isLessThanOrEqualTo(blockTimestamp)) {
+        return OrderStatus.Expired;
+    }
+    return OrderStatus.Fillable;
+}
+
+function validateTaker(
+    order: LimitOrder | RfqOrder | OtcOrder,
+    orderHash: string,
+    taker: string,
+): RevertError | undefined {
+    if (!isNullAddress(order.taker) && !isSameAddress(order.taker, taker)) {
+        return new NativeOrdersRevertErrors.OrderNotFillableByTakerError(orderHash, taker, order.taker);
+    }
+    return undefined;
+}
+
+function validateTxOrigin(
+    order: RfqOrder | OtcOrder,
+    orderHash: string,
+    txOrigin: string,
+    state: Partial<OrderValidationState>,
+): RevertError | undefined {
+    const allowedTxOrigins = state.allowedTxOrigins || [];
+    if (!isSameAddress(order.txOrigin, txOrigin) && !allowedTxOrigins.some(o => isSameAddress(o, txOrigin))) {
+        return new NativeOrdersRevertErrors.OrderNotFillableByOriginError(orderHash, txOrigin, order.txOrigin);
+    }
+    return undefined;
+}
+
+function isNullAddress(address: string): boolean {
+    return isSameAddress(address, NULL_ADDRESS);
+}
+
+function isSameAddress(a: string, b: string): boolean {
+    return a.toLowerCase() === b.toLowerCase();
+}
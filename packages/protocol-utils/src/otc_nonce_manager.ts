@@ -0,0 +1,157 @@
+import { IZeroExContract } from '@0x/contract-wrappers';
+import { BigNumber } from '@0x/utils';
+
+import { ZERO } from './constants';
+import { OtcOrder } from './orders';
+
+/**
+ * Persists the last nonce allocated for each (txOrigin, nonce bucket).
+ * Services should implement this over their own database.
+ */
+export interface OtcNonceStore {
+    getLastNonceAsync(txOrigin: string, nonceBucket: BigNumber): Promise<BigNumber | undefined>;
+    setLastNonceAsync(txOrigin: string, nonceBucket: BigNumber, nonce: BigNumber): Promise<void>;
+}
+
+type SerializedNonces = { [txOrigin: string]: { [nonceBucket: string]: string } };
+
+/**
+ * An `OtcNonceStore` that does not outlive the process.
+ */
+export class InMemoryOtcNonceStore implements OtcNonceStore {
+    private readonly _nonces: SerializedNonces = {};
+
+    public async getLastNonceAsync(txOrigin: string, nonceBucket: BigNumber): Promise<BigNumber | undefined> {
+        const nonce = (this._nonces[txOrigin.toLowerCase()] || {})[nonceBucket.toString(10)];
+        return nonce === undefined ? undefined : new BigNumber(nonce);
+    }
+
+    public async setLastNonceAsync(txOrigin: string, nonceBucket: BigNumber, nonce: BigNumber): Promise<void> {
+        const key = txOrigin.toLowerCase();
+        this._nonces[key] = { ...this._nonces[key], [nonceBucket.toString(10)]: nonce.toString(10) };
+    }
+}
+
+export interface OtcNonceManagerOpts {
+    store: OtcNonceStore;
+    // The first nonce bucket to allocate from.
+    firstNonceBucket: BigNumber;
+    // How many consecutive nonce buckets to spread quotes across.
+    numNonceBuckets: number;
+}
+
+/**
+ * A nonce allocated by `OtcNonceManager`.
+ */
+export interface OtcNonce {
+    nonceBucket: BigNumber;
+    nonce: BigNumber;
+}
+
+/**
+ * Allocates OTC order nonces per (txOrigin, nonce bucket).
+ *
+ * Filling an OTC order invalidates every order with the same txOrigin and
+ * nonce bucket and a lower or equal nonce. To quote in parallel, allocations
+ * are spread across `numNonceBuckets` buckets in a round-robin, so up to that
+ * many outstanding quotes per txOrigin cannot invalidate each other.
+ */
+export class OtcNonceManager {
+    private readonly _opts: OtcNonceManagerOpts;
+    private readonly _nextBucketIndexes: { [txOrigin: string]: number } = {};
+    // Allocations are serialized so concurrent callers never share a nonce.
+    private _pending: Promise<unknown> = Promise.resolve();
+
+    constructor(opts: Partial<OtcNonceManagerOpts> = {}) {
+        this._opts = {
+            store: new InMemoryOtcNonceStore(),
+            firstNonceBucket: ZERO,
+            numNonceBuckets: 1,
+            ...opts,
+        };
+        const { firstNonceBucket, numNonceBuckets } = this._opts;
+        if (!Number.isInteger(numNonceBuckets) || numNonceBuckets < 1) {
+            throw new Error(`Invalid number of nonce buckets: ${numNonceBuckets}`);
+        }
+        if (
+            firstNonceBucket.isLessThan(0) ||
+            firstNonceBucket.plus(numNonceBuckets - 1).isGreaterThan(OtcOrder.MAX_NONCE_BUCKET)
+        ) {
+            throw new Error('Nonce bucket out of range');
+        }
+    }
+
+    /**
+     * The nonce buckets this manager allocates from.
+     */
+    public getNonceBuckets(): BigNumber[] {
+        return [...new Array(this._opts.numNonceBuckets)].map((_v, i) => this._opts.firstNonceBucket.plus(i));
+    }
+
+    /**
+     * Allocate the next nonce for `txOrigin`, from the next bucket in the
+     * round-robin or from `nonceBucket` if given.
+     */
+    public async allocateNonceAsync(txOrigin: string, nonceBucket?: BigNumber): Promise<OtcNonce> {
+        return this._serializeAsync(async () => {
+            const bucket = nonceBucket === undefined ? this._getNextNonceBucket(txOrigin) : nonceBucket;
+            if (!bucket.isInteger() || bucket.isLessThan(0) || bucket.isGreaterThan(OtcOrder.MAX_NONCE_BUCKET)) {
+                throw new Error('Nonce bucket out of range');
+            }
+            const lastNonce = (await this._opts.store.getLastNonceAsync(txOrigin, bucket)) || ZERO;
+            const nonce = lastNonce.plus(1);
+            if (nonce.isGreaterThan(OtcOrder.MAX_NONCE_VALUE)) {
+                throw new Error(`Nonce bucket ${bucket.toString(10)} is exhausted for ${txOrigin}`);
+            }
+            await this._opts.store.setLastNonceAsync(txOrigin, bucket, nonce);
+            return { nonceBucket: bucket, nonce };
+        });
+    }
+
+    /**
+     * Allocate the next nonce for `txOrigin` and pack it with `expiry` into an
+     * OTC order's `expiryAndNonce`.
+     */
+    public async createExpiryAndNonceAsync(txOrigin: string, expiry: BigNumber): Promise<BigNumber> {
+        const { nonceBucket, nonce } = await this.allocateNonceAsync(txOrigin);
+        return OtcOrder.encodeExpiryAndNonce(expiry, nonceBucket, nonce);
+    }
+
+    /**
+     * Record a nonce consumed on chain (or allocated elsewhere), so that later
+     * allocations in its bucket are higher.
+     */
+    public async recordNonceAsync(txOrigin: string, nonceBucket: BigNumber, nonce: BigNumber): Promise<void> {
+        return this._serializeAsync(async () => {
+            const lastNonce = await this._opts.store.getLastNonceAsync(txOrigin, nonceBucket);
+            if (lastNonce === undefined || nonce.isGreaterThan(lastNonce)) {
+                await this._opts.store.setLastNonceAsync(txOrigin, nonceBucket, nonce);
+            }
+        });
+    }
+
+    /**
+     * Fast-forward every managed bucket of `txOrigin` to the last nonce the
+     * Exchange Proxy has consumed, e.g. after restoring from an old store.
+     */
+    public async syncFromChainAsync(zeroEx: IZeroExContract, txOrigin: string): Promise<void> {
+        for (const nonceBucket of this.getNonceBuckets()) {
+            const lastNonce = await zeroEx.lastOtcTxOriginNonce(txOrigin, nonceBucket).callAsync();
+            await this.recordNonceAsync(txOrigin, nonceBucket, lastNonce);
+        }
+    }
+
+    private _getNextNonceBucket(txOrigin: string): BigNumber {
+        const key = txOrigin.toLowerCase();
+        const index = this._nextBucketIndexes[key] || 0;
+        this._nextBucketIndexes[key] = (index + 1) % this._opts.numNonceBuckets;
+        return this._opts.firstNonceBucket.plus(index);
+    }
+
+    private async _serializeAsync<T>(fn: () => Promise<T>): Promise<T> {
+        const result = this._pending.then(fn);
+        // Keep the queue going even if this allocation fails.
+        this._pending = result.catch(() => undefined);
+        return result;
+    }
+}
@@ -0,0 +1,197 @@
+import { getContractAddressesForChainOrThrow } from '@0x/contract-addresses';
+import { IZeroExContract } from '@0x/contract-wrappers';
+import { BigNumber } from '@0x/utils';
+import { CallTxDataBase } from 'ethereum-types';
+
+import { decodeExchangeProxyCallData } from './calldata_decoder';
+import { ZERO } from './constants';
+import {
+    decodeMultiplexSubcallData,
+    MultiHopSellSubcall,
+    MultiplexSubcall,
+    MultiplexSubcallData,
+} from './multiplex_utils';
+import { TransformerLookupOpts } from './transform_erc20_explainer';
+import {
+    decodeFillQuoteTransformerData,
+    FillQuoteTransformerOrderType,
+    getTransformerAddress,
+} from './transformer_utils';
+
+/**
+ * The protocol fee multiplier `deployFullFeaturesAsync()` deploys with.
+ */
+export const DEFAULT_PROTOCOL_FEE_MULTIPLIER = 70e3;
+
+/**
+ * How to compute the protocol fees of a call.
+ */
+export interface ProtocolFeeOpts extends TransformerLookupOpts {
+    // The Exchange Proxy's `getProtocolFeeMultiplier()`.
+    protocolFeeMultiplier: number;
+    // Legacy gas price.
+    gasPrice: BigNumber;
+    // EIP-1559 max fee per gas. Takes precedence over `gasPrice`, since
+    // `tx.gasprice` can be as high as this.
+    maxFeePerGas: BigNumber;
+}
+
+/**
+ * Protocol fees paid by a call to the Exchange Proxy.
+ */
+export interface ProtocolFeeEstimate {
+    // Limit order fills the attached ETH pays protocol fees for.
+    numLimitOrderFills: number;
+    // Limit order fills in multiplex TransformERC20 subcalls, which are not
+    // forwarded any ETH and are skipped by the `FillQuoteTransformer`.
+    numUnfundedLimitOrderFills: number;
+    protocolFeePerFill: BigNumber;
+    // ETH to attach on top of any ETH being sold. Unspent fees are refunded.
+    protocolFee: BigNumber;
+}
+
+/**
+ * Read the live protocol fee multiplier from the Exchange Proxy.
+ */
+export async function getProtocolFeeMultiplierAsync(zeroEx: IZeroExContract): Promise<number> {
+    return zeroEx.getProtocolFeeMultiplier().callAsync();
+}
+
+/**
+ * Compute the protocol fee paid for each limit order fill, which is
+ * `protocolFeeMultiplier * tx.gasprice`. Under EIP-1559 pricing this uses
+ * `maxFeePerGas`, the highest `tx.gasprice` the transaction can have.
+ */
+export function getProtocolFeePerFill(opts: Partial<ProtocolFeeOpts> = {}): BigNumber {
+    const gasPrice = opts.maxFeePerGas || opts.gasPrice;
+    if (!gasPrice) {
+        throw new Error('A gas price or max fee per gas is required to compute protocol fees');
+    }
+    const protocolFeeMultiplier =
+        opts.protocolFeeMultiplier === undefined ? DEFAULT_PROTOCOL_FEE_MULTIPLIER : opts.protocolFeeMultiplier;
+    return gasPrice.times(protocolFeeMultiplier).integerValue();
+}
+
+/**
+ * Estimate the protocol fees paid by calldata sent to the Exchange Proxy,
+ * for single and batch limit order fills and the limit order legs of
+ * `FillQuoteTransformer` transformations.
+ */
+export function estimateProtocolFees(callData: string, opts: Partial<ProtocolFeeOpts> = {}): ProtocolFeeEstimate {
+    const { functionName, args } = decodeExchangeProxyCallData(callData);
+    let numLimitOrderFills = 0;
+    let numUnfundedLimitOrderFills = 0;
+    switch (functionName) {
+        case 'fillLimitOrder':
+        case 'fillOrKillLimitOrder':
+            numLimitOrderFills = 1;
+            break;
+        case 'batchFillLimitOrders':
+            numLimitOrderFills = (args.orders as unknown[]).length;
+            break;
+        case 'transformERC20':
+            numLimitOrderFills = countFillQuoteLimitOrderFills(
+                args.transformations as unknown as RawTransformation[],
+                opts,
+            );
+            break;
+        case 'multiplexBatchSellEthForToken':
+        case 'multiplexBatchSellTokenForEth':
+        case 'multiplexBatchSellTokenForToken':
+        case 'multiplexMultiHopSellEthForToken':
+        case 'multiplexMultiHopSellTokenForEth':
+        case 'multiplexMultiHopSellTokenForToken':
+            numUnfundedLimitOrderFills = countMultiplexLimitOrderFills(args.calls as MultiplexSubcallData[], opts);
+            break;
+        default:
+            break;
+    }
+    const protocolFeePerFill = numLimitOrderFills + numUnfundedLimitOrderFills > 0 ? getProtocolFeePerFill(opts) : ZERO;
+    return {
+        numLimitOrderFills,
+        numUnfundedLimitOrderFills,
+        protocolFeePerFill,
+        protocolFee: protocolFeePerFill.times(numLimitOrderFills),
+    };
+}
+
+/**
+ * Add the protocol fees of a transaction to its `value`, using its
+ * `gasPrice` or `maxFeePerGas`.
+ */
+export function withProtocolFeeValue<T extends CallTxDataBase & { data: string }>(
+    txData: T,
+    opts: Partial<Pick<ProtocolFeeOpts, 'protocolFeeMultiplier' | keyof TransformerLookupOpts>> = {},
+): T & { value: BigNumber } {
+    const { protocolFee } = estimateProtocolFees(txData.data, {
+        ...opts,
+        gasPrice: txData.gasPrice === undefined ? undefined : new BigNumber(txData.gasPrice),
+        maxFeePerGas: txData.maxFeePerGas === undefined ? undefined : new BigNumber(txData.maxFeePerGas),
+    });
+    return { ...txData, value: new BigNumber(txData.value || 0).plus(protocolFee) };
+}
+
+/**
+ * Like `withProtocolFeeValue()`, but reads the live protocol fee multiplier
+ * from the Exchange Proxy.
+ */
+export async function withProtocolFeeValueAsync<T extends CallTxDataBase & { data: string }>(
+    zeroEx: IZeroExContract,
+    txData: T,
+    opts: Partial<TransformerLookupOpts> = {},
+): Promise<T & { value: BigNumber }> {
+    return withProtocolFeeValue(txData, {
+        ...opts,
+        protocolFeeMultiplier: await getProtocolFeeMultiplierAsync(zeroEx),
+    });
+}
+
+interface RawTransformation {
+    deploymentNonce: BigNumber | number;
+    data: string;
+}
+
+function countFillQuoteLimitOrderFills(
+    transformations: RawTransformation[],
+    opts: Partial<TransformerLookupOpts>,
+): number {
+    const addresses = getContractAddressesForChainOrThrow(opts.chainId === undefined ? 1 : opts.chainId);
+    const deployer = opts.deployer || addresses.exchangeProxyTransformerDeployer;
+    const fillQuoteTransformer = (
+        (opts.transformers && opts.transformers.fillQuoteTransformer) ||
+        addresses.transformers.fillQuoteTransformer
+    ).toLowerCase();
+    let numFills = 0;
+    for (const { deploymentNonce, data } of transformations) {
+        if (getTransformerAddress(deployer, new BigNumber(deploymentNonce).toNumber()) === fillQuoteTransformer) {
+            // Each limit order in the fill sequence pays a protocol fee.
+            numFills += decodeFillQuoteTransformerData(data).fillSequence.filter(orderType =>
+                new BigNumber(orderType).isEqualTo(FillQuoteTransformerOrderType.Limit),
+            ).length;
+        }
+    }
+    return numFills;
+}
+
+function countMultiplexLimitOrderFills(calls: MultiplexSubcallData[], opts: Partial<TransformerLookupOpts>): number {
+    let numFills = 0;
+    for (const call of calls) {
+        switch (call.id) {
+            case MultiplexSubcall.TransformERC20:
+                numFills += countFillQuoteLimitOrderFills(call.data.transformations, opts);
+                break;
+            case MultiplexSubcall.BatchSell:
+            case MultiplexSubcall.MultiHopSell:
+                numFills += countMultiplexLimitOrderFills(
+                    (call.data.calls as MultiHopSellSubcall[]).map(c =>
+                        decodeMultiplexSubcallData({ ...c, id: new BigNumber(c.id).toNumber() }),
+                    ),
+                    opts,
+                );
+                break;
+            default:
+                break;
+        }
+    }
+    return numFills;
+}
@@ -1,4 +1,4 @@
-export { RevertError } from '@0x/utils';
+import { RawRevertError, RevertError } from '@0x/utils';
 
 import {
     Common,
@@ -16,6 +16,8 @@ import * as NativeOrders from './native_orders';
 import * as NFTOrders from './nft_orders';
 import * as Signatures from './signatures';
 
+export { RevertError };
+
 export {
     Common,
     Proxy,
@@ -31,3 +33,17 @@ export {
     Signatures,
     NFTOrders,
 };
+
+/**
+ * Decode the revert data of a call to the Exchange Proxy into a typed
+ * `RevertError`. Unknown or malformed revert data is returned as a
+ * `RawRevertError`.
+ */
+export function decodeExchangeProxyRevert(data: string): RevertError {
+    try {
+        return RevertError.decode(data, true);
+    } catch (err) {
+        // The selector is known but the data does not match its ABI.
+        return new RawRevertError(data);
+    }
+}
@@ -121,6 +121,19 @@ export class PropertyValidationFailedError extends RevertError {
     }
 }
 
+export class ExceedsRemainingOrderAmount extends RevertError {
+    constructor(remainingOrderAmount?: Numberish, fillAmount?: Numberish) {
+        super(
+            'ExceedsRemainingOrderAmount',
+            'ExceedsRemainingOrderAmount(uint128 remainingOrderAmount, uint128 fillAmount)',
+            {
+                remainingOrderAmount,
+                fillAmount,
+            },
+        );
+    }
+}
+
 const types = [
     OverspentEthError,
     InsufficientEthError,
@@ -133,6 +146,7 @@ const types = [
     OrderNotFillableError,
     TokenIdMismatchError,
     PropertyValidationFailedError,
+    ExceedsRemainingOrderAmount,
 ];
 
 // Register the types we've defined.
@@ -1,9 +1,15 @@
 import { SupportedProvider } from 'ethereum-types';
 import { EIP712TypedData } from '@0x/types';
-import { hexUtils, providerUtils, signTypedDataUtils } from '@0x/utils';
+import { BigNumber, hexUtils, providerUtils, signTypedDataUtils } from '@0x/utils';
 import { Web3Wrapper } from '@0x/web3-wrapper';
 import * as ethjs from 'ethereumjs-util';
 
+import { SignatureValidationError, SignatureValidationErrorCodes } from './revert-errors/signatures';
+
+const ECDSA_SIGNATURE_R_LIMIT = new BigNumber('fffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141', 16);
+const ECDSA_SIGNATURE_S_LIMIT = ECDSA_SIGNATURE_R_LIMIT.idiv(2).plus(1);
+const COMPACT_SIGNATURE_Y_PARITY_BIT = new BigNumber(2).pow(255);
+
 /**
  * Valid signature types on the Exchange Proxy.
  */
@@ -15,6 +21,15 @@ export enum SignatureType {
     PreSigned = 4,
 }
 
+// v3 Exchange signature type IDs of the signature types the Exchange Proxy supports.
+const V3_SIGNATURE_TYPE_IDS: { [type: number]: number } = {
+    [SignatureType.Illegal]: 0,
+    [SignatureType.Invalid]: 1,
+    [SignatureType.EIP712]: 2,
+    [SignatureType.EthSign]: 3,
+    [SignatureType.PreSigned]: 6,
+};
+
 /**
  * Represents a raw EC signature.
  */
@@ -61,11 +76,8 @@ export async function ethSignHashWithProviderAsync(
  * Sign a hash with the EthSign signature type, given a private key.
  */
 export function ethSignHashWithKey(hash: string, key: string): Signature {
-    const ethHash = hexUtils.toHex(
-        ethjs.keccak256(ethjs.toBuffer(hexUtils.concat(Buffer.from('\x19Ethereum Signed Message:\n32'), hash))),
-    );
     return {
-        ...ecSignHashWithKey(ethHash, key),
+        ...ecSignHashWithKey(getEthSignHash(hash), key),
         signatureType: SignatureType.EthSign,
     };
 }
@@ -119,6 +131,211 @@ export function ecSignHashWithKey(hash: string, key: string): ECSignature {
     };
 }
 
+/**
+ * Recover the signer of a hash from an `EIP712` or `EthSign` signature.
+ * Throws a `SignatureValidationError` under the same conditions as
+ * `LibSignature.getSignerOfHash()`.
+ */
+export function recoverSignerFromSignature(hash: string, signature: Signature): string {
+    if (
+        new BigNumber(signature.r).isGreaterThanOrEqualTo(ECDSA_SIGNATURE_R_LIMIT) ||
+        new BigNumber(signature.s).isGreaterThanOrEqualTo(ECDSA_SIGNATURE_S_LIMIT)
+    ) {
+        throw new SignatureValidationError(SignatureValidationErrorCodes.BadSignatureData, hash);
+    }
+    switch (signature.signatureType) {
+        case SignatureType.Illegal:
+            throw new SignatureValidationError(SignatureValidationErrorCodes.Illegal, hash);
+        case SignatureType.Invalid:
+            throw new SignatureValidationError(SignatureValidationErrorCodes.AlwaysInvalid, hash);
+        case SignatureType.PreSigned:
+            throw new SignatureValidationError(SignatureValidationErrorCodes.Unsupported, hash);
+        case SignatureType.EIP712:
+            return ecrecoverOrThrow(hash, hash, signature);
+        case SignatureType.EthSign:
+            return ecrecoverOrThrow(getEthSignHash(hash), hash, signature);
+        default:
+            throw new SignatureValidationError(SignatureValidationErrorCodes.BadSignatureData, hash);
+    }
+}
+
+/**
+ * Check whether a signature over a hash was produced by `signer`.
+ * Only NFT orders can be pre-signed on the Exchange Proxy, so `PreSigned`
+ * signatures are only valid if `isPreSignedAsync` says so. To check an NFT
+ * order against the Exchange Proxy, use `ERC721Order.isValidSignatureAsync()`
+ * or `ERC1155Order.isValidSignatureAsync()` instead.
+ */
+export async function isValidSignatureAsync(
+    hash: string,
+    signature: Signature,
+    signer: string,
+    isPreSignedAsync?: (hash: string) => Promise<boolean>,
+): Promise<boolean> {
+    if (signature.signatureType === SignatureType.PreSigned) {
+        return isPreSignedAsync !== undefined ? isPreSignedAsync(hash) : false;
+    }
+    try {
+        return recoverSignerFromSignature(hash, signature).toLowerCase() === signer.toLowerCase();
+    } catch (err) {
+        if (err instanceof SignatureValidationError) {
+            return false;
+        }
+        throw err;
+    }
+}
+
+/**
+ * Encode an EC signature as 65 bytes of `r`, `s`, `v`.
+ */
+export function encodePackedSignature(signature: ECSignature): string {
+    assertValidECSignature(signature);
+    return hexUtils.concat(signature.r, signature.s, signature.v);
+}
+
+/**
+ * Decode a 65-byte `r`, `s`, `v` signature, as returned by most wallets.
+ */
+export function decodePackedSignature(packed: string, signatureType: SignatureType): Signature {
+    if (hexUtils.size(packed) !== 65) {
+        throw new Error(`Invalid packed signature length: "${packed}"`);
+    }
+    const v = parseInt(hexUtils.slice(packed, 64, 65).substr(2), 16);
+    const signature = {
+        signatureType,
+        // Some wallets encode V as 0,1 instead of 27,28.
+        v: v < 27 ? v + 27 : v,
+        r: hexUtils.slice(packed, 0, 32),
+        s: hexUtils.slice(packed, 32, 64),
+    };
+    assertValidECSignature(signature);
+    return signature;
+}
+
+/**
+ * Encode an EC signature in the 64-byte EIP-2098 compact form, which packs
+ * `v` into the high bit of `s`.
+ */
+export function encodeCompactSignature(signature: ECSignature): string {
+    assertValidECSignature(signature);
+    let yParityAndS = new BigNumber(signature.s);
+    if (signature.v === 28) {
+        yParityAndS = yParityAndS.plus(COMPACT_SIGNATURE_Y_PARITY_BIT);
+    }
+    return hexUtils.concat(signature.r, hexUtils.leftPad(yParityAndS));
+}
+
+/**
+ * Decode a 64-byte EIP-2098 compact signature.
+ */
+export function decodeCompactSignature(compact: string, signatureType: SignatureType): Signature {
+    if (hexUtils.size(compact) !== 64) {
+        throw new Error(`Invalid compact signature length: "${compact}"`);
+    }
+    let s = new BigNumber(hexUtils.slice(compact, 32, 64).substr(2), 16);
+    let v = 27;
+    if (s.isGreaterThanOrEqualTo(COMPACT_SIGNATURE_Y_PARITY_BIT)) {
+        s = s.minus(COMPACT_SIGNATURE_Y_PARITY_BIT);
+        v = 28;
+    }
+    const signature = {
+        signatureType,
+        v,
+        r: hexUtils.slice(compact, 0, 32),
+        s: hexUtils.leftPad(s),
+    };
+    assertValidECSignature(signature);
+    return signature;
+}
+
+/**
+ * Encode a signature in the v3 Exchange `bytes` format, which is `v`, `r`, `s`
+ * followed by the signature type. `PreSigned` signatures are just the type.
+ */
+export function encodeLegacySignature(signature: Signature): string {
+    const typeId = V3_SIGNATURE_TYPE_IDS[signature.signatureType];
+    if (typeId === undefined) {
+        throw new Error(`Cannot encode signature type: ${signature.signatureType}`);
+    }
+    if (signature.signatureType !== SignatureType.EIP712 && signature.signatureType !== SignatureType.EthSign) {
+        return hexUtils.leftPad(typeId, 1);
+    }
+    assertValidECSignature(signature);
+    return hexUtils.concat(signature.v, signature.r, signature.s, typeId);
+}
+
+/**
+ * Decode a signature in the v3 Exchange `bytes` format. Only signature types
+ * supported by the Exchange Proxy can be decoded.
+ */
+export function decodeLegacySignature(bytes: string): Signature {
+    const size = hexUtils.size(bytes);
+    if (size === 0) {
+        throw new Error(`Invalid legacy signature length: "${bytes}"`);
+    }
+    const typeId = parseInt(hexUtils.slice(bytes, size - 1).substr(2), 16);
+    const signatureType = Object.keys(V3_SIGNATURE_TYPE_IDS)
+        .map(type => parseInt(type, 10))
+        .find(type => V3_SIGNATURE_TYPE_IDS[type] === typeId);
+    if (signatureType === undefined) {
+        throw new Error(`Unsupported legacy signature type: ${typeId}`);
+    }
+    if (signatureType !== SignatureType.EIP712 && signatureType !== SignatureType.EthSign) {
+        return { signatureType, v: 0, r: hexUtils.leftPad(0), s: hexUtils.leftPad(0) };
+    }
+    if (size !== 66) {
+        throw new Error(`Invalid legacy signature length: "${bytes}"`);
+    }
+    const signature = {
+        signatureType,
+        v: parseInt(hexUtils.slice(bytes, 0, 1).substr(2), 16),
+        r: hexUtils.slice(bytes, 1, 33),
+        s: hexUtils.slice(bytes, 33, 65),
+    };
+    assertValidECSignature(signature);
+    return signature;
+}
+
+// Throw if an EC signature would not pass `LibSignature` validation.
+function assertValidECSignature(signature: ECSignature): void {
+    if (signature.v !== 27 && signature.v !== 28) {
+        throw new Error(`Invalid signature v value: ${signature.v}`);
+    }
+    if (hexUtils.size(signature.r) !== 32 || hexUtils.size(signature.s) !== 32) {
+        throw new Error('Invalid signature r or s length');
+    }
+    if (new BigNumber(signature.r).isGreaterThanOrEqualTo(ECDSA_SIGNATURE_R_LIMIT)) {
+        throw new Error(`Invalid signature r value: ${signature.r}`);
+    }
+    if (new BigNumber(signature.s).isGreaterThanOrEqualTo(ECDSA_SIGNATURE_S_LIMIT)) {
+        throw new Error(`Signature s value is not in the lower half of the curve order: ${signature.s}`);
+    }
+}
+
+// Compute the hash an `EthSign` signature actually signs.
+function getEthSignHash(hash: string): string {
+    return hexUtils.hash(hexUtils.concat(hexUtils.toHex(Buffer.from('\x19Ethereum Signed Message:\n32')), hash));
+}
+
+// `ecrecover()` a digest, throwing where the EVM would return the null address.
+function ecrecoverOrThrow(digest: string, hash: string, signature: Signature): string {
+    if (signature.v !== 27 && signature.v !== 28) {
+        throw new SignatureValidationError(SignatureValidationErrorCodes.BadSignatureData, hash);
+    }
+    let publicKey: Buffer;
+    try {
+        publicKey = ethjs.ecrecover(
+            ethjs.toBuffer(digest),
+            signature.v,
+            ethjs.toBuffer(signature.r),
+            ethjs.toBuffer(signature.s),
+        );
+    } catch (err) {
+        throw new SignatureValidationError(SignatureValidationErrorCodes.BadSignatureData, hash);
+    }
+    return ethjs.bufferToHex(ethjs.pubToAddress(publicKey));
+}
+
 // Parse a hex signature returned by an RPC call into an `ECSignature`.
 function parseRpcSignature(rpcSig: string): ECSignature {
     if (hexUtils.size(rpcSig) !== 65) {
@@ -0,0 +1,254 @@
+import { ContractAddresses, getContractAddressesForChainOrThrow } from '@0x/contract-addresses';
+import { BigNumber, NULL_ADDRESS } from '@0x/utils';
+
+import { ETH_TOKEN_ADDRESS, ZERO } from './constants';
+import { estimateProtocolFees, ProtocolFeeOpts } from './protocol_fee_utils';
+import {
+    encodeTransformERC20CallData,
+    TransformERC20CallData,
+    TransformerLookupOpts,
+    TransformerName,
+} from './transform_erc20_explainer';
+import {
+    AffiliateFeeTransformerData,
+    encodeAffiliateFeeTransformerData,
+    encodeFillQuoteTransformerData,
+    encodePayTakerTransformerData,
+    encodePositiveSlippageFeeTransformerData,
+    encodeWethTransformerData,
+    FillQuoteTransformerData,
+    FillQuoteTransformerSide,
+    findTransformerNonce,
+} from './transformer_utils';
+
+const MAX_UINT256 = new BigNumber(2).pow(256).minus(1);
+
+/**
+ * Where to look up the transformers and tokens a pipeline uses.
+ */
+export interface TransformERC20BuilderOpts extends TransformerLookupOpts {
+    // Overrides the chain's WETH address.
+    weth: string;
+    // Overrides the chain's Exchange Proxy address.
+    exchangeProxy: string;
+}
+
+/**
+ * How to finalize a `transformERC20()` call.
+ */
+export interface TransformERC20BuildOpts
+    extends Pick<ProtocolFeeOpts, 'gasPrice' | 'maxFeePerGas' | 'protocolFeeMultiplier'> {
+    // Defaults to the expected output amount less `slippage`.
+    minOutputTokenAmount: BigNumber;
+    // Fraction of the expected output amount that may be lost.
+    slippage: number;
+}
+
+/**
+ * A `transformERC20()` transaction, ready to send.
+ */
+export interface TransformERC20Tx {
+    to: string;
+    data: string;
+    // ETH being sold plus protocol fees for limit order fills.
+    value: BigNumber;
+    callData: TransformERC20CallData;
+    // Output tokens received if every fill matches its quote.
+    expectedOutputTokenAmount?: BigNumber;
+}
+
+/**
+ * Builds the transformations of a `transformERC20()` call one step at a time,
+ * checking that each step consumes a token the previous steps produced.
+ */
+export class TransformERC20Builder {
+    private readonly _deployer: string;
+    private readonly _transformers: ContractAddresses['transformers'];
+    private readonly _weth: string;
+    private readonly _exchangeProxy: string;
+    private readonly _transformations: TransformERC20CallData['transformations'] = [];
+    // Tokens the flash wallet has held so far.
+    private readonly _heldTokens = new Set<string>();
+    // The token the flash wallet currently holds.
+    private _currentToken: string;
+    private _expectedAmount?: BigNumber;
+    private _isPaid = false;
+
+    constructor(
+        public readonly inputToken: string,
+        public readonly inputTokenAmount: BigNumber,
+        opts: Partial<TransformERC20BuilderOpts> = {},
+    ) {
+        const addresses = getContractAddressesForChainOrThrow(opts.chainId === undefined ? 1 : opts.chainId);
+        this._deployer = opts.deployer || addresses.exchangeProxyTransformerDeployer;
+        this._transformers = { ...addresses.transformers, ...opts.transformers };
+        this._weth = (opts.weth || addresses.etherToken).toLowerCase();
+        this._exchangeProxy = opts.exchangeProxy || addresses.exchangeProxy;
+        this._currentToken = inputToken.toLowerCase();
+        this._heldTokens.add(this._currentToken);
+        this._expectedAmount = inputTokenAmount;
+    }
+
+    /**
+     * Wrap `amount` ETH into WETH. Defaults to the input amount when selling
+     * ETH, since the flash wallet's balance also holds the protocol fees, or
+     * else the entire balance.
+     */
+    public wrapEth(amount?: BigNumber): this {
+        this._expectCurrentToken(ETH_TOKEN_ADDRESS, 'wrap ETH');
+        const wrapAmount =
+            amount || (this.inputToken.toLowerCase() === ETH_TOKEN_ADDRESS ? this.inputTokenAmount : MAX_UINT256);
+        this._addTransformation(
+            'wethTransformer',
+            encodeWethTransformerData({ token: ETH_TOKEN_ADDRESS, amount: wrapAmount }),
+        );
+        this._setCurrentToken(this._weth, amount || this._expectedAmount);
+        return this;
+    }
+
+    /**
+     * Unwrap `amount` WETH, or the entire balance, into ETH.
+     */
+    public unwrapWeth(amount?: BigNumber): this {
+        this._expectCurrentToken(this._weth, 'unwrap WETH');
+        this._addTransformation(
+            'wethTransformer',
+            encodeWethTransformerData({ token: this._weth, amount: amount || MAX_UINT256 }),
+        );
+        this._setCurrentToken(ETH_TOKEN_ADDRESS, amount || this._expectedAmount);
+        return this;
+    }
+
+    /**
+     * Fill orders with the `FillQuoteTransformer`. `expectedBuyAmount` is the
+     * amount of `buyToken` the fills are quoted for, which market buys default
+     * to their fill amount.
+     */
+    public fillQuote(data: FillQuoteTransformerData, expectedBuyAmount?: BigNumber): this {
+        this._expectCurrentToken(data.sellToken, 'fill a quote');
+        this._addTransformation('fillQuoteTransformer', encodeFillQuoteTransformerData(data));
+        this._setCurrentToken(
+            data.buyToken,
+            expectedBuyAmount || (data.side === FillQuoteTransformerSide.Buy ? data.fillAmount : undefined),
+        );
+        return this;
+    }
+
+    /**
+     * Pay fixed fees in tokens the flash wallet has held.
+     */
+    public affiliateFee(fees: AffiliateFeeTransformerData['fees']): this {
+        for (const fee of fees) {
+            if (!this._heldTokens.has(fee.token.toLowerCase())) {
+                throw new Error(`Cannot pay a fee in ${fee.token}, which the pipeline never holds`);
+            }
+            if (fee.token.toLowerCase() === this._currentToken && this._expectedAmount) {
+                this._expectedAmount = BigNumber.max(this._expectedAmount.minus(fee.amount), ZERO);
+            }
+        }
+        this._addTransformation('affiliateFeeTransformer', encodeAffiliateFeeTransformerData({ fees }));
+        return this;
+    }
+
+    /**
+     * Pay any balance of the current token above `bestCaseAmount` to `recipient`.
+     */
+    public positiveSlippageFee(bestCaseAmount: BigNumber, recipient: string): this {
+        const token = this._currentToken;
+        this._addTransformation(
+            'positiveSlippageFeeTransformer',
+            encodePositiveSlippageFeeTransformerData({ token, bestCaseAmount, recipient }),
+        );
+        if (this._expectedAmount) {
+            this._expectedAmount = BigNumber.min(this._expectedAmount, bestCaseAmount);
+        }
+        return this;
+    }
+
+    /**
+     * Pay the entire balances of `tokens` to the taker. Defaults to the
+     * current token, any unsold input token and any unspent ETH. This must be
+     * the last step, and is added by `build()` if missing.
+     */
+    public payTaker(tokens?: string[]): this {
+        const payoutTokens = tokens || [
+            ...new Set([this._currentToken, this.inputToken.toLowerCase(), ETH_TOKEN_ADDRESS]),
+        ];
+        this._addTransformation(
+            'payTakerTransformer',
+            encodePayTakerTransformerData({ tokens: payoutTokens, amounts: [] }),
+        );
+        this._isPaid = true;
+        return this;
+    }
+
+    /**
+     * Encode the `transformERC20()` call. The output token is the token held
+     * after the last step.
+     */
+    public build(opts: Partial<TransformERC20BuildOpts> = {}): TransformERC20Tx {
+        if (!this._isPaid) {
+            this.payTaker();
+        }
+        const slippage = opts.slippage === undefined ? 0 : opts.slippage;
+        if (slippage < 0 || slippage > 1) {
+            throw new Error(`Invalid slippage: ${slippage}`);
+        }
+        let minOutputTokenAmount = opts.minOutputTokenAmount;
+        if (minOutputTokenAmount === undefined) {
+            if (this._expectedAmount === undefined) {
+                throw new Error('A minimum output token amount is required when the output amount is not known');
+            }
+            minOutputTokenAmount = this._expectedAmount.times(1 - slippage).integerValue(BigNumber.ROUND_DOWN);
+        }
+        const callData: TransformERC20CallData = {
+            inputToken: this.inputToken,
+            outputToken: this._currentToken,
+            inputTokenAmount: this.inputTokenAmount,
+            minOutputTokenAmount,
+            transformations: [...this._transformations],
+        };
+        const data = encodeTransformERC20CallData(callData);
+        const { protocolFee } = estimateProtocolFees(data, {
+            ...opts,
+            deployer: this._deployer,
+            transformers: this._transformers,
+        });
+        const ethAmount = this.inputToken.toLowerCase() === ETH_TOKEN_ADDRESS ? this.inputTokenAmount : ZERO;
+        return {
+            to: this._exchangeProxy,
+            data,
+            value: ethAmount.plus(protocolFee),
+            callData,
+            expectedOutputTokenAmount: this._expectedAmount,
+        };
+    }
+
+    private _addTransformation(name: TransformerName, data: string): void {
+        this._assertNotPaid();
+        const transformer = this._transformers[name];
+        if (!transformer || transformer === NULL_ADDRESS) {
+            throw new Error(`The ${name} is not deployed on this chain`);
+        }
+        this._transformations.push({ deploymentNonce: findTransformerNonce(transformer, this._deployer), data });
+    }
+
+    private _assertNotPaid(): void {
+        if (this._isPaid) {
+            throw new Error('Cannot add steps after paying the taker');
+        }
+    }
+
+    private _expectCurrentToken(token: string, action: string): void {
+        this._assertNotPaid();
+        if (token.toLowerCase() !== this._currentToken) {
+            throw new Error(`Cannot ${action} with ${token} while the pipeline holds ${this._currentToken}`);
+        }
+    }
+
+    private _setCurrentToken(token: string, expectedAmount: BigNumber | undefined): void {
+        this._currentToken = token.toLowerCase();
+        this._heldTokens.add(this._currentToken);
+        this._expectedAmount = expectedAmount;
+    }
+}
@@ -0,0 +1,406 @@
+import { ContractAddresses, getContractAddressesForChainOrThrow } from '@0x/contract-addresses';
+import { AbiEncoder, BigNumber } from '@0x/utils';
+
+import { decodeBridgeData, DecodedBridgeData, isSupportedBridgeProtocol } from './bridge_data_utils';
+import { ETH_TOKEN_ADDRESS } from './constants';
+import { decodeFractionalFillAmount, isFractionalFillAmount } from './multiplex_utils';
+import {
+    AffiliateFeeTransformerData,
+    BridgeProtocol,
+    decodeAffiliateFeeTransformerData,
+    decodeBridgeSourceId,
+    decodeFillQuoteTransformerData,
+    decodePayTakerTransformerData,
+    decodePositiveSlippageFeeTransformerData,
+    decodeWethTransformerData,
+    FillQuoteTransformerData,
+    FillQuoteTransformerOrderType,
+    FillQuoteTransformerSide,
+    getTransformerAddress,
+    PayTakerTransformerData,
+    PositiveSlippageFeeTransformerData,
+    WethTransformerData,
+} from './transformer_utils';
+
+const MAX_UINT256 = new BigNumber(2).pow(256).minus(1);
+
+/**
+ * ABI encoder for `ITransformERC20Feature.transformERC20()`.
+ */
+export const transformERC20Encoder = AbiEncoder.createMethod('transformERC20', [
+    { name: 'inputToken', type: 'address' },
+    { name: 'outputToken', type: 'address' },
+    { name: 'inputTokenAmount', type: 'uint256' },
+    { name: 'minOutputTokenAmount', type: 'uint256' },
+    {
+        name: 'transformations',
+        type: 'tuple[]',
+        components: [
+            { name: 'deploymentNonce', type: 'uint32' },
+            { name: 'data', type: 'bytes' },
+        ],
+    },
+]);
+
+/**
+ * Arguments to `ITransformERC20Feature.transformERC20()`.
+ */
+export interface TransformERC20CallData {
+    inputToken: string;
+    outputToken: string;
+    inputTokenAmount: BigNumber;
+    minOutputTokenAmount: BigNumber;
+    transformations: Array<{
+        deploymentNonce: number;
+        data: string;
+    }>;
+}
+
+/**
+ * Encode the calldata for `ITransformERC20Feature.transformERC20()`.
+ */
+export function encodeTransformERC20CallData(data: TransformERC20CallData): string {
+    return transformERC20Encoder.encode(data);
+}
+
+/**
+ * Decode the calldata for `ITransformERC20Feature.transformERC20()`.
+ */
+export function decodeTransformERC20CallData(callData: string): TransformERC20CallData {
+    const { transformations, ...rest } = transformERC20Encoder.decode(callData) as Omit<
+        TransformERC20CallData,
+        'transformations'
+    > & { transformations: Array<{ deploymentNonce: BigNumber | number; data: string }> };
+    return {
+        ...rest,
+        transformations: transformations.map(t => ({
+            deploymentNonce: new BigNumber(t.deploymentNonce).toNumber(),
+            data: t.data,
+        })),
+    };
+}
+
+/**
+ * Name of a transformer in the `transformers` map of `@0x/contract-addresses`.
+ */
+export type TransformerName = keyof ContractAddresses['transformers'];
+
+/**
+ * Where to look up the transformers referenced by a `transformERC20()` call.
+ */
+export interface TransformerLookupOpts {
+    // Chain to take the deployer and transformer addresses from. Defaults to mainnet.
+    chainId: number;
+    // Overrides the chain's transformer deployer.
+    deployer: string;
+    // Overrides (some of) the chain's transformer addresses.
+    transformers: Partial<ContractAddresses['transformers']>;
+}
+
+/**
+ * A single order filled by the `FillQuoteTransformer`, in fill sequence order.
+ */
+export interface FillQuoteStepExplanation {
+    orderType: FillQuoteTransformerOrderType;
+    // Maximum taker token amount the order will be filled for.
+    takerTokenAmount: BigNumber;
+    // Maker of a native order.
+    maker?: string;
+    // Source and decoded `bridgeData` of a bridge order. `data` is undefined
+    // if the protocol's bridge data format is not known.
+    bridgeSource?: {
+        protocol: BridgeProtocol;
+        name: string;
+        data?: DecodedBridgeData['data'];
+    };
+}
+
+interface TransformationExplanationBase {
+    deploymentNonce: number;
+    // Address the deployment nonce resolves to.
+    transformer: string;
+    data: string;
+}
+
+/**
+ * Explanation of a `FillQuoteTransformer` transformation.
+ */
+export interface FillQuoteTransformationExplanation extends TransformationExplanationBase {
+    name: 'fillQuoteTransformer';
+    decoded: FillQuoteTransformerData;
+    side: FillQuoteTransformerSide;
+    sellToken: string;
+    buyToken: string;
+    // Fill amount, or undefined if only `fillFraction` of the balance is filled.
+    fillAmount?: BigNumber;
+    // Fraction of the transformer's balance to fill.
+    fillFraction?: BigNumber;
+    fillSequence: FillQuoteStepExplanation[];
+}
+
+/**
+ * Explanation of a `WethTransformer` transformation.
+ */
+export interface WethTransformationExplanation extends TransformationExplanationBase {
+    name: 'wethTransformer';
+    decoded: WethTransformerData;
+    action: 'wrap' | 'unwrap';
+    // Amount to (un)wrap, or undefined for the entire balance.
+    amount?: BigNumber;
+}
+
+/**
+ * Explanation of a `PayTakerTransformer` transformation.
+ */
+export interface PayTakerTransformationExplanation extends TransformationExplanationBase {
+    name: 'payTakerTransformer';
+    decoded: PayTakerTransformerData;
+    // Tokens paid to the taker. An undefined amount is the entire balance.
+    payouts: Array<{ token: string; amount?: BigNumber }>;
+}
+
+/**
+ * Explanation of an `AffiliateFeeTransformer` transformation.
+ */
+export interface AffiliateFeeTransformationExplanation extends TransformationExplanationBase {
+    name: 'affiliateFeeTransformer';
+    decoded: AffiliateFeeTransformerData;
+    // Fees paid to recipients. An undefined amount is the entire balance.
+    fees: Array<{ token: string; amount?: BigNumber; recipient: string }>;
+}
+
+/**
+ * Explanation of a `PositiveSlippageFeeTransformer` transformation.
+ */
+export interface PositiveSlippageFeeTransformationExplanation extends TransformationExplanationBase {
+    name: 'positiveSlippageFeeTransformer';
+    decoded: PositiveSlippageFeeTransformerData;
+    // Any balance of `token` above `bestCaseAmount` is paid to `recipient`.
+    token: string;
+    bestCaseAmount: BigNumber;
+    recipient: string;
+}
+
+/**
+ * A transformation whose deployment nonce does not resolve to a known transformer.
+ */
+export interface UnknownTransformationExplanation extends TransformationExplanationBase {
+    name: undefined;
+}
+
+export type TransformationExplanation =
+    | FillQuoteTransformationExplanation
+    | WethTransformationExplanation
+    | PayTakerTransformationExplanation
+    | AffiliateFeeTransformationExplanation
+    | PositiveSlippageFeeTransformationExplanation
+    | UnknownTransformationExplanation;
+
+/**
+ * Structured explanation of a `transformERC20()` call.
+ */
+export interface TransformERC20Explanation {
+    inputToken: string;
+    outputToken: string;
+    inputTokenAmount: BigNumber;
+    minOutputTokenAmount: BigNumber;
+    transformations: TransformationExplanation[];
+}
+
+/**
+ * Decode the calldata for `ITransformERC20Feature.transformERC20()` and
+ * explain what each of its transformations does. Deployment nonces are
+ * resolved to transformers using the deployer and transformer addresses for
+ * the chain.
+ */
+export function explainTransformERC20CallData(
+    callData: string,
+    opts: Partial<TransformerLookupOpts> = {},
+): TransformERC20Explanation {
+    const { transformations, ...rest } = decodeTransformERC20CallData(callData);
+    const addresses = getContractAddressesForChainOrThrow(opts.chainId === undefined ? 1 : opts.chainId);
+    const deployer = opts.deployer || addresses.exchangeProxyTransformerDeployer;
+    const transformers = { ...addresses.transformers, ...opts.transformers };
+    return {
+        ...rest,
+        transformations: transformations.map(({ deploymentNonce, data }) => {
+            const transformer = getTransformerAddress(deployer, deploymentNonce);
+            const name = (Object.keys(transformers) as TransformerName[]).find(
+                k => transformers[k].toLowerCase() === transformer,
+            );
+            return explainTransformation(name, { deploymentNonce, transformer, data });
+        }),
+    };
+}
+
+/**
+ * Pretty-print an explanation returned by `explainTransformERC20CallData()`.
+ */
+export function formatTransformERC20Explanation(explanation: TransformERC20Explanation): string {
+    const lines = [
+        `transformERC20(): sell ${formatAmount(getBalanceAmount(explanation.inputTokenAmount))} ${
+            explanation.inputToken
+        }` + ` for at least ${explanation.minOutputTokenAmount.toString(10)} ${explanation.outputToken}`,
+    ];
+    explanation.transformations.forEach((t, i) => {
+        lines.push(`  ${i}. ${t.name || 'unknown transformer'} (nonce ${t.deploymentNonce}, ${t.transformer})`);
+        lines.push(...formatTransformation(t).map(l => `       ${l}`));
+    });
+    return lines.join('\n');
+}
+
+function explainTransformation(
+    name: TransformerName | undefined,
+    base: TransformationExplanationBase,
+): TransformationExplanation {
+    switch (name) {
+        case 'fillQuoteTransformer': {
+            const decoded = decodeFillQuoteTransformerData(base.data);
+            const isFractional = isFractionalFillAmount(decoded.fillAmount);
+            return {
+                ...base,
+                name,
+                decoded,
+                side: decoded.side,
+                sellToken: decoded.sellToken,
+                buyToken: decoded.buyToken,
+                fillAmount: isFractional ? undefined : decoded.fillAmount,
+                fillFraction: isFractional ? decodeFractionalFillAmount(decoded.fillAmount) : undefined,
+                fillSequence: explainFillSequence(decoded),
+            };
+        }
+        case 'wethTransformer': {
+            const decoded = decodeWethTransformerData(base.data);
+            return {
+                ...base,
+                name,
+                decoded,
+                action: decoded.token.toLowerCase() === ETH_TOKEN_ADDRESS ? 'wrap' : 'unwrap',
+                amount: getBalanceAmount(decoded.amount),
+            };
+        }
+        case 'payTakerTransformer': {
+            const decoded = decodePayTakerTransformerData(base.data);
+            return {
+                ...base,
+                name,
+                decoded,
+                // Tokens without an amount are paid out in full.
+                payouts: decoded.tokens.map((token, i) => ({ token, amount: getBalanceAmount(decoded.amounts[i]) })),
+            };
+        }
+        case 'affiliateFeeTransformer': {
+            const decoded = decodeAffiliateFeeTransformerData(base.data);
+            return {
+                ...base,
+                name,
+                decoded,
+                fees: decoded.fees.map(f => ({
+                    token: f.token,
+                    amount: getBalanceAmount(f.amount),
+                    recipient: f.recipient,
+                })),
+            };
+        }
+        case 'positiveSlippageFeeTransformer': {
+            const decoded = decodePositiveSlippageFeeTransformerData(base.data);
+            return { ...base, name, decoded, ...decoded };
+        }
+        default:
+            return { ...base, name: undefined };
+    }
+}
+
+function explainFillSequence(data: FillQuoteTransformerData): FillQuoteStepExplanation[] {
+    // Each order type is consumed in order, like `FillQuoteTransformer` does.
+    const indices = { bridge: 0, limit: 0, rfq: 0, otc: 0 };
+    return data.fillSequence.map(orderType => {
+        switch (orderType) {
+            case FillQuoteTransformerOrderType.Bridge: {
+                const order = getSequenceOrder(data.bridgeOrders, indices.bridge++, orderType);
+                const { protocol, name } = decodeBridgeSourceId(order.source);
+                return {
+                    orderType,
+                    takerTokenAmount: order.takerTokenAmount,
+                    bridgeSource: {
+                        protocol,
+                        name,
+                        data: isSupportedBridgeProtocol(protocol)
+                            ? decodeBridgeData(protocol, order.bridgeData)
+                            : undefined,
+                    },
+                };
+            }
+            case FillQuoteTransformerOrderType.Limit: {
+                const { order, maxTakerTokenFillAmount } = getSequenceOrder(
+                    data.limitOrders,
+                    indices.limit++,
+                    orderType,
+                );
+                return { orderType, takerTokenAmount: maxTakerTokenFillAmount, maker: order.maker };
+            }
+            case FillQuoteTransformerOrderType.Rfq: {
+                const { order, maxTakerTokenFillAmount } = getSequenceOrder(data.rfqOrders, indices.rfq++, orderType);
+                return { orderType, takerTokenAmount: maxTakerTokenFillAmount, maker: order.maker };
+            }
+            case FillQuoteTransformerOrderType.Otc: {
+                const { order, maxTakerTokenFillAmount } = getSequenceOrder(data.otcOrders, indices.otc++, orderType);
+                return { orderType, takerTokenAmount: maxTakerTokenFillAmount, maker: order.maker };
+            }
+            default:
+                throw new Error(`Unknown fill sequence order type: ${orderType}`);
+        }
+    });
+}
+
+function getSequenceOrder<T>(orders: T[], index: number, orderType: FillQuoteTransformerOrderType): T {
+    if (index >= orders.length) {
+        throw new Error(`Fill sequence has more ${FillQuoteTransformerOrderType[orderType]} orders than provided`);
+    }
+    return orders[index];
+}
+
+function getBalanceAmount(amount: BigNumber | undefined): BigNumber | undefined {
+    // Missing and max amounts are treated as the entire balance.
+    return amount === undefined || amount.isEqualTo(MAX_UINT256) ? undefined : amount;
+}
+
+function formatAmount(amount: BigNumber | undefined): string {
+    return amount === undefined ? 'entire balance of' : amount.toString(10);
+}
+
+function formatTransformation(t: TransformationExplanation): string[] {
+    switch (t.name) {
+        case 'fillQuoteTransformer': {
+            const amount =
+                t.fillFraction !== undefined
+                    ? `${t.fillFraction.times(100).toString(10)}% of`
+                    : formatAmount(t.fillAmount);
+            const lines = [
+                t.side === FillQuoteTransformerSide.Sell
+                    ? `sell ${amount} ${t.sellToken} for ${t.buyToken}`
+                    : `buy ${amount} ${t.buyToken} with ${t.sellToken}`,
+            ];
+            t.fillSequence.forEach((step, i) => {
+                const source = step.bridgeSource
+                    ? `${step.bridgeSource.name} (${BridgeProtocol[step.bridgeSource.protocol]})`
+                    : `maker ${step.maker}`;
+                lines.push(
+                    `${i}. ${FillQuoteTransformerOrderType[step.orderType]} via ${source}` +
+                        ` up to ${step.takerTokenAmount.toString(10)}`,
+                );
+            });
+            return lines;
+        }
+        case 'wethTransformer':
+            return [`${t.action} ${formatAmount(t.amount)} ${t.action === 'wrap' ? 'ETH' : 'WETH'}`];
+        case 'payTakerTransformer':
+            return t.payouts.map(p => `pay taker ${formatAmount(p.amount)} ${p.token}`);
+        case 'affiliateFeeTransformer':
+            return t.fees.map(f => `pay ${formatAmount(f.amount)} ${f.token} to ${f.recipient}`);
+        case 'positiveSlippageFeeTransformer':
+            return [`pay ${t.token} above ${t.bestCaseAmount.toString(10)} to ${t.recipient}`];
+        default:
+            return [`data: ${t.data}`];
+    }
+}
@@ -413,3 +413,16 @@ export function encodeBridgeSourceId(protocol: BridgeProtocol, name: string): st
         hexUtils.rightPad(hexUtils.toHex(Buffer.from(name)), 16),
     );
 }
+
+/**
+ * Unpacks a bridge source ID created by `encodeBridgeSourceId()` into its
+ * protocol ID and ASCII DEX name.
+ */
+export function decodeBridgeSourceId(source: string): { protocol: BridgeProtocol; name: string } {
+    if (hexUtils.size(source) !== 32) {
+        throw new Error(`Invalid bridge source ID: "${source}"`);
+    }
+    const protocol = new BigNumber(hexUtils.slice(source, 0, 16).substr(2), 16).toNumber();
+    const name = Buffer.from(hexUtils.slice(source, 16, 32).substr(2), 'hex').toString('ascii').replace(/\0+$/, '');
+    return { protocol, name };
+}
@@ -1,4 +1,4 @@
-import { AbiEncoder, BigNumber } from '@0x/utils';
+import { AbiEncoder, BigNumber, hexUtils } from '@0x/utils';
 
 export interface CurveLiquidityProviderData {
     curveAddress: string;
@@ -25,3 +25,239 @@ export function encodeCurveLiquidityProviderData(data: CurveLiquidityProviderDat
         data.toCoinIdx,
     ]);
 }
+
+/**
+ * A UniswapV3 path. `fees[i]` is the fee tier of the pool between
+ * `tokens[i]` and `tokens[i + 1]`.
+ */
+export interface UniswapV3Path {
+    tokens: string[];
+    fees: number[];
+}
+
+/**
+ * Fee tiers enabled on the canonical UniswapV3 factory, in hundredths of a bip.
+ */
+export const UNISWAP_V3_FEE_TIERS = [100, 500, 3000, 10000];
+
+const UNISWAP_V3_PATH_ADDRESS_SIZE = 20;
+const UNISWAP_V3_PATH_FEE_SIZE = 3;
+const MAX_UINT24 = 2 ** 24 - 1;
+
+/**
+ * Utilities for packed UniswapV3 paths (token, uint24 fee, token, ...).
+ */
+export const uniswapV3PathUtils = {
+    /**
+     * Pack a UniswapV3 path. If `feeTiers` is given, every fee must be one of them.
+     */
+    encode(path: UniswapV3Path, feeTiers?: number[]): string {
+        if (path.tokens.length < 2 || path.fees.length !== path.tokens.length - 1) {
+            throw new Error('UniswapV3 path must have one fee for each pair of tokens');
+        }
+        for (const fee of path.fees) {
+            assertValidFeeTier(fee, feeTiers);
+        }
+        const elems: string[] = [];
+        path.tokens.forEach((token, i) => {
+            if (i) {
+                elems.push(hexUtils.leftPad(path.fees[i - 1], UNISWAP_V3_PATH_FEE_SIZE));
+            }
+            elems.push(hexUtils.leftPad(token, UNISWAP_V3_PATH_ADDRESS_SIZE));
+        });
+        return hexUtils.concat(...elems);
+    },
+    /**
+     * Unpack a UniswapV3 path. If `feeTiers` is given, every fee must be one of them.
+     */
+    decode(encoded: string, feeTiers?: number[]): UniswapV3Path {
+        const hopSize = UNISWAP_V3_PATH_ADDRESS_SIZE + UNISWAP_V3_PATH_FEE_SIZE;
+        const size = hexUtils.size(encoded);
+        if (size < UNISWAP_V3_PATH_ADDRESS_SIZE + hopSize || (size - UNISWAP_V3_PATH_ADDRESS_SIZE) % hopSize !== 0) {
+            throw new Error(`Invalid UniswapV3 path length: ${size}`);
+        }
+        const tokens: string[] = [];
+        const fees: number[] = [];
+        for (let offset = 0; ; offset += hopSize) {
+            tokens.push(hexUtils.slice(encoded, offset, offset + UNISWAP_V3_PATH_ADDRESS_SIZE));
+            if (offset + UNISWAP_V3_PATH_ADDRESS_SIZE === size) {
+                break;
+            }
+            const fee = parseInt(hexUtils.slice(encoded, offset + UNISWAP_V3_PATH_ADDRESS_SIZE, offset + hopSize), 16);
+            assertValidFeeTier(fee, feeTiers);
+            fees.push(fee);
+        }
+        return { tokens, fees };
+    },
+    /**
+     * Reverse a packed UniswapV3 path, e.g. to turn a sell path into a buy path.
+     */
+    reverse(encoded: string): string {
+        const { tokens, fees } = uniswapV3PathUtils.decode(encoded);
+        return uniswapV3PathUtils.encode({ tokens: tokens.slice().reverse(), fees: fees.slice().reverse() });
+    },
+};
+
+function assertValidFeeTier(fee: number, feeTiers?: number[]): void {
+    if (!Number.isInteger(fee) || fee < 0 || fee > MAX_UINT24) {
+        throw new Error(`Invalid UniswapV3 fee: ${fee}`);
+    }
+    if (feeTiers && !feeTiers.includes(fee)) {
+        throw new Error(`Unsupported UniswapV3 fee tier: ${fee}`);
+    }
+}
+
+/**
+ * Parameters for selling through `IUniswapV3Feature`.
+ */
+export interface UniswapV3SellData {
+    path: UniswapV3Path;
+    sellAmount: BigNumber;
+    minBuyAmount: BigNumber;
+    recipient: string;
+}
+
+/**
+ * ABI encoder for `IUniswapV3Feature.sellEthForTokenToUniswapV3()`.
+ */
+export const sellEthForTokenToUniswapV3Encoder = AbiEncoder.createMethod('sellEthForTokenToUniswapV3', [
+    { name: 'encodedPath', type: 'bytes' },
+    { name: 'minBuyAmount', type: 'uint256' },
+    { name: 'recipient', type: 'address' },
+]);
+
+/**
+ * ABI encoder for `IUniswapV3Feature.sellTokenForEthToUniswapV3()`.
+ */
+export const sellTokenForEthToUniswapV3Encoder = AbiEncoder.createMethod('sellTokenForEthToUniswapV3', [
+    { name: 'encodedPath', type: 'bytes' },
+    { name: 'sellAmount', type: 'uint256' },
+    { name: 'minBuyAmount', type: 'uint256' },
+    { name: 'recipient', type: 'address' },
+]);
+
+/**
+ * ABI encoder for `IUniswapV3Feature.sellTokenForTokenToUniswapV3()`.
+ */
+export const sellTokenForTokenToUniswapV3Encoder = AbiEncoder.createMethod('sellTokenForTokenToUniswapV3', [
+    { name: 'encodedPath', type: 'bytes' },
+    { name: 'sellAmount', type: 'uint256' },
+    { name: 'minBuyAmount', type: 'uint256' },
+    { name: 'recipient', type: 'address' },
+]);
+
+/**
+ * Encode the calldata for `IUniswapV3Feature.sellEthForTokenToUniswapV3()`.
+ * The sell amount is the ETH attached to the call, and the path must start with WETH.
+ */
+export function encodeSellEthForTokenToUniswapV3CallData(data: Omit<UniswapV3SellData, 'sellAmount'>): string {
+    return sellEthForTokenToUniswapV3Encoder.encode({
+        encodedPath: uniswapV3PathUtils.encode(data.path),
+        minBuyAmount: data.minBuyAmount,
+        recipient: data.recipient,
+    });
+}
+
+/**
+ * Encode the calldata for `IUniswapV3Feature.sellTokenForEthToUniswapV3()`.
+ * The path must end with WETH.
+ */
+export function encodeSellTokenForEthToUniswapV3CallData(data: UniswapV3SellData): string {
+    return sellTokenForEthToUniswapV3Encoder.encode({
+        encodedPath: uniswapV3PathUtils.encode(data.path),
+        sellAmount: data.sellAmount,
+        minBuyAmount: data.minBuyAmount,
+        recipient: data.recipient,
+    });
+}
+
+/**
+ * Encode the calldata for `IUniswapV3Feature.sellTokenForTokenToUniswapV3()`.
+ */
+export function encodeSellTokenForTokenToUniswapV3CallData(data: UniswapV3SellData): string {
+    return sellTokenForTokenToUniswapV3Encoder.encode({
+        encodedPath: uniswapV3PathUtils.encode(data.path),
+        sellAmount: data.sellAmount,
+        minBuyAmount: data.minBuyAmount,
+        recipient: data.recipient,
+    });
+}
+
+/**
+ * Parameters for `IUniswapFeature.sellToUniswap()`.
+ * `tokens` may start or end with `ETH_TOKEN_ADDRESS` to sell or buy ETH.
+ */
+export interface UniswapV2SellData {
+    tokens: string[];
+    sellAmount: BigNumber;
+    minBuyAmount: BigNumber;
+    isSushi: boolean;
+}
+
+/**
+ * ABI encoder for `IUniswapFeature.sellToUniswap()`.
+ */
+export const sellToUniswapEncoder = AbiEncoder.createMethod('sellToUniswap', [
+    { name: 'tokens', type: 'address[]' },
+    { name: 'sellAmount', type: 'uint256' },
+    { name: 'minBuyAmount', type: 'uint256' },
+    { name: 'isSushi', type: 'bool' },
+]);
+
+/**
+ * Encode the calldata for `IUniswapFeature.sellToUniswap()`.
+ */
+export function encodeSellToUniswapCallData(data: UniswapV2SellData): string {
+    assertValidTokenPath(data.tokens);
+    return sellToUniswapEncoder.encode(data);
+}
+
+/**
+ * `IPancakeSwapFeature.ProtocolFork`
+ */
+export enum PancakeSwapProtocolFork {
+    PancakeSwap,
+    PancakeSwapV2,
+    BakerySwap,
+    SushiSwap,
+    ApeSwap,
+    CafeSwap,
+    CheeseSwap,
+    JulSwap,
+}
+
+/**
+ * Parameters for `IPancakeSwapFeature.sellToPancakeSwap()`.
+ * `tokens` may start or end with `ETH_TOKEN_ADDRESS` to sell or buy BNB.
+ */
+export interface PancakeSwapSellData {
+    tokens: string[];
+    sellAmount: BigNumber;
+    minBuyAmount: BigNumber;
+    fork: PancakeSwapProtocolFork;
+}
+
+/**
+ * ABI encoder for `IPancakeSwapFeature.sellToPancakeSwap()`.
+ */
+export const sellToPancakeSwapEncoder = AbiEncoder.createMethod('sellToPancakeSwap', [
+    { name: 'tokens', type: 'address[]' },
+    { name: 'sellAmount', type: 'uint256' },
+    { name: 'minBuyAmount', type: 'uint256' },
+    { name: 'fork', type: 'uint8' },
+]);
+
+/**
+ * Encode the calldata for `IPancakeSwapFeature.sellToPancakeSwap()`.
+ */
+export function encodeSellToPancakeSwapCallData(data: PancakeSwapSellData): string {
+    assertValidTokenPath(data.tokens);
+    return sellToPancakeSwapEncoder.encode(data);
+}
+
+function assertValidTokenPath(tokens: string[]): void {
+    // The features revert on paths with fewer than two tokens.
+    if (tokens.length < 2) {
+        throw new Error(`Invalid token path length: ${tokens.length}`);
+    }
+}
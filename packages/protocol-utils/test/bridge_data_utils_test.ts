@@ -0,0 +1,127 @@
+import { chaiSetup } from '@0x/dev-utils';
+import { BigNumber, hexUtils } from '@0x/utils';
+import { expect } from 'chai';
+
+import {
+    decodeBridgeData,
+    decodeBridgeOrderData,
+    encodeBridgeData,
+    isSupportedBridgeProtocol,
+} from '../src/bridge_data_utils';
+import { BridgeProtocol, decodeBridgeSourceId, encodeBridgeSourceId } from '../src/transformer_utils';
+
+chaiSetup.configure();
+
+describe('bridge_data_utils', () => {
+    const addresses = [
+        '0x349e8d89e8b37214d9ce3949fc5754152c525bc3',
+        '0x83c62b2e67dea0df2a27be0def7a22bd7102642c',
+        '0x8d5e5b5b5d187bdce2e0143eb6b3cc44eef3c0cb',
+    ];
+
+    describe('decodeBridgeSourceId()', () => {
+        it('can decode a source ID', () => {
+            const source = encodeBridgeSourceId(BridgeProtocol.UniswapV2, 'SushiSwap');
+            expect(decodeBridgeSourceId(source)).to.deep.eq({ protocol: BridgeProtocol.UniswapV2, name: 'SushiSwap' });
+        });
+
+        it('rejects a source ID that is not 32 bytes', () => {
+            expect(() => decodeBridgeSourceId('0x1234')).to.throw('Invalid bridge source ID');
+        });
+    });
+
+    describe('encodeBridgeData()', () => {
+        it('encodes UniswapV2 bridge data as (address, address[])', () => {
+            const encoded = encodeBridgeData(BridgeProtocol.UniswapV2, {
+                router: addresses[0],
+                path: [addresses[1], addresses[2]],
+            });
+            expect(encoded).to.eq(
+                hexUtils.concat(
+                    hexUtils.leftPad(addresses[0]),
+                    hexUtils.leftPad(64),
+                    hexUtils.leftPad(2),
+                    hexUtils.leftPad(addresses[1]),
+                    hexUtils.leftPad(addresses[2]),
+                ),
+            );
+        });
+
+        it('encodes Curve bridge data as a static struct', () => {
+            const encoded = encodeBridgeData(BridgeProtocol.Curve, {
+                pool: addresses[0],
+                exchangeFunctionSelector: '0x3df02124',
+                fromCoinIdx: new BigNumber(0),
+                toCoinIdx: new BigNumber(1),
+            });
+            expect(hexUtils.size(encoded)).to.eq(128);
+        });
+
+        it('only encodes the stETH token for Lido when there is no wstETH token', () => {
+            expect(encodeBridgeData(BridgeProtocol.Lido, { stEthToken: addresses[0] })).to.eq(
+                hexUtils.leftPad(addresses[0]),
+            );
+        });
+    });
+
+    describe('decodeBridgeData()', () => {
+        it('can round-trip UniswapV3 bridge data', () => {
+            const data = {
+                router: addresses[0],
+                path: hexUtils.concat(addresses[1], '0x0001f4', addresses[2]),
+                routerVersion: new BigNumber(2),
+            };
+            expect(
+                decodeBridgeData(BridgeProtocol.UniswapV3, encodeBridgeData(BridgeProtocol.UniswapV3, data)),
+            ).to.deep.eq(data);
+        });
+
+        it('can round-trip BalancerV2Batch bridge data', () => {
+            const data = {
+                vault: addresses[0],
+                swapSteps: [
+                    {
+                        poolId: hexUtils.leftPad(1),
+                        assetInIndex: new BigNumber(0),
+                        assetOutIndex: new BigNumber(1),
+                        amount: new BigNumber(0),
+                        userData: '0x',
+                    },
+                ],
+                assets: [addresses[1], addresses[2]],
+            };
+            const encoded = encodeBridgeData(BridgeProtocol.BalancerV2Batch, data);
+            expect(decodeBridgeData(BridgeProtocol.BalancerV2Batch, encoded)).to.deep.eq(data);
+        });
+
+        it('can decode both Lido layouts', () => {
+            const data = { stEthToken: addresses[0], wstEthToken: addresses[1] };
+            expect(decodeBridgeData(BridgeProtocol.Lido, encodeBridgeData(BridgeProtocol.Lido, data))).to.deep.eq(data);
+            expect(decodeBridgeData(BridgeProtocol.Lido, hexUtils.leftPad(addresses[0]))).to.deep.eq({
+                stEthToken: addresses[0],
+            });
+        });
+    });
+
+    describe('decodeBridgeOrderData()', () => {
+        it('decodes bridge data using the protocol in the source', () => {
+            const data = { pool: addresses[0], isSellBase: true };
+            expect(
+                decodeBridgeOrderData({
+                    source: encodeBridgeSourceId(BridgeProtocol.DodoV2, 'DodoV2'),
+                    bridgeData: encodeBridgeData(BridgeProtocol.DodoV2, data),
+                }),
+            ).to.deep.eq({ protocol: BridgeProtocol.DodoV2, name: 'DodoV2', data });
+        });
+
+        it('rejects deprecated protocols', () => {
+            expect(isSupportedBridgeProtocol(BridgeProtocol.Kyber_DEPRECATED)).to.eq(false);
+            expect(() =>
+                decodeBridgeOrderData({
+                    source: encodeBridgeSourceId(BridgeProtocol.Kyber_DEPRECATED, 'Kyber'),
+                    bridgeData: '0x',
+                }),
+            ).to.throw('Unsupported bridge protocol: 5');
+        });
+    });
+});
@@ -0,0 +1,164 @@
+import { IZeroExContract } from '@0x/contract-wrappers';
+import { chaiSetup } from '@0x/dev-utils';
+import { AbiEncoder, BigNumber, hexUtils } from '@0x/utils';
+import { expect } from 'chai';
+import { MethodAbi } from 'ethereum-types';
+
+import {
+    DecodedExchangeProxyCall,
+    decodeExchangeProxyCallData,
+    getExchangeProxyFunctionSignature,
+} from '../src/calldata_decoder';
+import { MetaTransaction } from '../src/meta_transactions';
+import { encodeExecuteMetaTransactionV2CallData, MetaTransactionV2 } from '../src/meta_transactions_v2';
+import { createBatchSellSubcall, MultiplexSubcall } from '../src/multiplex_utils';
+import { ERC721Order, TradeDirection } from '../src/nft_orders';
+import { LimitOrder, OtcOrder } from '../src/orders';
+import { SignatureType } from '../src/signature_utils';
+
+chaiSetup.configure();
+
+describe('calldata_decoder', () => {
+    const domain = { chainId: 3, verifyingContract: hexUtils.random(20) };
+    const signature = {
+        signatureType: SignatureType.EIP712,
+        v: 27,
+        r: hexUtils.random(),
+        s: hexUtils.random(),
+    };
+    const taker = hexUtils.random(20);
+
+    function encodeCallData(functionName: string, args: unknown[]): string {
+        const abi = IZeroExContract.ABI().find(a => a.type === 'function' && (a as MethodAbi).name === functionName);
+        return new AbiEncoder.Method(abi as MethodAbi).encode(args);
+    }
+
+    it('decodes native order fills into order objects', () => {
+        const order = new LimitOrder({ ...domain, maker: hexUtils.random(20), makerAmount: new BigNumber(100) });
+        const decoded = decodeExchangeProxyCallData(
+            encodeCallData('fillLimitOrder', [order, signature, new BigNumber(50)]),
+            domain,
+        );
+        expect(decoded.functionName).to.eq('fillLimitOrder');
+        expect(decoded.signature).to.eq(getExchangeProxyFunctionSignature(decoded.selector));
+        expect(decoded.args.order).to.be.instanceOf(LimitOrder);
+        expect((decoded.args.order as LimitOrder).getHash()).to.eq(order.getHash());
+        expect(decoded.args.signature).to.deep.eq(signature);
+        expect(decoded.args.takerTokenFillAmount).to.bignumber.eq(50);
+        expect(decoded.innerCalls).to.deep.eq([]);
+    });
+
+    it('decodes OTC and NFT orders', () => {
+        const otcOrder = new OtcOrder({ ...domain, expiryAndNonce: new BigNumber(1234) });
+        const otcCall = decodeExchangeProxyCallData(
+            encodeCallData('fillOtcOrder', [otcOrder, signature, new BigNumber(1)]),
+            domain,
+        );
+        expect((otcCall.args.order as OtcOrder).getHash()).to.eq(otcOrder.getHash());
+
+        const nftOrder = new ERC721Order({
+            ...domain,
+            direction: TradeDirection.SellNFT,
+            erc721TokenId: new BigNumber(42),
+            fees: [{ recipient: taker, amount: new BigNumber(1), feeData: '0x' }],
+        });
+        const nftCall = decodeExchangeProxyCallData(encodeCallData('buyERC721', [nftOrder, signature, '0x']), domain);
+        expect(nftCall.args.sellOrder).to.be.instanceOf(ERC721Order);
+        expect((nftCall.args.sellOrder as ERC721Order).direction).to.eq(TradeDirection.SellNFT);
+        expect((nftCall.args.sellOrder as ERC721Order).getHash()).to.eq(nftOrder.getHash());
+    });
+
+    it('decodes multiplex subcalls', () => {
+        const subcall = {
+            id: MultiplexSubcall.UniswapV2 as const,
+            data: { tokens: [hexUtils.random(20), hexUtils.random(20)], isSushi: false },
+        };
+        const decoded = decodeExchangeProxyCallData(
+            encodeCallData('multiplexBatchSellTokenForToken', [
+                subcall.data.tokens[0],
+                subcall.data.tokens[1],
+                [createBatchSellSubcall(subcall, new BigNumber(10))],
+                new BigNumber(10),
+                new BigNumber(9),
+            ]),
+        );
+        expect(decoded.args.calls).to.deep.eq([{ ...subcall, sellAmount: new BigNumber(10) }]);
+    });
+
+    it('leaves multiplex subcalls it cannot decode raw', () => {
+        const tokens = [hexUtils.random(20), hexUtils.random(20)];
+        const goodSubcall = { id: MultiplexSubcall.UniswapV2 as const, data: { tokens, isSushi: false } };
+        const unknownSubcall = { id: 99, sellAmount: new BigNumber(1), data: '0x1234' };
+        const malformedSubcall = { id: MultiplexSubcall.RFQ, sellAmount: new BigNumber(1), data: '0x1234' };
+        const decoded = decodeExchangeProxyCallData(
+            encodeCallData('multiplexBatchSellTokenForToken', [
+                tokens[0],
+                tokens[1],
+                [createBatchSellSubcall(goodSubcall, new BigNumber(1)), unknownSubcall, malformedSubcall],
+                new BigNumber(3),
+                new BigNumber(1),
+            ]),
+        );
+        expect(decoded.args.calls).to.deep.eq([
+            { ...goodSubcall, sellAmount: new BigNumber(1) },
+            unknownSubcall,
+            malformedSubcall,
+        ]);
+    });
+
+    it('recursively decodes meta-transactions', () => {
+        const order = new LimitOrder(domain);
+        const innerCallData = encodeCallData('fillLimitOrder', [order, signature, new BigNumber(1)]);
+        const mtx = new MetaTransaction({ ...domain, signer: taker, callData: innerCallData });
+        const mtxV2 = new MetaTransactionV2({ ...domain, signer: taker, callData: innerCallData });
+        const decoded = decodeExchangeProxyCallData(
+            encodeCallData('batchExecuteMetaTransactions', [[mtx], [signature]]),
+            domain,
+        );
+        expect((decoded.args.mtxs as MetaTransaction[])[0].getHash()).to.eq(mtx.getHash());
+        expect(decoded.innerCalls).to.have.length(1);
+        const [innerCall] = decoded.innerCalls as DecodedExchangeProxyCall[];
+        expect(innerCall.functionName).to.eq('fillLimitOrder');
+        expect((innerCall.args.order as LimitOrder).getHash()).to.eq(order.getHash());
+
+        const decodedV2 = decodeExchangeProxyCallData(encodeExecuteMetaTransactionV2CallData(mtxV2, signature), domain);
+        expect((decodedV2.args.mtx as MetaTransactionV2).getHash()).to.eq(mtxV2.getHash());
+        expect((decodedV2.innerCalls[0] as DecodedExchangeProxyCall).functionName).to.eq('fillLimitOrder');
+    });
+
+    it('records meta-transaction calldata it cannot decode', () => {
+        const mtxs = [
+            new MetaTransaction({ ...domain, callData: '0x' }),
+            new MetaTransaction({ ...domain, callData: '0xdeadbeef' }),
+        ];
+        const decoded = decodeExchangeProxyCallData(
+            encodeCallData('batchExecuteMetaTransactions', [mtxs, [signature, signature]]),
+            domain,
+        );
+        expect(decoded.innerCalls).to.have.length(2);
+        expect(decoded.innerCalls[0]).to.include({ callData: '0x' });
+        expect(decoded.innerCalls[1]).to.deep.eq({
+            callData: '0xdeadbeef',
+            error: 'Unknown Exchange Proxy function selector: 0xdeadbeef',
+        });
+    });
+
+    it('decodes meta-transactions with fees that sum to more than uint256', () => {
+        const maxUint256 = new BigNumber(2).pow(256).minus(1);
+        const fees = [
+            { recipient: taker, amount: maxUint256 },
+            { recipient: taker, amount: maxUint256 },
+        ];
+        const mtxV2 = new MetaTransactionV2({ ...domain, signer: taker, fees });
+        const decoded = decodeExchangeProxyCallData(encodeExecuteMetaTransactionV2CallData(mtxV2, signature), domain);
+        expect(decoded.args.mtx).to.be.instanceOf(MetaTransactionV2);
+        expect((decoded.args.mtx as MetaTransactionV2).fees).to.deep.eq(fees);
+    });
+
+    it('rejects unknown selectors', () => {
+        expect(() => decodeExchangeProxyCallData('0xdeadbeef')).to.throw(
+            'Unknown Exchange Proxy function selector: 0xdeadbeef',
+        );
+        expect(getExchangeProxyFunctionSignature('0xdeadbeef')).to.eq(undefined);
+    });
+});
@@ -0,0 +1,92 @@
+import { chaiSetup } from '@0x/dev-utils';
+import { BigNumber, hexUtils } from '@0x/utils';
+import { expect } from 'chai';
+
+import { decodeExchangeProxyCallData } from '../src/calldata_decoder';
+import { CancellationOrderType, planOrderCancellations } from '../src/cancellation_planner';
+import { LimitOrder, RfqOrder } from '../src/orders';
+import { CancelSaltTooLowError } from '../src/revert-errors/native_orders';
+
+chaiSetup.configure();
+
+describe('cancellation_planner', () => {
+    const maker = hexUtils.random(20);
+    const makerToken = hexUtils.random(20);
+    const takerToken = hexUtils.random(20);
+    const limitOrder = (salt: number) => new LimitOrder({ maker, makerToken, takerToken, salt: new BigNumber(salt) });
+
+    it('bumps the pair salt when no open order is affected', () => {
+        const plan = planOrderCancellations([limitOrder(5), limitOrder(7)], { openOrders: [limitOrder(8)] });
+        expect(plan.pairCancellations).to.deep.eq([
+            { orderType: CancellationOrderType.Limit, makerToken, takerToken, minValidSalt: new BigNumber(8) },
+        ]);
+        expect(plan.orderCancellations).to.deep.eq([]);
+        expect(plan.calls).to.have.length(1);
+        const call = decodeExchangeProxyCallData(plan.calls[0].callData);
+        expect(call.functionName).to.eq('cancelPairLimitOrders');
+        expect(call.args.minValidSalt).to.bignumber.eq(8);
+        expect(plan.estimatedGas).to.eq(21e3 + 26e3);
+    });
+
+    it('cancels by hash to keep open orders fillable', () => {
+        const orders = [limitOrder(5), limitOrder(7)];
+        const plan = planOrderCancellations(orders, { openOrders: [limitOrder(6)] });
+        expect(plan.pairCancellations).to.deep.eq([]);
+        expect(plan.orderCancellations).to.deep.eq(orders);
+        const call = decodeExchangeProxyCallData(plan.calls[0].callData);
+        expect(call.functionName).to.eq('batchCancelLimitOrders');
+        expect((call.args.orders as LimitOrder[]).map(o => o.getHash())).to.deep.eq(orders.map(o => o.getHash()));
+    });
+
+    it('predicts collateral cancellations when they are allowed', () => {
+        const openOrder = limitOrder(6);
+        const plan = planOrderCancellations([limitOrder(5), limitOrder(7)], {
+            openOrders: [openOrder],
+            allowCollateralCancellations: true,
+        });
+        expect(plan.pairCancellations).to.have.length(1);
+        expect(plan.collateralOrders).to.deep.eq([openOrder]);
+    });
+
+    it('uses the signer variants when cancelling for the maker', () => {
+        const sender = hexUtils.random(20);
+        const orders = [new RfqOrder({ maker, makerToken, takerToken, salt: new BigNumber(1) })];
+        const plan = planOrderCancellations(orders, {
+            sender,
+            pairCancellations: [
+                {
+                    orderType: CancellationOrderType.Rfq,
+                    makerToken: takerToken,
+                    takerToken: makerToken,
+                    minValidSalt: new BigNumber(100),
+                },
+            ],
+        });
+        const call = decodeExchangeProxyCallData(plan.calls[0].callData);
+        expect(call.functionName).to.eq('batchCancelPairRfqOrdersWithSigner');
+        expect(call.args.maker).to.eq(maker);
+        expect(call.args.minValidSalts).to.deep.eq([new BigNumber(100), new BigNumber(2)]);
+    });
+
+    it('reports conflicts with the current minimum valid salt', () => {
+        const order = limitOrder(5);
+        const plan = planOrderCancellations([order], {
+            currentMinValidSalts: [
+                { orderType: CancellationOrderType.Limit, makerToken, takerToken, minValidSalt: new BigNumber(10) },
+            ],
+            pairCancellations: [
+                { orderType: CancellationOrderType.Limit, makerToken, takerToken, minValidSalt: new BigNumber(9) },
+            ],
+        });
+        expect(plan.conflicts).to.deep.eq([new CancelSaltTooLowError(new BigNumber(9), new BigNumber(10))]);
+        expect(plan.alreadyCancelledOrders).to.deep.eq([order]);
+        expect(plan.calls).to.deep.eq([]);
+    });
+
+    it('rejects orders from another maker', () => {
+        const order = new LimitOrder({ maker: hexUtils.random(20) });
+        expect(() => planOrderCancellations([limitOrder(1), order])).to.throw(
+            `Order ${order.getHash()} is not from maker ${maker}`,
+        );
+    });
+});
@@ -0,0 +1,176 @@
+import { IZeroExEventArgs, IZeroExEvents } from '@0x/contract-wrappers';
+import { chaiSetup, web3Factory, Web3Wrapper } from '@0x/dev-utils';
+import { Web3ProviderEngine } from '@0x/subproviders';
+import { BigNumber, hexUtils } from '@0x/utils';
+import { expect } from 'chai';
+import { LogWithDecodedArgs } from 'ethereum-types';
+
+import {
+    ExchangeProxyEventHandler,
+    ExchangeProxyEventIndexer,
+    FillOrderType,
+    IndexedLogBatch,
+    InMemoryEventIndexerCheckpointStore,
+    normalizeFillLog,
+} from '../src/event_indexer';
+import { TradeDirection } from '../src/nft_orders';
+
+chaiSetup.configure();
+
+describe('event_indexer', () => {
+    let provider: Web3ProviderEngine;
+    let web3Wrapper: Web3Wrapper;
+
+    before(async () => {
+        provider = web3Factory.getRpcProvider({ shouldUseInProcessGanache: true });
+        web3Wrapper = new Web3Wrapper(provider);
+    });
+
+    class TestEventHandler implements ExchangeProxyEventHandler {
+        public batches: IndexedLogBatch[] = [];
+        public rollbacks: number[] = [];
+
+        public async handleBatchAsync(batch: IndexedLogBatch): Promise<void> {
+            this.batches.push(batch);
+        }
+
+        public async rollbackAsync(blockNumber: number): Promise<void> {
+            this.rollbacks.push(blockNumber);
+        }
+    }
+
+    async function mineBlocksAsync(numBlocks: number): Promise<void> {
+        for (let i = 0; i < numBlocks; ++i) {
+            await web3Wrapper.mineBlockAsync();
+        }
+    }
+
+    describe('ExchangeProxyEventIndexer', () => {
+        const exchangeProxyAddress = hexUtils.random(20);
+
+        it('indexes up to the confirmed block in ranges', async () => {
+            const handler = new TestEventHandler();
+            const store = new InMemoryEventIndexerCheckpointStore();
+            await mineBlocksAsync(3);
+            const latestBlock = await web3Wrapper.getBlockNumberAsync();
+            const indexer = new ExchangeProxyEventIndexer(provider, handler, {
+                exchangeProxyAddress,
+                store,
+                fromBlock: latestBlock - 2,
+                confirmations: 1,
+                maxBlockRange: 1,
+            });
+            expect(await indexer.syncAsync()).to.eq(latestBlock - 1);
+            expect(handler.batches.map(b => [b.fromBlock, b.toBlock])).to.deep.eq([
+                [latestBlock - 2, latestBlock - 2],
+                [latestBlock - 1, latestBlock - 1],
+            ]);
+            const checkpoint = await store.getCheckpointAsync();
+            expect(checkpoint!.blockNumber).to.eq(latestBlock - 1);
+            expect(checkpoint!.recentBlocks.map(b => b.blockNumber)).to.deep.eq([latestBlock - 2, latestBlock - 1]);
+        });
+
+        it('rolls back reorged blocks', async () => {
+            const handler = new TestEventHandler();
+            const indexer = new ExchangeProxyEventIndexer(provider, handler, {
+                exchangeProxyAddress,
+                fromBlock: await web3Wrapper.getBlockNumberAsync(),
+            });
+            const forkBlock = await indexer.syncAsync();
+            const snapshotId = await web3Wrapper.takeSnapshotAsync();
+            await mineBlocksAsync(2);
+            await indexer.syncAsync();
+            await web3Wrapper.revertSnapshotAsync(snapshotId);
+            await web3Wrapper.increaseTimeAsync(60);
+            await mineBlocksAsync(3);
+            expect(await indexer.syncAsync()).to.eq(forkBlock! + 3);
+            expect(handler.rollbacks).to.deep.eq([forkBlock]);
+            expect(handler.batches.map(b => [b.fromBlock, b.toBlock])).to.deep.eq([
+                [forkBlock, forkBlock],
+                [forkBlock! + 1, forkBlock! + 2],
+                [forkBlock! + 1, forkBlock! + 3],
+            ]);
+        });
+
+        it('refuses to roll back past the retained blocks', async () => {
+            const indexer = new ExchangeProxyEventIndexer(provider, new TestEventHandler(), {
+                exchangeProxyAddress,
+                fromBlock: await web3Wrapper.getBlockNumberAsync(),
+                maxReorgDepth: 1,
+            });
+            const snapshotId = await web3Wrapper.takeSnapshotAsync();
+            await mineBlocksAsync(1);
+            await indexer.syncAsync();
+            await web3Wrapper.revertSnapshotAsync(snapshotId);
+            await web3Wrapper.increaseTimeAsync(60);
+            await mineBlocksAsync(1);
+            return expect(indexer.syncAsync()).to.be.rejectedWith('Reorg deeper than 1 blocks');
+        });
+    });
+
+    describe('normalizeFillLog()', () => {
+        const maker = hexUtils.random(20);
+        const taker = hexUtils.random(20);
+        const common = { blockNumber: 1, transactionHash: hexUtils.random(), logIndex: 2 };
+
+        function createLog(event: IZeroExEvents, args: object): LogWithDecodedArgs<IZeroExEventArgs> {
+            return { ...common, event, args } as LogWithDecodedArgs<IZeroExEventArgs>;
+        }
+
+        it('normalizes limit order fills', () => {
+            const args = {
+                orderHash: hexUtils.random(),
+                maker,
+                taker,
+                feeRecipient: hexUtils.random(20),
+                makerToken: hexUtils.random(20),
+                takerToken: hexUtils.random(20),
+                takerTokenFilledAmount: new BigNumber(1),
+                makerTokenFilledAmount: new BigNumber(2),
+                takerTokenFeeFilledAmount: new BigNumber(3),
+                protocolFeePaid: new BigNumber(4),
+                pool: hexUtils.random(),
+            };
+            expect(normalizeFillLog(createLog(IZeroExEvents.LimitOrderFilled, args))).to.deep.eq({
+                ...common,
+                orderType: FillOrderType.Limit,
+                orderHash: args.orderHash,
+                maker,
+                taker,
+                makerToken: args.makerToken,
+                takerToken: args.takerToken,
+                makerTokenFilledAmount: args.makerTokenFilledAmount,
+                takerTokenFilledAmount: args.takerTokenFilledAmount,
+                takerTokenFeeFilledAmount: args.takerTokenFeeFilledAmount,
+                protocolFeePaid: args.protocolFeePaid,
+            });
+        });
+
+        it('normalizes NFT order fills from the maker side', () => {
+            const args = {
+                direction: TradeDirection.BuyNFT,
+                maker,
+                taker,
+                nonce: new BigNumber(5),
+                erc20Token: hexUtils.random(20),
+                erc20FillAmount: new BigNumber(100),
+                erc1155Token: hexUtils.random(20),
+                erc1155TokenId: new BigNumber(6),
+                erc1155FillAmount: new BigNumber(2),
+                matcher: taker,
+            };
+            const fill = normalizeFillLog(createLog(IZeroExEvents.ERC1155OrderFilled, args));
+            expect(fill).to.include({ orderType: FillOrderType.ERC1155, makerToken: args.erc20Token });
+            expect(fill!.makerTokenFilledAmount).to.bignumber.eq(100);
+            expect(fill!.takerToken).to.eq(args.erc1155Token);
+            expect(fill!.takerTokenFilledAmount).to.bignumber.eq(2);
+            expect(fill!.tokenId).to.bignumber.eq(6);
+        });
+
+        it('ignores other events', () => {
+            expect(
+                normalizeFillLog(createLog(IZeroExEvents.OrderCancelled, { orderHash: hexUtils.random(), maker })),
+            ).to.eq(undefined);
+        });
+    });
+});
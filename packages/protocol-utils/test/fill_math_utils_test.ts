@@ -0,0 +1,94 @@
+import { chaiSetup } from '@0x/dev-utils';
+import { BigNumber } from '@0x/utils';
+import { expect } from 'chai';
+
+import {
+    computeLimitOrderFilledAmounts,
+    computeOtcOrderFilledAmounts,
+    computeRfqOrderFilledAmounts,
+    getActualFillableTakerTokenAmount,
+    getFillableMakerTokenAmount,
+    getPartialAmountCeil,
+    getPartialAmountFloor,
+} from '../src/fill_math_utils';
+import { LimitOrder, OtcOrder, RfqOrder } from '../src/orders';
+
+chaiSetup.configure();
+
+describe('fill_math_utils', () => {
+    const limitOrder = new LimitOrder({
+        makerAmount: new BigNumber(100),
+        takerAmount: new BigNumber(30),
+        takerTokenFeeAmount: new BigNumber(7),
+    });
+
+    it('rounds partial amounts like LibMathV06', () => {
+        expect(getPartialAmountFloor(new BigNumber(10), new BigNumber(3), new BigNumber(1))).to.bignumber.eq(3);
+        expect(getPartialAmountCeil(new BigNumber(10), new BigNumber(3), new BigNumber(1))).to.bignumber.eq(4);
+        expect(getPartialAmountCeil(new BigNumber(9), new BigNumber(3), new BigNumber(1))).to.bignumber.eq(3);
+    });
+
+    describe('computeLimitOrderFilledAmounts()', () => {
+        it('prorates the maker amount and taker token fee, rounding down', () => {
+            expect(computeLimitOrderFilledAmounts(limitOrder, new BigNumber(10))).to.deep.eq({
+                makerTokenFilledAmount: new BigNumber(33),
+                takerTokenFilledAmount: new BigNumber(10),
+                takerTokenFeeFilledAmount: new BigNumber(2),
+            });
+        });
+
+        it('caps the fill at the remaining taker amount', () => {
+            const { takerTokenFilledAmount } = computeLimitOrderFilledAmounts(
+                limitOrder,
+                new BigNumber(30),
+                new BigNumber(25),
+            );
+            expect(takerTokenFilledAmount).to.bignumber.eq(5);
+        });
+
+        it('settles nothing if the maker amount rounds down to zero', () => {
+            const order = new LimitOrder({ makerAmount: new BigNumber(1), takerAmount: new BigNumber(30) });
+            const amounts = computeLimitOrderFilledAmounts(order, new BigNumber(29));
+            expect(amounts.makerTokenFilledAmount).to.bignumber.eq(0);
+            expect(amounts.takerTokenFilledAmount).to.bignumber.eq(0);
+        });
+    });
+
+    it('computeRfqOrderFilledAmounts() rounds the maker amount down', () => {
+        const order = new RfqOrder({ makerAmount: new BigNumber(100), takerAmount: new BigNumber(30) });
+        expect(computeRfqOrderFilledAmounts(order, new BigNumber(20))).to.deep.eq({
+            makerTokenFilledAmount: new BigNumber(66),
+            takerTokenFilledAmount: new BigNumber(20),
+        });
+    });
+
+    it('computeOtcOrderFilledAmounts() does not guard against rounding down to zero', () => {
+        const order = new OtcOrder({ makerAmount: new BigNumber(1), takerAmount: new BigNumber(30) });
+        expect(computeOtcOrderFilledAmounts(order)).to.deep.eq({
+            makerTokenFilledAmount: new BigNumber(1),
+            takerTokenFilledAmount: new BigNumber(30),
+        });
+        expect(computeOtcOrderFilledAmounts(order, new BigNumber(29))).to.deep.eq({
+            makerTokenFilledAmount: new BigNumber(0),
+            takerTokenFilledAmount: new BigNumber(29),
+        });
+    });
+
+    describe('getActualFillableTakerTokenAmount()', () => {
+        it('is limited by the amount already filled', () => {
+            expect(getFillableMakerTokenAmount(limitOrder, new BigNumber(10))).to.bignumber.eq(66);
+            expect(
+                getActualFillableTakerTokenAmount(limitOrder, undefined, undefined, new BigNumber(10)),
+            ).to.bignumber.eq(20);
+        });
+
+        it('is limited by the maker balance and allowance, rounding up', () => {
+            expect(getActualFillableTakerTokenAmount(limitOrder, new BigNumber(50))).to.bignumber.eq(15);
+            expect(getActualFillableTakerTokenAmount(limitOrder, undefined, new BigNumber(11))).to.bignumber.eq(4);
+        });
+
+        it('is zero for orders with no maker or taker amount', () => {
+            expect(getActualFillableTakerTokenAmount(new RfqOrder())).to.bignumber.eq(0);
+        });
+    });
+});
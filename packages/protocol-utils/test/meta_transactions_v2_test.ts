@@ -1,11 +1,29 @@
-import { chaiSetup, } from '@0x/dev-utils';
+import { chaiSetup, web3Factory, Web3Wrapper } from '@0x/dev-utils';
+import { Web3ProviderEngine } from '@0x/subproviders';
 import { BigNumber } from '@0x/utils';
 import { expect } from 'chai';
-import { MetaTransactionV2 } from '../src/meta_transactions_v2';
+import * as ethjs from 'ethereumjs-util';
+
+import {
+    decodeExecuteMetaTransactionV2CallData,
+    encodeExecuteMetaTransactionV2CallData,
+    MetaTransactionV2,
+} from '../src/meta_transactions_v2';
+import { SignatureType } from '../src/signature_utils';
 
 chaiSetup.configure();
 
 describe('mtxs v2', () => {
+    let provider: Web3ProviderEngine;
+    let providerMaker: string;
+    const key = '0xee094b79aa0315914955f2f09be9abe541dcdc51f0aae5bec5453e9f73a471a6';
+    const keyMaker = ethjs.bufferToHex(ethjs.privateToAddress(ethjs.toBuffer(key)));
+
+    before(async () => {
+        provider = web3Factory.getRpcProvider({ shouldUseInProcessGanache: true });
+        [providerMaker] = await new Web3Wrapper(provider).getAvailableAddressesAsync();
+    });
+
     describe('MetaTransactionV2 (no fees)', () => {
         const mtx = new MetaTransactionV2({
             signer: '0x349e8d89e8b37214d9ce3949fc5754152c525bc3',
@@ -62,5 +80,81 @@ describe('mtxs v2', () => {
             const expected = '0xfc85ef2149bd49fcc8fee2571ed8f0ecd671dec03845637ab1ded3d891ac3386';
             expect(actual).to.eq(expected);
         });
+
+        it('can get the total fee amount', () => {
+            expect(mtx.getTotalFeeAmount()).to.bignumber.eq(1001000);
+        });
+
+        it('can get an EthSign signature with a provider', async () => {
+            const signer = mtx.clone({ signer: providerMaker });
+            const actual = await signer.getSignatureWithProviderAsync(provider);
+            const recovered = ethjs.bufferToHex(
+                ethjs.pubToAddress(
+                    ethjs.ecrecover(
+                        ethjs.hashPersonalMessage(ethjs.toBuffer(signer.getHash())),
+                        actual.v,
+                        ethjs.toBuffer(actual.r),
+                        ethjs.toBuffer(actual.s),
+                    ),
+                ),
+            );
+            expect(actual.signatureType).to.eq(SignatureType.EthSign);
+            expect(recovered).to.eq(providerMaker.toLowerCase());
+        });
+
+        it('can get an EthSign signature with a private key', () => {
+            const actual = mtx.clone({ signer: keyMaker }).getSignatureWithKey(key);
+            const expected = {
+                signatureType: SignatureType.EthSign,
+                r: '0xd9e5722335a5c040ca5e6cc914ac0fa78d900fb401a03d3bf3bd178e9bc8e73f',
+                s: '0x62b769ce49ecc5e69d046f73194fea7576e0b7ad52fcf5042be81ecdd722dfc6',
+                v: 27,
+            };
+            expect(actual).to.deep.eq(expected);
+        });
+
+        it('can get an EIP712 signature with a private key', () => {
+            const actual = mtx.clone({ signer: keyMaker }).getSignatureWithKey(key, SignatureType.EIP712);
+            const expected = {
+                signatureType: SignatureType.EIP712,
+                r: '0x84bb07a2c3be1cefc1bc09bb411b151b1f3e4b822eeb201de13c3ae87d9af6b9',
+                s: '0x3df62099e9572e5ff851fa7566dc2aabd6f5888af90d95a66fc59cd6b61d003f',
+                v: 27,
+            };
+            expect(actual).to.deep.eq(expected);
+        });
+
+        it('can round-trip `executeMetaTransactionV2()` calldata', () => {
+            const signature = mtx.clone({ signer: keyMaker }).getSignatureWithKey(key);
+            const callData = encodeExecuteMetaTransactionV2CallData(mtx, signature);
+            const decoded = decodeExecuteMetaTransactionV2CallData(callData, {
+                chainId: mtx.chainId,
+                verifyingContract: mtx.verifyingContract,
+            });
+            expect(decoded.mtx.getHash()).to.eq(mtx.getHash());
+            expect(decoded.signature).to.deep.eq(signature);
+        });
+
+        it('rejects negative fee amounts when signing or encoding', () => {
+            const negativeFeeMtx = mtx.clone({
+                fees: [{ recipient: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa', amount: new BigNumber(-1) }],
+            });
+            expect(() => negativeFeeMtx.getSignatureWithKey(key)).to.throw('Fee amount out of range');
+            const signature = mtx.clone({ signer: keyMaker }).getSignatureWithKey(key);
+            expect(() => encodeExecuteMetaTransactionV2CallData(negativeFeeMtx, signature)).to.throw(
+                'Fee amount out of range',
+            );
+        });
+
+        it('can decode fees that sum to more than uint256', () => {
+            const maxUint256 = new BigNumber(2).pow(256).minus(1);
+            const fees = [
+                { recipient: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa', amount: maxUint256 },
+                { recipient: '0xaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaaa', amount: maxUint256 },
+            ];
+            const signature = mtx.clone({ signer: keyMaker }).getSignatureWithKey(key);
+            const callData = encodeExecuteMetaTransactionV2CallData(mtx.clone({ fees }), signature);
+            expect(decodeExecuteMetaTransactionV2CallData(callData).mtx.fees).to.deep.eq(fees);
+        });
     });
 });
@@ -0,0 +1,142 @@
+import { chaiSetup } from '@0x/dev-utils';
+import { BigNumber, hexUtils } from '@0x/utils';
+import { expect } from 'chai';
+
+import {
+    createBatchSellSubcall,
+    createMultiHopSellSubcall,
+    decodeBatchSellSubcall,
+    decodeFractionalFillAmount,
+    decodeMultiplexBatchSellData,
+    decodeMultiplexMultiHopSellData,
+    decodeMultiplexSubcallData,
+    encodeFractionalFillAmount,
+    encodeMultiplexUniswapV3Data,
+    isFractionalFillAmount,
+    MultiplexSubcall,
+    normalizeBatchSellAmount,
+} from '../src/multiplex_utils';
+import { RfqOrder } from '../src/orders';
+import { SignatureType } from '../src/signature_utils';
+
+chaiSetup.configure();
+
+describe('multiplex_utils', () => {
+    const tokens = [
+        '0x349e8d89e8b37214d9ce3949fc5754152c525bc3',
+        '0x83c62b2e67dea0df2a27be0def7a22bd7102642c',
+        '0x8d5e5b5b5d187bdce2e0143eb6b3cc44eef3c0cb',
+    ];
+
+    describe('subcalls', () => {
+        it('can round-trip an RFQ subcall', () => {
+            const order = new RfqOrder({
+                makerToken: tokens[0],
+                takerToken: tokens[1],
+                makerAmount: new BigNumber(1234),
+                takerAmount: new BigNumber(5678),
+                maker: tokens[2],
+                pool: hexUtils.leftPad(1),
+                expiry: new BigNumber(1001),
+                salt: new BigNumber(2001),
+            });
+            const signature = {
+                signatureType: SignatureType.EIP712,
+                v: 27,
+                r: hexUtils.leftPad(1),
+                s: hexUtils.leftPad(2),
+            };
+            const subcall = createBatchSellSubcall(
+                { id: MultiplexSubcall.RFQ, data: { order, signature } },
+                new BigNumber(100),
+            );
+            const decoded = decodeBatchSellSubcall(subcall);
+            expect(decoded.id).to.eq(MultiplexSubcall.RFQ);
+            expect(decoded.sellAmount).to.bignumber.eq(100);
+            if (decoded.id !== MultiplexSubcall.RFQ) {
+                throw new Error('wrong subcall');
+            }
+            expect(new RfqOrder(decoded.data.order).getStructHash()).to.eq(order.getStructHash());
+            expect(decoded.data.signature).to.deep.eq(signature);
+        });
+
+        it('can round-trip a UniswapV2 subcall', () => {
+            const subcall = createMultiHopSellSubcall({
+                id: MultiplexSubcall.UniswapV2,
+                data: { tokens, isSushi: true },
+            });
+            expect(decodeMultiplexSubcallData(subcall)).to.deep.eq({
+                id: MultiplexSubcall.UniswapV2,
+                data: { tokens, isSushi: true },
+            });
+        });
+
+        it('encodes a UniswapV3 subcall as a packed path', () => {
+            const data = { tokens, fees: [500, 3000] };
+            const encoded = encodeMultiplexUniswapV3Data(data);
+            expect(encoded).to.eq(hexUtils.concat(tokens[0], '0x0001f4', tokens[1], '0x000bb8', tokens[2]));
+            expect(decodeMultiplexSubcallData({ id: MultiplexSubcall.UniswapV3, data: encoded })).to.deep.eq({
+                id: MultiplexSubcall.UniswapV3,
+                data,
+            });
+        });
+
+        it('rejects a UniswapV3 path with mismatched fees', () => {
+            expect(() => encodeMultiplexUniswapV3Data({ tokens, fees: [500] })).to.throw();
+        });
+
+        it('can round-trip nested BatchSell and MultiHopSell subcalls', () => {
+            const lpSubcall = createBatchSellSubcall(
+                {
+                    id: MultiplexSubcall.LiquidityProvider,
+                    data: { provider: tokens[2], auxiliaryData: '0x1234' },
+                },
+                encodeFractionalFillAmount(0.5),
+            );
+            const batchSubcall = createMultiHopSellSubcall({
+                id: MultiplexSubcall.BatchSell,
+                data: { calls: [lpSubcall] },
+            });
+            const multiHopSubcall = createBatchSellSubcall(
+                {
+                    id: MultiplexSubcall.MultiHopSell,
+                    data: { tokens, calls: [batchSubcall, batchSubcall] },
+                },
+                new BigNumber(1),
+            );
+            const multiHopData = decodeMultiplexMultiHopSellData(multiHopSubcall.data);
+            expect(multiHopData.tokens).to.deep.eq(tokens);
+            expect(multiHopData.calls).to.deep.eq([batchSubcall, batchSubcall]);
+            const batchData = decodeMultiplexBatchSellData(multiHopData.calls[0].data);
+            expect(batchData.calls).to.deep.eq([lpSubcall]);
+        });
+
+        it('can round-trip a TransformERC20 subcall', () => {
+            const data = { transformations: [{ deploymentNonce: 7, data: '0x1234' }] };
+            const subcall = createMultiHopSellSubcall({ id: MultiplexSubcall.TransformERC20, data });
+            expect(decodeMultiplexSubcallData(subcall)).to.deep.eq({ id: MultiplexSubcall.TransformERC20, data });
+        });
+    });
+
+    describe('fractional fill amounts', () => {
+        it('can encode and decode a fractional fill amount', () => {
+            const encoded = encodeFractionalFillAmount(0.25);
+            expect(isFractionalFillAmount(encoded)).to.eq(true);
+            expect(isFractionalFillAmount(new BigNumber(100))).to.eq(false);
+            expect(decodeFractionalFillAmount(encoded)).to.bignumber.eq(0.25);
+        });
+
+        it('rejects fractions greater than 1', () => {
+            expect(() => encodeFractionalFillAmount(1.5)).to.throw();
+        });
+
+        it('normalizes sell amounts like the contract', () => {
+            const total = new BigNumber(1000);
+            expect(normalizeBatchSellAmount(encodeFractionalFillAmount(0.25), total)).to.bignumber.eq(250);
+            expect(
+                normalizeBatchSellAmount(encodeFractionalFillAmount(0.25), total, new BigNumber(900)),
+            ).to.bignumber.eq(100);
+            expect(normalizeBatchSellAmount(new BigNumber(600), total, new BigNumber(500))).to.bignumber.eq(500);
+        });
+    });
+});
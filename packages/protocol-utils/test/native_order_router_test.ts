@@ -0,0 +1,94 @@
+import { chaiSetup } from '@0x/dev-utils';
+import { BigNumber, hexUtils } from '@0x/utils';
+import { expect } from 'chai';
+
+import { buildNativeOrderRoute } from '../src/native_order_router';
+import { LimitOrder, OtcOrder, RfqOrder } from '../src/orders';
+import { SignatureType } from '../src/signature_utils';
+import {
+    BridgeProtocol,
+    decodeFillQuoteTransformerData,
+    encodeBridgeSourceId,
+    FillQuoteTransformerOrderType,
+    FillQuoteTransformerSide,
+} from '../src/transformer_utils';
+
+chaiSetup.configure();
+
+describe('native_order_router', () => {
+    const sellToken = hexUtils.random(20);
+    const buyToken = hexUtils.random(20);
+    const signature = { signatureType: SignatureType.EIP712, v: 27, r: hexUtils.random(), s: hexUtils.random() };
+    const tokens = { makerToken: buyToken, takerToken: sellToken };
+    const limitOrder = new LimitOrder({
+        ...tokens,
+        makerAmount: new BigNumber(200),
+        takerAmount: new BigNumber(100),
+        takerTokenFeeAmount: new BigNumber(10),
+    });
+    const rfqOrder = new RfqOrder({ ...tokens, makerAmount: new BigNumber(150), takerAmount: new BigNumber(100) });
+    const otcOrder = new OtcOrder({ ...tokens, makerAmount: new BigNumber(100), takerAmount: new BigNumber(100) });
+    const bridgeOrder = {
+        source: encodeBridgeSourceId(BridgeProtocol.UniswapV2, 'UniswapV2'),
+        takerTokenAmount: new BigNumber(1000),
+        makerTokenAmount: new BigNumber(1200),
+        bridgeData: '0x',
+    };
+    const orders = [otcOrder, rfqOrder, limitOrder].map(order => ({ order, signature }));
+
+    it('fills the cheapest orders first for a sell', () => {
+        const route = buildNativeOrderRoute({
+            sellToken,
+            buyToken,
+            fillAmount: new BigNumber(150),
+            orders,
+            bridgeOrders: [bridgeOrder],
+        });
+        expect(route.data.fillSequence).to.deep.eq([
+            FillQuoteTransformerOrderType.Limit,
+            FillQuoteTransformerOrderType.Rfq,
+        ]);
+        expect(route.data.limitOrders).to.deep.eq([
+            { order: limitOrder, signature, maxTakerTokenFillAmount: limitOrder.takerAmount },
+        ]);
+        // The limit order consumes 110 sell tokens, including its fee.
+        expect(route.legs.map(l => [l.takerTokenAmount.toNumber(), l.makerTokenAmount.toNumber()])).to.deep.eq([
+            [110, 200],
+            [40, 60],
+        ]);
+        expect(route.takerTokenAmount).to.bignumber.eq(150);
+        expect(route.makerTokenAmount).to.bignumber.eq(260);
+        expect(decodeFillQuoteTransformerData(route.encodedData).fillAmount).to.bignumber.eq(150);
+    });
+
+    it('caps orders at their fillable amounts for a buy', () => {
+        const route = buildNativeOrderRoute({
+            side: FillQuoteTransformerSide.Buy,
+            sellToken,
+            buyToken,
+            fillAmount: new BigNumber(300),
+            orders: [{ order: limitOrder, signature, fillableTakerTokenAmount: new BigNumber(50) }],
+            bridgeOrders: [bridgeOrder],
+        });
+        expect(route.data.fillSequence).to.deep.eq([
+            FillQuoteTransformerOrderType.Limit,
+            FillQuoteTransformerOrderType.Bridge,
+        ]);
+        expect(route.data.limitOrders[0].maxTakerTokenFillAmount).to.bignumber.eq(50);
+        expect(route.legs[1].orderIndex).to.eq(0);
+        expect(route.legs[1].takerTokenAmount).to.bignumber.eq(167);
+        expect(route.makerTokenAmount).to.bignumber.eq(300);
+    });
+
+    it('throws if there is not enough liquidity', () => {
+        expect(() => buildNativeOrderRoute({ sellToken, buyToken, fillAmount: new BigNumber(1000), orders })).to.throw(
+            'Insufficient liquidity: can only fill 310 of 1000',
+        );
+    });
+
+    it('rejects orders for another pair', () => {
+        expect(() =>
+            buildNativeOrderRoute({ sellToken: buyToken, buyToken: sellToken, fillAmount: new BigNumber(1), orders }),
+        ).to.throw('does not sell');
+    });
+});
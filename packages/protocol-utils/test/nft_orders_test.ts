@@ -0,0 +1,98 @@
+import { chaiSetup, web3Factory, Web3Wrapper } from '@0x/dev-utils';
+import { Web3ProviderEngine } from '@0x/subproviders';
+import { BigNumber, hexUtils, NULL_ADDRESS } from '@0x/utils';
+import { expect } from 'chai';
+
+import { ERC721Order, OrderStatus } from '../src/nft_orders';
+import { InvalidSignerError, OrderNotFillableError } from '../src/revert-errors/nft_orders';
+import { Signature, SignatureType } from '../src/signature_utils';
+
+chaiSetup.configure();
+
+describe('nft_orders', () => {
+    let provider: Web3ProviderEngine;
+    let web3Wrapper: Web3Wrapper;
+    let maker: string;
+
+    before(async () => {
+        provider = web3Factory.getRpcProvider({ shouldUseInProcessGanache: true });
+        web3Wrapper = new Web3Wrapper(provider);
+        [maker] = await web3Wrapper.getAvailableAddressesAsync();
+    });
+
+    // Deploys a contract that returns nothing or, given `revertData`, always
+    // reverts with it, standing in for the Exchange Proxy.
+    async function deployExchangeProxyStubAsync(revertData?: string): Promise<string> {
+        const push1 = (n: number) => hexUtils.concat('0x60', hexUtils.leftPad(n, 1));
+        const runtimeCode =
+            revertData === undefined
+                ? '0x00'
+                : hexUtils.concat(
+                      push1(hexUtils.size(revertData)),
+                      '0x600c600039',
+                      push1(hexUtils.size(revertData)),
+                      '0x6000fd',
+                      revertData,
+                  );
+        const initCode = hexUtils.concat(
+            push1(hexUtils.size(runtimeCode)),
+            '0x600c600039',
+            push1(hexUtils.size(runtimeCode)),
+            '0x6000f3',
+            runtimeCode,
+        );
+        const receipt = await web3Wrapper.awaitTransactionSuccessAsync(
+            await web3Wrapper.sendTransactionAsync({ from: maker, data: initCode, gas: 100000 }),
+        );
+        return receipt.contractAddress as string;
+    }
+
+    describe('isValidSignatureAsync()', () => {
+        const preSigned: Signature = {
+            signatureType: SignatureType.PreSigned,
+            v: 0,
+            r: hexUtils.leftPad(0),
+            s: hexUtils.leftPad(0),
+        };
+
+        function createOrder(verifyingContract: string): ERC721Order {
+            return new ERC721Order({
+                maker,
+                erc20Token: hexUtils.random(20),
+                erc20TokenAmount: new BigNumber(100),
+                erc721Token: hexUtils.random(20),
+                erc721TokenId: new BigNumber(1),
+                chainId: 1337,
+                verifyingContract,
+            });
+        }
+
+        it('accepts a signature from the maker', async () => {
+            const order = createOrder(hexUtils.random(20));
+            const signature = await order.getSignatureWithProviderAsync(provider, SignatureType.EIP712);
+            expect(await order.isValidSignatureAsync(signature)).to.eq(true);
+        });
+
+        it('accepts a pre-signed order', async () => {
+            const order = createOrder(await deployExchangeProxyStubAsync());
+            expect(await order.isValidSignatureAsync(preSigned, provider)).to.eq(true);
+        });
+
+        it('rejects an order that has not been pre-signed', async () => {
+            const revertData = new InvalidSignerError(maker, NULL_ADDRESS).encode();
+            const order = createOrder(await deployExchangeProxyStubAsync(revertData));
+            expect(await order.isValidSignatureAsync(preSigned, provider)).to.eq(false);
+        });
+
+        it('throws other reverts from the Exchange Proxy', async () => {
+            const revertError = new OrderNotFillableError(maker, new BigNumber(0), OrderStatus.Unfillable);
+            const order = createOrder(await deployExchangeProxyStubAsync(revertError.encode()));
+            return expect(order.isValidSignatureAsync(preSigned, provider)).to.revertWith(revertError);
+        });
+
+        it('requires a provider for PreSigned signatures', async () => {
+            const order = createOrder(hexUtils.random(20));
+            return expect(order.isValidSignatureAsync(preSigned)).to.be.rejectedWith('A provider is required');
+        });
+    });
+});
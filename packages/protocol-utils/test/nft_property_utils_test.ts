@@ -0,0 +1,156 @@
+import { chaiSetup } from '@0x/dev-utils';
+import { BigNumber, hexUtils, NULL_ADDRESS, StringRevertError } from '@0x/utils';
+import { expect } from 'chai';
+
+import { ERC1155Order, ERC721Order, TradeDirection } from '../src/nft_orders';
+import {
+    createERC1155CollectionOffer,
+    createERC721CollectionOffer,
+    createTokenIdMerkleProperty,
+    createTokenIdRangeProperty,
+    decodeTokenIdMerklePropertyData,
+    decodeTokenIdRangePropertyData,
+    getTokenIdMerkleProof,
+    getTokenIdMerkleRoot,
+    PropertyCheckFailedError,
+    propertyValidatorCheckers,
+    validateNFTOrderProperties,
+    verifyTokenIdMerkleProof,
+} from '../src/nft_property_utils';
+import { TokenIdMismatchError } from '../src/revert-errors/nft_orders';
+
+chaiSetup.configure();
+
+describe('nft_property_utils', () => {
+    const erc721Token = hexUtils.random(20);
+    const rangeValidator = hexUtils.random(20);
+    const merkleValidator = hexUtils.random(20);
+    const tokenIds = [1, 5, 9, 42, 1337].map(id => new BigNumber(id));
+
+    describe('collection offers', () => {
+        it('creates a buy order with a zero token ID and a null property', () => {
+            const order = createERC721CollectionOffer({ erc721Token, erc721TokenId: new BigNumber(5) });
+            expect(order.direction).to.eq(TradeDirection.BuyNFT);
+            expect(order.erc721TokenId).to.bignumber.eq(0);
+            expect(order.erc721TokenProperties).to.deep.eq([{ propertyValidator: NULL_ADDRESS, propertyData: '0x' }]);
+            expect(createERC1155CollectionOffer().erc1155TokenProperties).to.have.length(1);
+        });
+
+        it('rejects a collection offer without properties', () => {
+            expect(() => createERC721CollectionOffer({ erc721Token }, [])).to.throw(
+                'Collection offers must have at least one property',
+            );
+        });
+    });
+
+    describe('token ID range properties', () => {
+        it('can round-trip a range', () => {
+            const range = { lowerBound: new BigNumber(10), upperBound: new BigNumber(20) };
+            const { propertyData } = createTokenIdRangeProperty(rangeValidator, range);
+            expect(decodeTokenIdRangePropertyData(propertyData)).to.deep.eq(range);
+        });
+
+        it('rejects an empty range', () => {
+            expect(() =>
+                createTokenIdRangeProperty(rangeValidator, {
+                    lowerBound: new BigNumber(20),
+                    upperBound: new BigNumber(10),
+                }),
+            ).to.throw('lower bound must not exceed the upper bound');
+        });
+    });
+
+    describe('token ID merkle trees', () => {
+        const root = getTokenIdMerkleRoot(tokenIds);
+
+        it('generates proofs for every token ID', () => {
+            for (const tokenId of tokenIds) {
+                expect(verifyTokenIdMerkleProof(root, tokenId, getTokenIdMerkleProof(tokenIds, tokenId))).to.eq(true);
+            }
+        });
+
+        it('does not verify a proof for another token ID', () => {
+            const proof = getTokenIdMerkleProof(tokenIds, tokenIds[0]);
+            expect(verifyTokenIdMerkleProof(root, tokenIds[1], proof)).to.eq(false);
+            expect(() => getTokenIdMerkleProof(tokenIds, new BigNumber(2))).to.throw(
+                'Token ID 2 is not in the merkle tree',
+            );
+        });
+
+        it('hashes sorted pairs of abi-encoded token IDs', () => {
+            const [a, b] = [hexUtils.hash(hexUtils.leftPad(1)), hexUtils.hash(hexUtils.leftPad(2))].sort();
+            expect(getTokenIdMerkleRoot([new BigNumber(2), new BigNumber(1)])).to.eq(
+                hexUtils.hash(hexUtils.concat(a, b)),
+            );
+        });
+
+        it('encodes the root as the property data', () => {
+            const { propertyData } = createTokenIdMerkleProperty(merkleValidator, tokenIds);
+            expect(decodeTokenIdMerklePropertyData(propertyData)).to.eq(root);
+        });
+    });
+
+    describe('validateNFTOrderProperties()', () => {
+        const tokenId = new BigNumber(42);
+
+        it('checks the token ID of an order without properties', () => {
+            const order = new ERC721Order({ direction: TradeDirection.BuyNFT, erc721Token, erc721TokenId: tokenId });
+            expect(validateNFTOrderProperties(order, tokenId)).to.eq(undefined);
+            expect(validateNFTOrderProperties(order, new BigNumber(1))).to.deep.eq(
+                new TokenIdMismatchError(new BigNumber(1), tokenId),
+            );
+        });
+
+        it('rejects sell orders', () => {
+            const order = new ERC1155Order({ direction: TradeDirection.SellNFT });
+            expect(validateNFTOrderProperties(order, tokenId)).to.deep.eq(
+                new StringRevertError('NFTOrders::_validateOrderProperties/WRONG_TRADE_DIRECTION'),
+            );
+        });
+
+        it('accepts any token ID for a collection offer', () => {
+            expect(validateNFTOrderProperties(createERC721CollectionOffer({ erc721Token }), tokenId)).to.eq(undefined);
+        });
+
+        it('checks range and merkle properties with local checkers', () => {
+            const rangeProperty = createTokenIdRangeProperty(rangeValidator, {
+                lowerBound: new BigNumber(0),
+                upperBound: new BigNumber(100),
+            });
+            const merkleProperty = createTokenIdMerkleProperty(merkleValidator, tokenIds);
+            const order = createERC721CollectionOffer({ erc721Token }, [rangeProperty, merkleProperty]);
+            const checkers = (id: BigNumber) => ({
+                [rangeValidator]: propertyValidatorCheckers.tokenIdRange,
+                [merkleValidator]: propertyValidatorCheckers.tokenIdMerkle(getTokenIdMerkleProof(tokenIds, id)),
+            });
+            expect(validateNFTOrderProperties(order, tokenId, checkers(tokenId))).to.eq(undefined);
+            const outOfRange = new BigNumber(1337);
+            expect(validateNFTOrderProperties(order, outOfRange, checkers(outOfRange))).to.deep.eq(
+                new PropertyCheckFailedError(rangeValidator, erc721Token, outOfRange, rangeProperty.propertyData),
+            );
+            const notListed = new BigNumber(7);
+            expect(
+                validateNFTOrderProperties(order, notListed, {
+                    [rangeValidator]: propertyValidatorCheckers.tokenIdRange,
+                    [merkleValidator]: propertyValidatorCheckers.tokenIdMerkle(
+                        getTokenIdMerkleProof(tokenIds, tokenId),
+                    ),
+                }),
+            ).to.deep.eq(
+                new PropertyCheckFailedError(merkleValidator, erc721Token, notListed, merkleProperty.propertyData),
+            );
+        });
+
+        it('throws for a property validator without a local checker', () => {
+            const order = createERC721CollectionOffer({ erc721Token }, [
+                createTokenIdRangeProperty(rangeValidator, {
+                    lowerBound: new BigNumber(0),
+                    upperBound: new BigNumber(100),
+                }),
+            ]);
+            expect(() => validateNFTOrderProperties(order, tokenId)).to.throw(
+                `No local checker for property validator ${rangeValidator}`,
+            );
+        });
+    });
+});
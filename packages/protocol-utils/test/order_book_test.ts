@@ -0,0 +1,211 @@
+import { IZeroExContract, IZeroExEvents } from '@0x/contract-wrappers';
+import { chaiSetup, web3Factory, Web3Wrapper } from '@0x/dev-utils';
+import { Web3ProviderEngine } from '@0x/subproviders';
+import { AbiEncoder, BigNumber, hexUtils } from '@0x/utils';
+import { expect } from 'chai';
+import { EventAbi, LogWithDecodedArgs } from 'ethereum-types';
+
+import { NativeOrderBook, NativeOrderBookEventArgs } from '../src/order_book';
+import { LimitOrder, OrderStatus, RfqOrder } from '../src/orders';
+import { Signature } from '../src/signature_utils';
+
+chaiSetup.configure();
+
+describe('order_book', () => {
+    const makerToken = hexUtils.random(20);
+    const takerToken = hexUtils.random(20);
+    const expiry = new BigNumber(Math.floor(Date.now() / 1000) + 3600);
+    let provider: Web3ProviderEngine;
+    let web3Wrapper: Web3Wrapper;
+    let maker: string;
+    let otherMaker: string;
+
+    before(async () => {
+        provider = web3Factory.getRpcProvider({ shouldUseInProcessGanache: true });
+        web3Wrapper = new Web3Wrapper(provider);
+        [maker, otherMaker] = await web3Wrapper.getAvailableAddressesAsync();
+    });
+
+    function createLimitOrder(makerAmount: number, takerAmount: number, fields: Partial<LimitOrder> = {}): LimitOrder {
+        return new LimitOrder({
+            maker,
+            makerToken,
+            takerToken,
+            makerAmount: new BigNumber(makerAmount),
+            takerAmount: new BigNumber(takerAmount),
+            expiry,
+            salt: new BigNumber(hexUtils.random()),
+            ...fields,
+        });
+    }
+
+    async function addOrdersAsync(book: NativeOrderBook, orders: Array<LimitOrder | RfqOrder>): Promise<void> {
+        for (const order of orders) {
+            const signature: Signature = await order.getSignatureWithProviderAsync(provider, undefined, order.maker);
+            book.addOrder(order, signature);
+        }
+    }
+
+    function createLog(
+        event: IZeroExEvents,
+        args: object,
+        blockNumber: number,
+    ): LogWithDecodedArgs<NativeOrderBookEventArgs> {
+        return { event, args, blockNumber, logIndex: 0 } as LogWithDecodedArgs<NativeOrderBookEventArgs>;
+    }
+
+    // Deploys a contract that emits `LOG1(calldata[32:], topic0 = calldata[:32])`,
+    // standing in for the Exchange Proxy, whose order events have no indexed args.
+    async function deployLogEmitterAsync(): Promise<string> {
+        const runtimeCode = '0x602036036020600037600035602036036000a100';
+        const initCode = hexUtils.concat('0x6014600c60003960146000f3', runtimeCode);
+        const receipt = await web3Wrapper.awaitTransactionSuccessAsync(
+            await web3Wrapper.sendTransactionAsync({ from: maker, data: initCode, gas: 100000 }),
+        );
+        return receipt.contractAddress as string;
+    }
+
+    async function emitLogAsync(emitter: string, event: IZeroExEvents, args: object): Promise<void> {
+        const abi = IZeroExContract.ABI().find(a => a.type === 'event' && (a as EventAbi).name === event) as EventAbi;
+        const topic = hexUtils.hash(hexUtils.toHex(Buffer.from(`${event}(${abi.inputs.map(i => i.type).join(',')})`)));
+        const data = AbiEncoder.create(abi.inputs).encode(args);
+        await web3Wrapper.awaitTransactionSuccessAsync(
+            await web3Wrapper.sendTransactionAsync({ from: maker, to: emitter, data: hexUtils.concat(topic, data) }),
+        );
+    }
+
+    it('indexes orders by pair and maker, best price first', async () => {
+        const book = new NativeOrderBook();
+        const orders = [
+            createLimitOrder(100, 200),
+            createLimitOrder(100, 100),
+            createLimitOrder(50, 50, { maker: otherMaker }),
+            createLimitOrder(100, 100, { makerToken: takerToken, takerToken: makerToken }),
+        ];
+        await addOrdersAsync(book, orders);
+        expect(book.getFillableOrders(makerToken, takerToken).map(e => e.order)).to.deep.eq([
+            orders[1],
+            orders[2],
+            orders[0],
+        ]);
+        expect(book.getBestOrder(makerToken.toUpperCase(), takerToken)).to.have.property('order', orders[1]);
+        expect(book.getOrdersByMaker(otherMaker).map(e => e.order)).to.deep.eq([orders[2]]);
+        expect(book.getDepth(makerToken, takerToken)).to.deep.eq([
+            {
+                price: new BigNumber(1),
+                makerTokenAmount: new BigNumber(150),
+                takerTokenAmount: new BigNumber(150),
+                numOrders: 2,
+            },
+            {
+                price: new BigNumber(2),
+                makerTokenAmount: new BigNumber(100),
+                takerTokenAmount: new BigNumber(200),
+                numOrders: 1,
+            },
+        ]);
+    });
+
+    it('tracks fills and cancellations from events', async () => {
+        const book = new NativeOrderBook();
+        const orders = [createLimitOrder(100, 30), createLimitOrder(100, 30), createLimitOrder(100, 30)];
+        await addOrdersAsync(book, orders);
+        const [filledHash, cancelledHash, partiallyFilledHash] = orders.map(o => o.getHash());
+        book.applyLogs([
+            createLog(
+                IZeroExEvents.LimitOrderFilled,
+                { orderHash: partiallyFilledHash, takerTokenFilledAmount: new BigNumber(10) },
+                1,
+            ),
+            createLog(
+                IZeroExEvents.LimitOrderFilled,
+                { orderHash: filledHash, takerTokenFilledAmount: new BigNumber(30) },
+                2,
+            ),
+            createLog(IZeroExEvents.OrderCancelled, { orderHash: cancelledHash, maker }, 2),
+        ]);
+        expect(book.getOrderInfo(filledHash)).to.have.property('status', OrderStatus.Filled);
+        expect(book.getOrderInfo(cancelledHash)).to.have.property('status', OrderStatus.Cancelled);
+        expect(book.getOrderInfo(partiallyFilledHash)).to.deep.eq({
+            status: OrderStatus.Fillable,
+            orderHash: partiallyFilledHash,
+            takerTokenFilledAmount: new BigNumber(10),
+        });
+        const [entry] = book.getFillableOrders(makerToken, takerToken);
+        expect(entry.remainingTakerTokenAmount).to.bignumber.eq(20);
+        expect(entry.remainingMakerTokenAmount).to.bignumber.eq(66);
+    });
+
+    it('syncs fills and cancellations from the Exchange Proxy logs', async () => {
+        const emitter = await deployLogEmitterAsync();
+        const book = new NativeOrderBook();
+        const orders = [
+            createLimitOrder(100, 30),
+            createLimitOrder(100, 30),
+            createLimitOrder(100, 30, { salt: new BigNumber(1) }),
+        ];
+        await addOrdersAsync(book, orders);
+        const [partiallyFilledHash, cancelledHash, pairCancelledHash] = orders.map(o => o.getHash());
+        const fromBlock = (await web3Wrapper.getBlockNumberAsync()) + 1;
+        await emitLogAsync(emitter, IZeroExEvents.LimitOrderFilled, {
+            orderHash: partiallyFilledHash,
+            maker,
+            taker: otherMaker,
+            feeRecipient: otherMaker,
+            makerToken,
+            takerToken,
+            takerTokenFilledAmount: new BigNumber(10),
+            makerTokenFilledAmount: new BigNumber(33),
+            takerTokenFeeFilledAmount: new BigNumber(0),
+            protocolFeePaid: new BigNumber(0),
+            pool: hexUtils.leftPad(0),
+        });
+        await emitLogAsync(emitter, IZeroExEvents.OrderCancelled, { orderHash: cancelledHash, maker });
+        await emitLogAsync(emitter, IZeroExEvents.PairCancelledLimitOrders, {
+            maker,
+            makerToken,
+            takerToken,
+            minValidSalt: new BigNumber(2),
+        });
+        const toBlock = await web3Wrapper.getBlockNumberAsync();
+        await book.syncAsync(new IZeroExContract(emitter, provider), { fromBlock, toBlock });
+        expect(book.getOrderInfo(partiallyFilledHash)).to.deep.eq({
+            status: OrderStatus.Fillable,
+            orderHash: partiallyFilledHash,
+            takerTokenFilledAmount: new BigNumber(10),
+        });
+        expect(book.getOrderInfo(cancelledHash)).to.have.property('status', OrderStatus.Cancelled);
+        expect(book.getOrderInfo(pairCancelledHash)).to.have.property('status', OrderStatus.Cancelled);
+    });
+
+    it('applies pair cancellations to limit orders only', async () => {
+        const book = new NativeOrderBook();
+        const limitOrder = createLimitOrder(100, 100, { salt: new BigNumber(1) });
+        const rfqOrder = new RfqOrder({ ...limitOrder, txOrigin: maker });
+        book.applyLogs([
+            createLog(
+                IZeroExEvents.PairCancelledLimitOrders,
+                { maker, makerToken, takerToken, minValidSalt: new BigNumber(2) },
+                1,
+            ),
+        ]);
+        await addOrdersAsync(book, [limitOrder, rfqOrder]);
+        expect(book.getOrderInfo(limitOrder.getHash())).to.have.property('status', OrderStatus.Cancelled);
+        expect(book.getOrderInfo(rfqOrder.getHash())).to.have.property('status', OrderStatus.Fillable);
+    });
+
+    it('prunes expired, filled and cancelled orders', async () => {
+        const book = new NativeOrderBook();
+        const orders = [
+            createLimitOrder(100, 100),
+            createLimitOrder(100, 100, { expiry: expiry.minus(7200) }),
+            createLimitOrder(100, 100, { expiry: expiry.minus(3000) }),
+            createLimitOrder(100, 100),
+        ];
+        await addOrdersAsync(book, orders);
+        book.applyLogs([createLog(IZeroExEvents.OrderCancelled, { orderHash: orders[3].getHash(), maker }, 1)]);
+        expect(book.getOrderInfo(orders[1].getHash())).to.have.property('status', OrderStatus.Expired);
+        expect(book.pruneOrders(1200).map(e => e.order)).to.deep.eq([orders[1], orders[2], orders[3]]);
+        expect(book.getOrdersByMaker(maker).map(e => e.order)).to.deep.eq([orders[0]]);
+    });
+});
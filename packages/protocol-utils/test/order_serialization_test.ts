@@ -0,0 +1,114 @@
+import { chaiSetup } from '@0x/dev-utils';
+import { BigNumber } from '@0x/utils';
+import { expect } from 'chai';
+
+import { ERC721Order, TradeDirection } from '../src/nft_orders';
+import {
+    deserializeOrder,
+    orderFromJson,
+    orderToJson,
+    SerializedOrderType,
+    serializeOrder,
+    signatureFromJson,
+} from '../src/order_serialization';
+import { LimitOrder, OtcOrder } from '../src/orders';
+import { SignatureType } from '../src/signature_utils';
+
+chaiSetup.configure();
+
+describe('order_serialization', () => {
+    const limitOrder = new LimitOrder({
+        makerToken: '0x349e8d89e8b37214d9ce3949fc5754152c525bc3',
+        takerToken: '0x83c62b2e67dea0df2a27be0def7a22bd7102642c',
+        makerAmount: new BigNumber(1234),
+        takerAmount: new BigNumber(5678),
+        takerTokenFeeAmount: new BigNumber(9101112),
+        maker: '0x8d5e5b5b5d187bdce2e0143eb6b3cc44eef3c0cb',
+        taker: '0x615312fb74c31303eab07dea520019bb23f4c6c2',
+        sender: '0x70f2d6c7acd257a6700d745b76c602ceefeb8e20',
+        feeRecipient: '0xcc3c7ea403427154ec908203ba6c418bd699f7ce',
+        pool: '0x0bbff69b85a87da39511aefc3211cb9aff00e1a1779dc35b8f3635d8b5ea2680',
+        expiry: new BigNumber(1001),
+        salt: new BigNumber(2001),
+        chainId: 8008,
+        verifyingContract: '0x6701704d2421c64ee9aa93ec7f96ede81c4be77d',
+    });
+    const signature = {
+        signatureType: SignatureType.EIP712,
+        v: 27,
+        r: '0x030e27e0a261dda1139154d9ba7e814932bd6b8d15231a8c2cd78d634ff22c2b',
+        s: '0x50af45e0d6e81b721905bd35748168f1f348be34fe03073d7a2f2b053cbdca2d',
+    };
+
+    it('serializes integers as decimal strings', () => {
+        const json = orderToJson(limitOrder);
+        expect(json.makerAmount).to.eq('1234');
+        expect(json.expiry).to.eq('1001');
+        expect(json.chainId).to.eq(8008);
+    });
+
+    it('can round-trip a signed limit order through a JSON string', () => {
+        const envelope = JSON.stringify(serializeOrder(limitOrder, signature));
+        const { type, order, signature: actualSignature } = deserializeOrder(envelope);
+        expect(type).to.eq(SerializedOrderType.Limit);
+        expect(order).to.be.instanceOf(LimitOrder);
+        expect(order.getHash()).to.eq(limitOrder.getHash());
+        expect(actualSignature).to.deep.eq(signature);
+    });
+
+    it('can round-trip an OTC order', () => {
+        const otcOrder = new OtcOrder({
+            makerAmount: new BigNumber(1),
+            expiryAndNonce: OtcOrder.encodeExpiryAndNonce(new BigNumber(1001), new BigNumber(2), new BigNumber(3)),
+        });
+        const order = orderFromJson(SerializedOrderType.Otc, orderToJson(otcOrder));
+        expect(order.getHash()).to.eq(otcOrder.getHash());
+        expect(order.nonceBucket).to.bignumber.eq(2);
+    });
+
+    it('can round-trip an ERC721 order with fees and properties', () => {
+        const nftOrder = new ERC721Order({
+            direction: TradeDirection.BuyNFT,
+            erc20TokenAmount: new BigNumber(100),
+            fees: [{ recipient: limitOrder.maker, amount: new BigNumber(1), feeData: '0x1234' }],
+            erc721TokenProperties: [{ propertyValidator: limitOrder.taker, propertyData: '0x' }],
+        });
+        const json = orderToJson(nftOrder);
+        expect(json.direction).to.eq(TradeDirection.BuyNFT);
+        const order = orderFromJson(SerializedOrderType.ERC721, json);
+        expect(order.getHash()).to.eq(nftOrder.getHash());
+    });
+
+    it('rejects uint128 values that are out of range', () => {
+        const json = {
+            ...orderToJson(limitOrder),
+            makerAmount: new BigNumber(2).pow(128).toString(10),
+        };
+        expect(() => orderFromJson(SerializedOrderType.Limit, json)).to.throw('out of range for uint128');
+        expect(() => orderToJson(limitOrder.clone({ makerAmount: new BigNumber(2).pow(128) }))).to.throw(
+            'out of range for uint128',
+        );
+    });
+
+    it('rejects uint64 values that are out of range', () => {
+        const json = {
+            ...orderToJson(limitOrder),
+            expiry: new BigNumber(2).pow(64).toString(10),
+        };
+        expect(() => orderFromJson(SerializedOrderType.Limit, json)).to.throw('out of range for uint64');
+    });
+
+    it('rejects hex-encoded integers', () => {
+        const json = { ...orderToJson(limitOrder), makerAmount: '0x4d2' };
+        expect(() => orderFromJson(SerializedOrderType.Limit, json)).to.throw('Invalid limit order JSON');
+    });
+
+    it('rejects malformed signatures', () => {
+        expect(() => signatureFromJson({ ...signature, r: '0x1234' })).to.throw('Invalid signature JSON');
+    });
+
+    it('rejects unknown envelope versions', () => {
+        const envelope = { ...serializeOrder(limitOrder), version: 2 };
+        expect(() => deserializeOrder(envelope)).to.throw('Unsupported order envelope version');
+    });
+});
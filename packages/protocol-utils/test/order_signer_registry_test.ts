@@ -0,0 +1,68 @@
+import { IZeroExOrderSignerRegisteredEventArgs } from '@0x/contract-wrappers';
+import { chaiSetup } from '@0x/dev-utils';
+import { hexUtils } from '@0x/utils';
+import { expect } from 'chai';
+import * as ethjs from 'ethereumjs-util';
+import { LogWithDecodedArgs } from 'ethereum-types';
+
+import {
+    decodeRegisterAllowedOrderSignerCallData,
+    encodeRegisterAllowedOrderSignerCallData,
+    OrderSignerRegistry,
+} from '../src/order_signer_registry';
+import { LimitOrder } from '../src/orders';
+import { InvalidSignerError } from '../src/revert-errors/native_orders';
+import { SignatureValidationError, SignatureValidationErrorCodes } from '../src/revert-errors/signatures';
+import { SignatureType } from '../src/signature_utils';
+
+chaiSetup.configure();
+
+describe('order_signer_registry', () => {
+    const makerKey = hexUtils.hash('0x1');
+    const maker = ethjs.bufferToHex(ethjs.privateToAddress(ethjs.toBuffer(makerKey)));
+    const signerKey = hexUtils.hash('0x2');
+    const signer = ethjs.bufferToHex(ethjs.privateToAddress(ethjs.toBuffer(signerKey)));
+    const order = new LimitOrder({ maker });
+
+    function createLog(
+        allowed: boolean,
+        blockNumber: number,
+        logIndex: number,
+    ): LogWithDecodedArgs<IZeroExOrderSignerRegisteredEventArgs> {
+        return {
+            args: { maker, signer, allowed },
+            blockNumber,
+            logIndex,
+        } as LogWithDecodedArgs<IZeroExOrderSignerRegisteredEventArgs>;
+    }
+
+    it('can round-trip register calldata', () => {
+        const callData = encodeRegisterAllowedOrderSignerCallData(signer, false);
+        expect(decodeRegisterAllowedOrderSignerCallData(callData)).to.deep.eq({ signer, allowed: false });
+    });
+
+    it('applies registrations in the order they were emitted', () => {
+        const registry = new OrderSignerRegistry();
+        registry.applyLogs([createLog(false, 2, 0), createLog(true, 1, 5)]);
+        expect(registry.isValidOrderSigner(maker, signer)).to.eq(false);
+        registry.applyLogs([createLog(false, 3, 1), createLog(true, 3, 2)]);
+        expect(registry.isValidOrderSigner(maker.toUpperCase(), signer)).to.eq(true);
+        expect(registry.getAllowedSigners(maker)).to.deep.eq([signer]);
+    });
+
+    it('accepts signatures from the maker or an allowed signer', () => {
+        const registry = new OrderSignerRegistry();
+        const signature = order.getSignatureWithKey(signerKey, SignatureType.EIP712);
+        expect(registry.validateOrderSigner(order, order.getSignatureWithKey(makerKey))).to.eq(undefined);
+        expect(registry.validateOrderSigner(order, signature)).to.deep.eq(new InvalidSignerError(maker, signer));
+        registry.applyRegistration({ maker, signer, allowed: true });
+        expect(registry.validateOrderSigner(order, signature)).to.eq(undefined);
+    });
+
+    it('surfaces invalid signatures', () => {
+        const signature = { ...order.getSignatureWithKey(makerKey), signatureType: SignatureType.Invalid };
+        expect(new OrderSignerRegistry().validateOrderSigner(order, signature)).to.deep.eq(
+            new SignatureValidationError(SignatureValidationErrorCodes.AlwaysInvalid, order.getHash()),
+        );
+    });
+});
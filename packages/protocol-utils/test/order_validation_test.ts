@@ -0,0 +1,161 @@
+import { chaiSetup } from '@0x/dev-utils';
+import { BigNumber, hexUtils, NULL_ADDRESS } from '@0x/utils';
+import { expect } from 'chai';
+import * as ethjs from 'ethereumjs-util';
+
+import { getOrderInfo, validateOrder } from '../src/order_validation';
+import { LimitOrder, OrderStatus, OtcOrder, RfqOrder } from '../src/orders';
+import {
+    OrderNotFillableByOriginError,
+    OrderNotFillableBySenderError,
+    OrderNotFillableByTakerError,
+    OrderNotFillableError,
+    OrderNotSignedByMakerError,
+} from '../src/revert-errors/native_orders';
+import { SignatureValidationError, SignatureValidationErrorCodes } from '../src/revert-errors/signatures';
+import { SignatureType } from '../src/signature_utils';
+
+chaiSetup.configure();
+
+describe('order_validation', () => {
+    const makerKey = hexUtils.hash('0x1');
+    const maker = ethjs.bufferToHex(ethjs.privateToAddress(ethjs.toBuffer(makerKey)));
+    const otherKey = hexUtils.hash('0x2');
+    const other = ethjs.bufferToHex(ethjs.privateToAddress(ethjs.toBuffer(otherKey)));
+    const taker = hexUtils.random(20);
+    const blockTimestamp = 1000;
+    const limitOrder = new LimitOrder({
+        maker,
+        makerAmount: new BigNumber(100),
+        takerAmount: new BigNumber(200),
+        expiry: new BigNumber(2000),
+        salt: new BigNumber(1),
+    });
+    const rfqOrder = new RfqOrder({
+        maker,
+        makerAmount: new BigNumber(100),
+        takerAmount: new BigNumber(200),
+        txOrigin: taker,
+        expiry: new BigNumber(2000),
+        salt: new BigNumber(1),
+    });
+    const otcOrder = new OtcOrder({
+        maker,
+        makerAmount: new BigNumber(100),
+        takerAmount: new BigNumber(200),
+        txOrigin: taker,
+        expiryAndNonce: OtcOrder.encodeExpiryAndNonce(new BigNumber(2000), new BigNumber(3), new BigNumber(5)),
+    });
+
+    describe('getOrderInfo()', () => {
+        it('returns fillable for a fresh order', () => {
+            const info = getOrderInfo(limitOrder, { blockTimestamp });
+            expect(info.orderHash).to.eq(limitOrder.getHash());
+            expect(info.status).to.eq(OrderStatus.Fillable);
+            expect(info.takerTokenFilledAmount).to.bignumber.eq(0);
+        });
+
+        it('returns filled for a fully filled or zero amount order', () => {
+            expect(
+                getOrderInfo(limitOrder, { blockTimestamp, takerTokenFilledAmount: new BigNumber(200) }).status,
+            ).to.eq(OrderStatus.Filled);
+            expect(getOrderInfo(limitOrder.clone({ takerAmount: new BigNumber(0) }), { blockTimestamp }).status).to.eq(
+                OrderStatus.Filled,
+            );
+        });
+
+        it('returns cancelled for orders cancelled by hash or salt', () => {
+            expect(getOrderInfo(limitOrder, { blockTimestamp, isCancelled: true }).status).to.eq(OrderStatus.Cancelled);
+            expect(getOrderInfo(limitOrder, { blockTimestamp, minValidSalt: new BigNumber(2) }).status).to.eq(
+                OrderStatus.Cancelled,
+            );
+        });
+
+        it('returns expired once the expiry is reached', () => {
+            expect(getOrderInfo(limitOrder, { blockTimestamp: 2000 }).status).to.eq(OrderStatus.Expired);
+        });
+
+        it('returns invalid for an RFQ order without a txOrigin', () => {
+            expect(getOrderInfo(rfqOrder.clone({ txOrigin: NULL_ADDRESS }), { blockTimestamp }).status).to.eq(
+                OrderStatus.Invalid,
+            );
+        });
+
+        it('returns invalid for an OTC order with a used nonce', () => {
+            expect(getOrderInfo(otcOrder, { blockTimestamp }).status).to.eq(OrderStatus.Fillable);
+            expect(getOrderInfo(otcOrder, { blockTimestamp, lastTxOriginNonce: new BigNumber(5) }).status).to.eq(
+                OrderStatus.Invalid,
+            );
+        });
+    });
+
+    describe('validateOrder()', () => {
+        it('accepts a fillable order signed by the maker', () => {
+            for (const order of [limitOrder, rfqOrder, otcOrder]) {
+                for (const type of [SignatureType.EIP712, SignatureType.EthSign]) {
+                    const signature = order.getSignatureWithKey(makerKey, type);
+                    expect(validateOrder(order, signature, { taker }, { blockTimestamp })).to.eq(undefined);
+                }
+            }
+        });
+
+        it('rejects an unfillable order', () => {
+            const signature = limitOrder.getSignatureWithKey(makerKey);
+            expect(validateOrder(limitOrder, signature, { taker }, { blockTimestamp: 2000 })).to.deep.eq(
+                new OrderNotFillableError(limitOrder.getHash(), OrderStatus.Expired),
+            );
+        });
+
+        it('rejects the wrong taker and sender', () => {
+            const order = limitOrder.clone({ taker: other, sender: other });
+            const signature = order.getSignatureWithKey(makerKey);
+            expect(validateOrder(order, signature, { taker }, { blockTimestamp })).to.deep.eq(
+                new OrderNotFillableByTakerError(order.getHash(), taker, other),
+            );
+            expect(validateOrder(order, signature, { taker: other, sender: taker }, { blockTimestamp })).to.deep.eq(
+                new OrderNotFillableBySenderError(order.getHash(), taker, other),
+            );
+        });
+
+        it('rejects the wrong tx origin unless it is registered', () => {
+            const signature = rfqOrder.getSignatureWithKey(makerKey);
+            expect(validateOrder(rfqOrder, signature, { taker, txOrigin: other }, { blockTimestamp })).to.deep.eq(
+                new OrderNotFillableByOriginError(rfqOrder.getHash(), other, taker),
+            );
+            expect(
+                validateOrder(
+                    rfqOrder,
+                    signature,
+                    { taker, txOrigin: other },
+                    { blockTimestamp, allowedTxOrigins: [other] },
+                ),
+            ).to.eq(undefined);
+        });
+
+        it('rejects a signature from someone other than the maker unless they are a registered signer', () => {
+            const signature = otcOrder.getSignatureWithKey(otherKey);
+            expect(validateOrder(otcOrder, signature, { taker }, { blockTimestamp })).to.deep.eq(
+                new OrderNotSignedByMakerError(otcOrder.getHash(), other, maker),
+            );
+            expect(
+                validateOrder(otcOrder, signature, { taker }, { blockTimestamp, allowedOrderSigners: [other] }),
+            ).to.eq(undefined);
+        });
+
+        it('rejects unsupported and malformed signatures', () => {
+            const signature = limitOrder.getSignatureWithKey(makerKey);
+            const orderHash = limitOrder.getHash();
+            const preSigned = { ...signature, signatureType: SignatureType.PreSigned };
+            expect(validateOrder(limitOrder, preSigned, { taker }, { blockTimestamp })).to.deep.eq(
+                new SignatureValidationError(SignatureValidationErrorCodes.Unsupported, orderHash),
+            );
+            const highS = { ...signature, s: `0x${'f'.repeat(64)}` };
+            expect(validateOrder(limitOrder, highS, { taker }, { blockTimestamp })).to.deep.eq(
+                new SignatureValidationError(SignatureValidationErrorCodes.BadSignatureData, orderHash),
+            );
+            expect(validateOrder(limitOrder, { ...signature, v: 1 }, { taker }, { blockTimestamp })).to.deep.eq(
+                new SignatureValidationError(SignatureValidationErrorCodes.BadSignatureData, orderHash),
+            );
+        });
+    });
+});
@@ -0,0 +1,72 @@
+import { IZeroExContract } from '@0x/contract-wrappers';
+import { chaiSetup } from '@0x/dev-utils';
+import { BigNumber, hexUtils } from '@0x/utils';
+import { expect } from 'chai';
+
+import { OtcNonceManager } from '../src/otc_nonce_manager';
+import { OtcOrder } from '../src/orders';
+
+chaiSetup.configure();
+
+describe('otc_nonce_manager', () => {
+    const txOrigin = hexUtils.random(20);
+
+    it('allocates monotonic nonces per bucket', async () => {
+        const manager = new OtcNonceManager();
+        const first = await manager.allocateNonceAsync(txOrigin);
+        const second = await manager.allocateNonceAsync(txOrigin.toUpperCase());
+        expect(first).to.deep.eq({ nonceBucket: new BigNumber(0), nonce: new BigNumber(1) });
+        expect(second).to.deep.eq({ nonceBucket: new BigNumber(0), nonce: new BigNumber(2) });
+        expect(await manager.allocateNonceAsync(hexUtils.random(20))).to.deep.eq(first);
+    });
+
+    it('spreads concurrent allocations across buckets', async () => {
+        const manager = new OtcNonceManager({ firstNonceBucket: new BigNumber(10), numNonceBuckets: 3 });
+        const nonces = await Promise.all([...new Array(4)].map(async () => manager.allocateNonceAsync(txOrigin)));
+        expect(nonces.map(n => n.nonceBucket.toNumber())).to.deep.eq([10, 11, 12, 10]);
+        expect(nonces.map(n => n.nonce.toNumber())).to.deep.eq([1, 1, 1, 2]);
+    });
+
+    it('packs the nonce into expiryAndNonce', async () => {
+        const manager = new OtcNonceManager({ firstNonceBucket: new BigNumber(7) });
+        const expiryAndNonce = await manager.createExpiryAndNonceAsync(txOrigin, new BigNumber(1234));
+        expect(OtcOrder.parseExpiryAndNonce(expiryAndNonce)).to.deep.eq({
+            expiry: new BigNumber(1234),
+            nonceBucket: new BigNumber(7),
+            nonce: new BigNumber(1),
+        });
+    });
+
+    it('fast-forwards to the nonces consumed on chain', async () => {
+        const zeroEx = {
+            lastOtcTxOriginNonce: (_txOrigin: string, nonceBucket: BigNumber) => ({
+                callAsync: async () => nonceBucket.times(100),
+            }),
+        } as unknown as IZeroExContract;
+        const manager = new OtcNonceManager({ numNonceBuckets: 2 });
+        await manager.allocateNonceAsync(txOrigin, new BigNumber(0));
+        await manager.syncFromChainAsync(zeroEx, txOrigin);
+        expect(await manager.allocateNonceAsync(txOrigin, new BigNumber(0))).to.deep.include({
+            nonce: new BigNumber(2),
+        });
+        expect(await manager.allocateNonceAsync(txOrigin, new BigNumber(1))).to.deep.include({
+            nonce: new BigNumber(101),
+        });
+    });
+
+    it('rejects buckets out of range', () => {
+        expect(() => new OtcNonceManager({ firstNonceBucket: OtcOrder.MAX_NONCE_BUCKET, numNonceBuckets: 2 })).to.throw(
+            'Nonce bucket out of range',
+        );
+        expect(() => new OtcNonceManager({ numNonceBuckets: 0 })).to.throw('Invalid number of nonce buckets: 0');
+    });
+
+    it('rejects an explicit bucket out of range', async () => {
+        const manager = new OtcNonceManager();
+        const bucket = OtcOrder.MAX_NONCE_BUCKET.plus(1);
+        await expect(manager.allocateNonceAsync(txOrigin, bucket)).to.be.rejectedWith('Nonce bucket out of range');
+        expect(await manager.allocateNonceAsync(txOrigin, OtcOrder.MAX_NONCE_BUCKET)).to.deep.include({
+            nonce: new BigNumber(1),
+        });
+    });
+});
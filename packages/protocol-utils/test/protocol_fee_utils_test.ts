@@ -0,0 +1,142 @@
+import { IZeroExContract } from '@0x/contract-wrappers';
+import { chaiSetup } from '@0x/dev-utils';
+import { AbiEncoder, BigNumber, hexUtils, NULL_ADDRESS } from '@0x/utils';
+import { expect } from 'chai';
+import { MethodAbi } from 'ethereum-types';
+
+import { createBatchSellSubcall, MultiplexSubcall } from '../src/multiplex_utils';
+import { LimitOrder, RfqOrder } from '../src/orders';
+import {
+    DEFAULT_PROTOCOL_FEE_MULTIPLIER,
+    estimateProtocolFees,
+    getProtocolFeePerFill,
+    withProtocolFeeValue,
+} from '../src/protocol_fee_utils';
+import { SignatureType } from '../src/signature_utils';
+import { encodeTransformERC20CallData } from '../src/transform_erc20_explainer';
+import {
+    encodeFillQuoteTransformerData,
+    FillQuoteTransformerOrderType,
+    FillQuoteTransformerSide,
+    getTransformerAddress,
+} from '../src/transformer_utils';
+
+chaiSetup.configure();
+
+describe('protocol_fee_utils', () => {
+    const gasPrice = new BigNumber(10e9);
+    const signature = { signatureType: SignatureType.EIP712, v: 27, r: hexUtils.random(), s: hexUtils.random() };
+    const order = new LimitOrder();
+    const deployer = hexUtils.random(20);
+    const transformers = { fillQuoteTransformer: getTransformerAddress(deployer, 2) };
+    const fillQuoteData = encodeFillQuoteTransformerData({
+        side: FillQuoteTransformerSide.Sell,
+        sellToken: hexUtils.random(20),
+        buyToken: hexUtils.random(20),
+        bridgeOrders: [],
+        limitOrders: [order, order].map(o => ({ order: o, signature, maxTakerTokenFillAmount: new BigNumber(1) })),
+        rfqOrders: [],
+        otcOrders: [],
+        fillSequence: [FillQuoteTransformerOrderType.Limit, FillQuoteTransformerOrderType.Limit],
+        fillAmount: new BigNumber(2),
+        refundReceiver: NULL_ADDRESS,
+    });
+    const transformations = [
+        { deploymentNonce: 1, data: '0x' },
+        { deploymentNonce: 2, data: fillQuoteData },
+    ];
+
+    function encodeCallData(functionName: string, args: unknown[]): string {
+        const abi = IZeroExContract.ABI().find(a => a.type === 'function' && (a as MethodAbi).name === functionName);
+        return new AbiEncoder.Method(abi as MethodAbi).encode(args);
+    }
+
+    describe('getProtocolFeePerFill()', () => {
+        it('charges the multiplier times the gas price', () => {
+            expect(getProtocolFeePerFill({ gasPrice })).to.bignumber.eq(
+                gasPrice.times(DEFAULT_PROTOCOL_FEE_MULTIPLIER),
+            );
+            expect(getProtocolFeePerFill({ gasPrice, protocolFeeMultiplier: 1 })).to.bignumber.eq(gasPrice);
+        });
+
+        it('uses the max fee per gas under EIP-1559 pricing', () => {
+            const maxFeePerGas = gasPrice.times(2);
+            expect(getProtocolFeePerFill({ gasPrice, maxFeePerGas, protocolFeeMultiplier: 1 })).to.bignumber.eq(
+                maxFeePerGas,
+            );
+        });
+
+        it('requires a gas price', () => {
+            expect(() => getProtocolFeePerFill()).to.throw('A gas price or max fee per gas is required');
+        });
+    });
+
+    describe('estimateProtocolFees()', () => {
+        it('charges single and batch limit order fills', () => {
+            const fill = encodeCallData('fillLimitOrder', [order, signature, new BigNumber(1)]);
+            expect(estimateProtocolFees(fill, { gasPrice, protocolFeeMultiplier: 1 })).to.deep.eq({
+                numLimitOrderFills: 1,
+                numUnfundedLimitOrderFills: 0,
+                protocolFeePerFill: gasPrice,
+                protocolFee: gasPrice,
+            });
+            const batchFill = encodeCallData('batchFillLimitOrders', [
+                [order, order, order],
+                [signature, signature, signature],
+                [1, 1, 1].map(n => new BigNumber(n)),
+                false,
+            ]);
+            expect(estimateProtocolFees(batchFill, { gasPrice }).numLimitOrderFills).to.eq(3);
+        });
+
+        it('does not charge RFQ order fills', () => {
+            const fill = encodeCallData('fillRfqOrder', [new RfqOrder(), signature, new BigNumber(1)]);
+            expect(estimateProtocolFees(fill).protocolFee).to.bignumber.eq(0);
+        });
+
+        it('charges limit order legs of the FillQuoteTransformer', () => {
+            const callData = encodeTransformERC20CallData({
+                inputToken: hexUtils.random(20),
+                outputToken: hexUtils.random(20),
+                inputTokenAmount: new BigNumber(2),
+                minOutputTokenAmount: new BigNumber(1),
+                transformations,
+            });
+            const estimate = estimateProtocolFees(callData, { gasPrice, deployer, transformers });
+            expect(estimate.numLimitOrderFills).to.eq(2);
+            expect(estimateProtocolFees(callData, { gasPrice, deployer }).numLimitOrderFills).to.eq(0);
+        });
+
+        it('reports multiplex limit order legs as unfunded', () => {
+            const callData = encodeCallData('multiplexBatchSellTokenForToken', [
+                hexUtils.random(20),
+                hexUtils.random(20),
+                [
+                    createBatchSellSubcall(
+                        { id: MultiplexSubcall.TransformERC20, data: { transformations } },
+                        new BigNumber(2),
+                    ),
+                ],
+                new BigNumber(2),
+                new BigNumber(1),
+            ]);
+            const estimate = estimateProtocolFees(callData, { gasPrice, deployer, transformers });
+            expect(estimate.numLimitOrderFills).to.eq(0);
+            expect(estimate.numUnfundedLimitOrderFills).to.eq(2);
+            expect(estimate.protocolFee).to.bignumber.eq(0);
+        });
+    });
+
+    describe('withProtocolFeeValue()', () => {
+        it('adds the protocol fee to the value of a transaction', () => {
+            const txData = {
+                data: encodeCallData('fillLimitOrder', [order, signature, new BigNumber(1)]),
+                maxFeePerGas: gasPrice,
+                value: 1,
+            };
+            expect(withProtocolFeeValue(txData, { protocolFeeMultiplier: 2 }).value).to.bignumber.eq(
+                gasPrice.times(2).plus(1),
+            );
+        });
+    });
+});
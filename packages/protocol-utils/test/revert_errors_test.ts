@@ -0,0 +1,57 @@
+import { chaiSetup } from '@0x/dev-utils';
+import { BigNumber, hexUtils, OwnableRevertErrors, RawRevertError, StringRevertError } from '@0x/utils';
+import { expect } from 'chai';
+
+import { decodeExchangeProxyRevert, NativeOrders, NFTOrders, Proxy, TransformERC20 } from '../src/revert-errors';
+
+chaiSetup.configure();
+
+describe('revert-errors', () => {
+    describe('decodeExchangeProxyRevert()', () => {
+        it('decodes rich errors from every family', () => {
+            const errors = [
+                new TransformERC20.IncompleteTransformERC20Error(
+                    hexUtils.random(20),
+                    new BigNumber(1),
+                    new BigNumber(2),
+                ),
+                new TransformERC20.NegativeTransformERC20OutputError(hexUtils.random(20), new BigNumber(1)),
+                new TransformERC20.InvalidERC20AssetDataError(hexUtils.random(36)),
+                new Proxy.NotImplementedError('0x12345678'),
+                new OwnableRevertErrors.TransferOwnerToZeroError(),
+                new NativeOrders.OrderNotFillableError(hexUtils.random(), 2),
+                new NFTOrders.ExceedsRemainingOrderAmount(new BigNumber(1), new BigNumber(2)),
+            ];
+            for (const error of errors) {
+                const decoded = decodeExchangeProxyRevert(error.encode());
+                expect(decoded.constructor).to.eq(error.constructor);
+                expect(decoded.equals(error)).to.eq(true);
+            }
+        });
+
+        it('decodes OnlyOwnerError with the Exchange Proxy signature', () => {
+            const error = new OwnableRevertErrors.OnlyOwnerError(hexUtils.random(20), hexUtils.random(20));
+            expect(hexUtils.slice(error.encode(), 0, 4)).to.eq(
+                hexUtils.slice(hexUtils.hash(hexUtils.toHex(Buffer.from('OnlyOwnerError(address,address)'))), 0, 4),
+            );
+            expect(decodeExchangeProxyRevert(error.encode()).equals(error)).to.eq(true);
+        });
+
+        it('decodes string reverts', () => {
+            const error = new StringRevertError('oops');
+            expect(decodeExchangeProxyRevert(error.encode())).to.deep.eq(error);
+        });
+
+        it('falls back to a raw error for unknown or malformed data', () => {
+            for (const data of [
+                '0x',
+                '0xdeadbeef',
+                new Proxy.NotImplementedError('0x12345678').encode().slice(0, 20),
+            ]) {
+                const decoded = decodeExchangeProxyRevert(data);
+                expect(decoded).to.be.instanceOf(RawRevertError);
+                expect(decoded.encode()).to.eq(data);
+            }
+        });
+    });
+});
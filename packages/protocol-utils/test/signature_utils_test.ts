@@ -1,12 +1,23 @@
 import { chaiSetup, web3Factory, Web3Wrapper } from '@0x/dev-utils';
 import { Web3ProviderEngine } from '@0x/subproviders';
+import { BigNumber, hexUtils } from '@0x/utils';
 import { expect } from 'chai';
+import * as ethjs from 'ethereumjs-util';
 
+import { SignatureValidationError, SignatureValidationErrorCodes } from '../src/revert-errors/signatures';
 import {
+    decodeCompactSignature,
+    decodeLegacySignature,
+    decodePackedSignature,
     ecSignHashWithKey,
     eip712SignHashWithKey,
+    encodeCompactSignature,
+    encodeLegacySignature,
+    encodePackedSignature,
     ethSignHashWithKey,
     ethSignHashWithProviderAsync,
+    isValidSignatureAsync,
+    recoverSignerFromSignature,
     SignatureType,
 } from '../src/signature_utils';
 
@@ -17,6 +28,7 @@ describe('signature_utils', () => {
     let signer: string;
     const hash = '0x38a8da1ec749de4220312ce7fa62aaf01a6e8c1342cbce81278ae7c8885c2475';
     const key = '0xee094b79aa0315914955f2f09be9abe541dcdc51f0aae5bec5453e9f73a471a6';
+    const SECP256K1_N = new BigNumber('fffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141', 16);
 
     before(async () => {
         provider = web3Factory.getRpcProvider({ shouldUseInProcessGanache: true });
@@ -73,4 +85,115 @@ describe('signature_utils', () => {
             expect(actual).to.deep.eq(expected);
         });
     });
+
+    describe('recoverSignerFromSignature()', () => {
+        const keySigner = ethjs.bufferToHex(ethjs.privateToAddress(ethjs.toBuffer(key)));
+
+        it('can recover the signer of an EthSign signature', () => {
+            expect(recoverSignerFromSignature(hash, ethSignHashWithKey(hash, key))).to.eq(keySigner);
+        });
+
+        it('can recover the signer of an EIP712 signature', () => {
+            expect(recoverSignerFromSignature(hash, eip712SignHashWithKey(hash, key))).to.eq(keySigner);
+        });
+
+        it('throws for signature types without a recoverable signer', () => {
+            const signature = { ...eip712SignHashWithKey(hash, key), signatureType: SignatureType.PreSigned };
+            expect(getThrownError(() => recoverSignerFromSignature(hash, signature))).to.deep.eq(
+                new SignatureValidationError(SignatureValidationErrorCodes.Unsupported, hash),
+            );
+        });
+
+        it('throws for a malleable signature', () => {
+            const signature = eip712SignHashWithKey(hash, key);
+            const s = hexUtils.leftPad(SECP256K1_N.minus(signature.s));
+            expect(
+                getThrownError(() => recoverSignerFromSignature(hash, { ...signature, s, v: 55 - signature.v })),
+            ).to.deep.eq(new SignatureValidationError(SignatureValidationErrorCodes.BadSignatureData, hash));
+        });
+    });
+
+    describe('isValidSignatureAsync()', () => {
+        const keySigner = ethjs.bufferToHex(ethjs.privateToAddress(ethjs.toBuffer(key)));
+
+        it('returns true for a signature by the signer', async () => {
+            expect(await isValidSignatureAsync(hash, ethSignHashWithKey(hash, key), keySigner)).to.eq(true);
+        });
+
+        it('returns false for a signature by someone else', async () => {
+            expect(await isValidSignatureAsync(hash, ethSignHashWithKey(hash, key), signer)).to.eq(false);
+        });
+
+        it('returns false for an invalid signature', async () => {
+            const signature = { ...ethSignHashWithKey(hash, key), v: 1 };
+            expect(await isValidSignatureAsync(hash, signature, keySigner)).to.eq(false);
+        });
+
+        it('defers to the pre-signed check for PreSigned signatures', async () => {
+            const signature = { ...ethSignHashWithKey(hash, key), signatureType: SignatureType.PreSigned };
+            expect(await isValidSignatureAsync(hash, signature, keySigner)).to.eq(false);
+            expect(await isValidSignatureAsync(hash, signature, keySigner, async h => h === hash)).to.eq(true);
+        });
+    });
+
+    describe('signature encodings', () => {
+        const signature = ethSignHashWithKey(hash, key);
+
+        it('can round-trip a packed signature', () => {
+            const packed = encodePackedSignature(signature);
+            expect(packed).to.eq(hexUtils.concat(signature.r, signature.s, '0x1c'));
+            expect(decodePackedSignature(packed, SignatureType.EthSign)).to.deep.eq(signature);
+        });
+
+        it('accepts a packed signature with a 0/1 v', () => {
+            const packed = hexUtils.concat(signature.r, signature.s, '0x01');
+            expect(decodePackedSignature(packed, SignatureType.EthSign)).to.deep.eq(signature);
+        });
+
+        it('can round-trip an EIP-2098 compact signature', () => {
+            for (const sig of [signature, eip712SignHashWithKey(hash, key)]) {
+                const compact = encodeCompactSignature(sig);
+                expect(hexUtils.size(compact)).to.eq(64);
+                expect(decodeCompactSignature(compact, sig.signatureType)).to.deep.eq(sig);
+            }
+        });
+
+        it('can round-trip a legacy v3 signature', () => {
+            const legacy = encodeLegacySignature(signature);
+            expect(legacy).to.eq(hexUtils.concat('0x1c', signature.r, signature.s, '0x03'));
+            expect(decodeLegacySignature(legacy)).to.deep.eq(signature);
+        });
+
+        it('maps legacy PreSigned signatures', () => {
+            expect(decodeLegacySignature('0x06').signatureType).to.eq(SignatureType.PreSigned);
+            expect(encodeLegacySignature({ ...signature, signatureType: SignatureType.PreSigned })).to.eq('0x06');
+        });
+
+        it('rejects legacy signature types the Exchange Proxy does not support', () => {
+            expect(() => decodeLegacySignature('0x04')).to.throw('Unsupported legacy signature type: 4');
+        });
+
+        it('rejects a high s value', () => {
+            const highS = hexUtils.leftPad(SECP256K1_N.minus(signature.s));
+            expect(() => encodePackedSignature({ ...signature, s: highS })).to.throw('lower half');
+            expect(() =>
+                decodePackedSignature(hexUtils.concat(signature.r, highS, '0x1b'), SignatureType.EIP712),
+            ).to.throw('lower half');
+        });
+
+        it('rejects an invalid v value', () => {
+            expect(() =>
+                decodePackedSignature(hexUtils.concat(signature.r, signature.s, '0x05'), SignatureType.EIP712),
+            ).to.throw('Invalid signature v value');
+        });
+    });
 });
+
+function getThrownError(fn: () => unknown): unknown {
+    try {
+        fn();
+    } catch (err) {
+        return err;
+    }
+    return undefined;
+}
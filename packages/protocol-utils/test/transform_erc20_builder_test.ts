@@ -0,0 +1,106 @@
+import { getContractAddressesForChainOrThrow } from '@0x/contract-addresses';
+import { chaiSetup } from '@0x/dev-utils';
+import { BigNumber, hexUtils, NULL_ADDRESS } from '@0x/utils';
+import { expect } from 'chai';
+
+import { ETH_TOKEN_ADDRESS } from '../src/constants';
+import { LimitOrder } from '../src/orders';
+import { SignatureType } from '../src/signature_utils';
+import { TransformERC20Builder } from '../src/transform_erc20_builder';
+import { explainTransformERC20CallData } from '../src/transform_erc20_explainer';
+import {
+    FillQuoteTransformerData,
+    FillQuoteTransformerOrderType,
+    FillQuoteTransformerSide,
+} from '../src/transformer_utils';
+
+chaiSetup.configure();
+
+describe('transform_erc20_builder', () => {
+    const addresses = getContractAddressesForChainOrThrow(1);
+    const weth = addresses.etherToken;
+    const buyToken = hexUtils.random(20);
+    const recipient = hexUtils.random(20);
+    const signature = { signatureType: SignatureType.EIP712, v: 27, r: hexUtils.random(), s: hexUtils.random() };
+
+    function createFillQuoteData(fields: Partial<FillQuoteTransformerData> = {}): FillQuoteTransformerData {
+        return {
+            side: FillQuoteTransformerSide.Sell,
+            sellToken: weth,
+            buyToken,
+            bridgeOrders: [],
+            limitOrders: [],
+            rfqOrders: [],
+            otcOrders: [],
+            fillSequence: [],
+            fillAmount: new BigNumber(100),
+            refundReceiver: NULL_ADDRESS,
+            ...fields,
+        };
+    }
+
+    it('builds an ETH sell pipeline', () => {
+        const tx = new TransformERC20Builder(ETH_TOKEN_ADDRESS, new BigNumber(100))
+            .wrapEth()
+            .fillQuote(createFillQuoteData(), new BigNumber(1000))
+            .affiliateFee([{ token: buyToken, amount: new BigNumber(10), recipient }])
+            .build({ slippage: 0.01 });
+        expect(tx.to).to.eq(addresses.exchangeProxy);
+        expect(tx.value).to.bignumber.eq(100);
+        expect(tx.expectedOutputTokenAmount).to.bignumber.eq(990);
+        expect(tx.callData.outputToken).to.eq(buyToken);
+        expect(tx.callData.minOutputTokenAmount).to.bignumber.eq(980);
+        const explanation = explainTransformERC20CallData(tx.data);
+        expect(explanation.transformations.map(t => t.name)).to.deep.eq([
+            'wethTransformer',
+            'fillQuoteTransformer',
+            'affiliateFeeTransformer',
+            'payTakerTransformer',
+        ]);
+        const payTaker = explanation.transformations[3];
+        expect(payTaker.name === 'payTakerTransformer' && payTaker.payouts.map(p => p.token)).to.deep.eq([
+            buyToken,
+            ETH_TOKEN_ADDRESS,
+        ]);
+    });
+
+    it('attaches protocol fees for limit orders', () => {
+        const data = createFillQuoteData({
+            side: FillQuoteTransformerSide.Buy,
+            limitOrders: [{ order: new LimitOrder(), signature, maxTakerTokenFillAmount: new BigNumber(100) }],
+            fillSequence: [FillQuoteTransformerOrderType.Limit],
+        });
+        const tx = new TransformERC20Builder(weth, new BigNumber(100))
+            .fillQuote(data)
+            .positiveSlippageFee(new BigNumber(50), recipient)
+            .build({ gasPrice: new BigNumber(10), protocolFeeMultiplier: 2 });
+        expect(tx.value).to.bignumber.eq(20);
+        expect(tx.callData.minOutputTokenAmount).to.bignumber.eq(50);
+    });
+
+    it('only wraps the ETH being sold, not the protocol fees', () => {
+        const data = createFillQuoteData({
+            limitOrders: [{ order: new LimitOrder(), signature, maxTakerTokenFillAmount: new BigNumber(100) }],
+            fillSequence: [FillQuoteTransformerOrderType.Limit],
+        });
+        const tx = new TransformERC20Builder(ETH_TOKEN_ADDRESS, new BigNumber(100))
+            .wrapEth()
+            .fillQuote(data, new BigNumber(1000))
+            .build({ gasPrice: new BigNumber(10), protocolFeeMultiplier: 2 });
+        expect(tx.value).to.bignumber.eq(120);
+        const [wrap] = explainTransformERC20CallData(tx.data).transformations;
+        expect(wrap.name === 'wethTransformer' && wrap.amount).to.bignumber.eq(100);
+    });
+
+    it('validates the token flow', () => {
+        const builder = new TransformERC20Builder(weth, new BigNumber(100));
+        expect(() => builder.wrapEth()).to.throw('Cannot wrap ETH');
+        expect(() => builder.affiliateFee([{ token: buyToken, amount: new BigNumber(1), recipient }])).to.throw(
+            'which the pipeline never holds',
+        );
+        expect(() => builder.fillQuote(createFillQuoteData()).build()).to.throw(
+            'A minimum output token amount is required',
+        );
+        expect(() => builder.unwrapWeth()).to.throw('Cannot add steps after paying the taker');
+    });
+});
@@ -0,0 +1,218 @@
+import { chaiSetup } from '@0x/dev-utils';
+import { BigNumber, hexUtils, NULL_ADDRESS } from '@0x/utils';
+import { expect } from 'chai';
+
+import { encodeBridgeData } from '../src/bridge_data_utils';
+import { ETH_TOKEN_ADDRESS } from '../src/constants';
+import { encodeFractionalFillAmount } from '../src/multiplex_utils';
+import { LimitOrder } from '../src/orders';
+import { SignatureType } from '../src/signature_utils';
+import {
+    decodeTransformERC20CallData,
+    encodeTransformERC20CallData,
+    explainTransformERC20CallData,
+    formatTransformERC20Explanation,
+} from '../src/transform_erc20_explainer';
+import {
+    BridgeProtocol,
+    encodeAffiliateFeeTransformerData,
+    encodeBridgeSourceId,
+    encodeFillQuoteTransformerData,
+    encodePayTakerTransformerData,
+    encodePositiveSlippageFeeTransformerData,
+    encodeWethTransformerData,
+    FillQuoteTransformerOrderType,
+    FillQuoteTransformerSide,
+    getTransformerAddress,
+} from '../src/transformer_utils';
+
+chaiSetup.configure();
+
+describe('transform_erc20_explainer', () => {
+    const MAX_UINT256 = new BigNumber(2).pow(256).minus(1);
+    const deployer = hexUtils.random(20);
+    const transformers = {
+        wethTransformer: getTransformerAddress(deployer, 1),
+        fillQuoteTransformer: getTransformerAddress(deployer, 2),
+        affiliateFeeTransformer: getTransformerAddress(deployer, 3),
+        positiveSlippageFeeTransformer: getTransformerAddress(deployer, 4),
+        payTakerTransformer: getTransformerAddress(deployer, 5),
+    };
+    const weth = hexUtils.random(20);
+    const usdc = hexUtils.random(20);
+    const recipient = hexUtils.random(20);
+    const maker = hexUtils.random(20);
+    const limitOrder = new LimitOrder({ maker, makerToken: usdc, takerToken: weth });
+    const fillQuoteData = {
+        side: FillQuoteTransformerSide.Sell,
+        sellToken: weth,
+        buyToken: usdc,
+        bridgeOrders: [
+            {
+                source: encodeBridgeSourceId(BridgeProtocol.UniswapV2, 'SushiSwap'),
+                takerTokenAmount: new BigNumber(60),
+                makerTokenAmount: new BigNumber(600),
+                bridgeData: encodeBridgeData(BridgeProtocol.UniswapV2, { router: recipient, path: [weth, usdc] }),
+            },
+        ],
+        limitOrders: [
+            {
+                order: limitOrder,
+                signature: {
+                    signatureType: SignatureType.EIP712,
+                    v: 27,
+                    r: hexUtils.leftPad(1),
+                    s: hexUtils.leftPad(1),
+                },
+                maxTakerTokenFillAmount: new BigNumber(40),
+            },
+        ],
+        rfqOrders: [],
+        otcOrders: [],
+        fillSequence: [FillQuoteTransformerOrderType.Limit, FillQuoteTransformerOrderType.Bridge],
+        fillAmount: new BigNumber(100),
+        refundReceiver: NULL_ADDRESS,
+    };
+    const callData = encodeTransformERC20CallData({
+        inputToken: ETH_TOKEN_ADDRESS,
+        outputToken: usdc,
+        inputTokenAmount: new BigNumber(100),
+        minOutputTokenAmount: new BigNumber(900),
+        transformations: [
+            {
+                deploymentNonce: 1,
+                data: encodeWethTransformerData({ token: ETH_TOKEN_ADDRESS, amount: MAX_UINT256 }),
+            },
+            { deploymentNonce: 2, data: encodeFillQuoteTransformerData(fillQuoteData) },
+            {
+                deploymentNonce: 3,
+                data: encodeAffiliateFeeTransformerData({
+                    fees: [{ token: usdc, amount: new BigNumber(10), recipient }],
+                }),
+            },
+            {
+                deploymentNonce: 4,
+                data: encodePositiveSlippageFeeTransformerData({
+                    token: usdc,
+                    bestCaseAmount: new BigNumber(1000),
+                    recipient,
+                }),
+            },
+            {
+                deploymentNonce: 5,
+                data: encodePayTakerTransformerData({ tokens: [usdc, ETH_TOKEN_ADDRESS], amounts: [] }),
+            },
+            { deploymentNonce: 6, data: '0x1234' },
+        ],
+    });
+
+    describe('decodeTransformERC20CallData()', () => {
+        it('can round-trip calldata', () => {
+            const data = decodeTransformERC20CallData(callData);
+            expect(encodeTransformERC20CallData(data)).to.eq(callData);
+            expect(data.transformations.map(t => t.deploymentNonce)).to.deep.eq([1, 2, 3, 4, 5, 6]);
+        });
+    });
+
+    describe('explainTransformERC20CallData()', () => {
+        const explanation = explainTransformERC20CallData(callData, { deployer, transformers });
+
+        it('resolves deployment nonces to transformers', () => {
+            expect(explanation.transformations.map(t => t.name)).to.deep.eq([
+                'wethTransformer',
+                'fillQuoteTransformer',
+                'affiliateFeeTransformer',
+                'positiveSlippageFeeTransformer',
+                'payTakerTransformer',
+                undefined,
+            ]);
+            expect(explanation.transformations[5].transformer).to.eq(getTransformerAddress(deployer, 6));
+        });
+
+        it('explains the fill sequence and bridge sources', () => {
+            const fillQuote = explanation.transformations[1];
+            if (fillQuote.name !== 'fillQuoteTransformer') {
+                throw new Error('Expected a FillQuoteTransformer');
+            }
+            expect(fillQuote.fillAmount).to.bignumber.eq(100);
+            expect(fillQuote.fillSequence).to.deep.eq([
+                { orderType: FillQuoteTransformerOrderType.Limit, takerTokenAmount: new BigNumber(40), maker },
+                {
+                    orderType: FillQuoteTransformerOrderType.Bridge,
+                    takerTokenAmount: new BigNumber(60),
+                    bridgeSource: {
+                        protocol: BridgeProtocol.UniswapV2,
+                        name: 'SushiSwap',
+                        data: { router: recipient, path: [weth, usdc] },
+                    },
+                },
+            ]);
+        });
+
+        it('treats max and missing amounts as the entire balance', () => {
+            const [wethTransformation, , , , payTaker] = explanation.transformations;
+            expect(wethTransformation).to.include({ action: 'wrap', amount: undefined });
+            if (payTaker.name !== 'payTakerTransformer') {
+                throw new Error('Expected a PayTakerTransformer');
+            }
+            expect(payTaker.payouts).to.deep.eq([
+                { token: usdc, amount: undefined },
+                { token: ETH_TOKEN_ADDRESS, amount: undefined },
+            ]);
+        });
+
+        it('explains fractional fill amounts', () => {
+            const fractionalCallData = encodeTransformERC20CallData({
+                ...decodeTransformERC20CallData(callData),
+                transformations: [
+                    {
+                        deploymentNonce: 2,
+                        data: encodeFillQuoteTransformerData({
+                            ...fillQuoteData,
+                            fillAmount: encodeFractionalFillAmount(0.5),
+                        }),
+                    },
+                ],
+            });
+            const [fillQuote] = explainTransformERC20CallData(fractionalCallData, {
+                deployer,
+                transformers,
+            }).transformations;
+            expect(fillQuote).to.include({ fillAmount: undefined });
+            expect(fillQuote).to.have.property('fillFraction').that.is.bignumber.eq(0.5);
+        });
+
+        it('rejects a fill sequence with more orders than provided', () => {
+            const badCallData = encodeTransformERC20CallData({
+                ...decodeTransformERC20CallData(callData),
+                transformations: [
+                    {
+                        deploymentNonce: 2,
+                        data: encodeFillQuoteTransformerData({
+                            ...fillQuoteData,
+                            fillSequence: [FillQuoteTransformerOrderType.Rfq],
+                        }),
+                    },
+                ],
+            });
+            expect(() => explainTransformERC20CallData(badCallData, { deployer, transformers })).to.throw(
+                'Fill sequence has more Rfq orders than provided',
+            );
+        });
+    });
+
+    describe('formatTransformERC20Explanation()', () => {
+        it('pretty-prints an explanation', () => {
+            const text = formatTransformERC20Explanation(
+                explainTransformERC20CallData(callData, { deployer, transformers }),
+            );
+            expect(text).to.contain(`sell 100 ${ETH_TOKEN_ADDRESS} for at least 900 ${usdc}`);
+            expect(text).to.contain('wrap entire balance of ETH');
+            expect(text).to.contain('Bridge via SushiSwap (UniswapV2) up to 60');
+            expect(text).to.contain(`pay 10 ${usdc} to ${recipient}`);
+            expect(text).to.contain(`pay ${usdc} above 1000 to ${recipient}`);
+            expect(text).to.contain(`pay taker entire balance of ${usdc}`);
+            expect(text).to.contain('unknown transformer (nonce 6');
+        });
+    });
+});
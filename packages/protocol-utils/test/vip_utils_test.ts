@@ -0,0 +1,125 @@
+import { chaiSetup } from '@0x/dev-utils';
+import { BigNumber, hexUtils } from '@0x/utils';
+import { expect } from 'chai';
+
+import {
+    encodeSellEthForTokenToUniswapV3CallData,
+    encodeSellTokenForTokenToUniswapV3CallData,
+    encodeSellToPancakeSwapCallData,
+    encodeSellToUniswapCallData,
+    PancakeSwapProtocolFork,
+    sellEthForTokenToUniswapV3Encoder,
+    sellTokenForTokenToUniswapV3Encoder,
+    sellToPancakeSwapEncoder,
+    sellToUniswapEncoder,
+    UNISWAP_V3_FEE_TIERS,
+    uniswapV3PathUtils,
+} from '../src/vip_utils';
+
+chaiSetup.configure();
+
+describe('vip_utils', () => {
+    const tokens = [hexUtils.random(20), hexUtils.random(20), hexUtils.random(20)];
+    const recipient = hexUtils.random(20);
+
+    describe('uniswapV3PathUtils', () => {
+        const path = { tokens, fees: [500, 3000] };
+        const encoded = hexUtils.concat(tokens[0], '0x0001f4', tokens[1], '0x000bb8', tokens[2]);
+
+        it('can encode and decode a path', () => {
+            expect(uniswapV3PathUtils.encode(path)).to.eq(encoded);
+            expect(uniswapV3PathUtils.decode(encoded)).to.deep.eq(path);
+        });
+
+        it('can reverse a path', () => {
+            expect(uniswapV3PathUtils.reverse(encoded)).to.eq(
+                hexUtils.concat(tokens[2], '0x000bb8', tokens[1], '0x0001f4', tokens[0]),
+            );
+        });
+
+        it('rejects a path with mismatched fees', () => {
+            expect(() => uniswapV3PathUtils.encode({ tokens, fees: [500] })).to.throw(
+                'UniswapV3 path must have one fee for each pair of tokens',
+            );
+            expect(() => uniswapV3PathUtils.decode(hexUtils.concat(tokens[0], '0x0001f4'))).to.throw(
+                'Invalid UniswapV3 path length: 23',
+            );
+        });
+
+        it('rejects fees that are not a uint24', () => {
+            expect(() => uniswapV3PathUtils.encode({ tokens, fees: [500, 2 ** 24] })).to.throw(
+                `Invalid UniswapV3 fee: ${2 ** 24}`,
+            );
+        });
+
+        it('only accepts the given fee tiers', () => {
+            const customPath = { tokens, fees: [500, 1234] };
+            const customEncoded = uniswapV3PathUtils.encode(customPath);
+            expect(() => uniswapV3PathUtils.encode(customPath, UNISWAP_V3_FEE_TIERS)).to.throw(
+                'Unsupported UniswapV3 fee tier: 1234',
+            );
+            expect(() => uniswapV3PathUtils.decode(customEncoded, UNISWAP_V3_FEE_TIERS)).to.throw(
+                'Unsupported UniswapV3 fee tier: 1234',
+            );
+        });
+    });
+
+    describe('UniswapV3 calldata', () => {
+        it('encodes sellTokenForTokenToUniswapV3() with a packed path', () => {
+            const callData = encodeSellTokenForTokenToUniswapV3CallData({
+                path: { tokens: tokens.slice(0, 2), fees: [100] },
+                sellAmount: new BigNumber(100),
+                minBuyAmount: new BigNumber(99),
+                recipient,
+            });
+            expect(sellTokenForTokenToUniswapV3Encoder.decode(callData)).to.deep.eq({
+                encodedPath: hexUtils.concat(tokens[0], '0x000064', tokens[1]),
+                sellAmount: new BigNumber(100),
+                minBuyAmount: new BigNumber(99),
+                recipient,
+            });
+        });
+
+        it('encodes sellEthForTokenToUniswapV3() without a sell amount', () => {
+            const callData = encodeSellEthForTokenToUniswapV3CallData({
+                path: { tokens: tokens.slice(0, 2), fees: [100] },
+                minBuyAmount: new BigNumber(99),
+                recipient,
+            });
+            expect(callData.slice(0, 10)).to.eq(sellEthForTokenToUniswapV3Encoder.getSelector());
+            expect(sellEthForTokenToUniswapV3Encoder.decode(callData)).to.have.keys(
+                'encodedPath',
+                'minBuyAmount',
+                'recipient',
+            );
+        });
+    });
+
+    describe('UniswapV2 and PancakeSwap calldata', () => {
+        it('encodes sellToUniswap()', () => {
+            const data = { tokens, sellAmount: new BigNumber(100), minBuyAmount: new BigNumber(99), isSushi: true };
+            expect(sellToUniswapEncoder.decode(encodeSellToUniswapCallData(data))).to.deep.eq(data);
+        });
+
+        it('encodes sellToPancakeSwap() with a fork', () => {
+            const data = {
+                tokens,
+                sellAmount: new BigNumber(100),
+                minBuyAmount: new BigNumber(99),
+                fork: PancakeSwapProtocolFork.ApeSwap,
+            };
+            expect(sellToPancakeSwapEncoder.decode(encodeSellToPancakeSwapCallData(data))).to.deep.eq(data);
+        });
+
+        it('rejects a path with fewer than two tokens', () => {
+            expect(() =>
+                encodeSellToUniswapCallData({
+                    tokens: tokens.slice(0, 1),
+                    sellAmount: new BigNumber(100),
+                    minBuyAmount: new BigNumber(99),
+                    isSushi: false,
+                }),
+            ).to.throw('Invalid token path length: 1');
+        });
+    });
+});